@@ -0,0 +1,70 @@
+/**
+ * Creates an event from an FTC Live JSON dump (like 1234.db.json), writing the
+ * per-event database next to the server database.
+ *
+ * Usage: bun run scripts/import-event-json.ts <dump.json> [--db-path server.db] [--event-code CODE]
+ */
+import { Database } from "bun:sqlite";
+import path from "node:path";
+import { file } from "bun";
+
+import { createEventDatabaseManager } from "../src/event-database";
+import { createEventFromDump } from "../src/event-import";
+
+const DEFAULT_DB_PATH = "./server.db";
+
+const getArgValue = (key: string): string | undefined => {
+  const index = process.argv.indexOf(`--${key}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const importEvent = async (): Promise<void> => {
+  const args = process.argv.slice(2);
+  const inputPath = args.find(
+    (arg, index) => !(arg.startsWith("--") || args[index - 1]?.startsWith("--"))
+  );
+  if (!inputPath) {
+    throw new Error("Usage: import-event-json.ts <dump.json> [--db-path path]");
+  }
+
+  const dbPath = path.resolve(
+    getArgValue("db-path") ?? process.env.DB_PATH ?? DEFAULT_DB_PATH
+  );
+  const dump = await file(inputPath).json();
+  const db = new Database(dbPath, { create: false, readwrite: true });
+  const eventDatabases = createEventDatabaseManager(path.dirname(dbPath));
+  try {
+    const result = createEventFromDump(
+      db,
+      eventDatabases,
+      dump,
+      getArgValue("event-code")
+    );
+    if ("failure" in result) {
+      throw new Error(
+        [result.failure.error, result.failure.details].filter(Boolean).join(" ")
+      );
+    }
+
+    const { eventCode, imported, unmapped } = result.value;
+    console.log(`[import] created event ${eventCode}`);
+    for (const [table, count] of Object.entries(imported)) {
+      console.log(`[import] ${table}: ${count} row(s)`);
+    }
+    for (const issue of unmapped) {
+      const row = issue.row === null ? "" : `[${issue.row}]`;
+      console.warn(`[import] unmapped ${issue.source}${row}: ${issue.reason}`);
+    }
+  } finally {
+    eventDatabases.close();
+    db.close();
+  }
+};
+
+importEvent().catch((error: unknown) => {
+  console.error(
+    "[import] failed:",
+    error instanceof Error ? error.message : error
+  );
+  process.exit(1);
+});
@@ -0,0 +1,513 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { advancementPoints } from "@rms-local/db/schema/event-db/event-state";
+import { Hono } from "hono";
+
+import { readSelectionSummary } from "./alliance-selection";
+import { ADMIN_ROLE } from "./authorization";
+import { listAwards } from "./awards";
+import type { AppContext } from "./context";
+import { formatCsv } from "./csv";
+import { readEventConfig, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, resolveEvent, writeEventLog } from "./events";
+import { readBracket } from "./playoff-bracket";
+import { listRankings, type RankingRecord } from "./rankings";
+import { failureResponse, success } from "./request-result";
+import { listTeams } from "./teams";
+
+const ADVANCEMENT_ACCUMULATOR = "2026V1";
+const ACCUMULATOR_CONFIG_KEY = "ADVANCEMENT_ACCUMULATOR";
+const ENABLED_CONFIG_KEY = "advancement.enabled";
+const HIDE_PRIVATE_CONFIG_KEY = "advancement.hidePrivate";
+
+/** Shapes the qualification points curve; see the game manual. */
+const QUALIFICATION_ALPHA = 1.07;
+const QUALIFICATION_SPREAD = 7;
+const QUALIFICATION_BASE = 9;
+/** Captains and picks earn this minus their alliance or pick number. */
+const ALLIANCE_SELECTION_BASE = 21;
+/** Points for first to fourth place in the playoffs. */
+const PLAYOFF_POINTS = [40, 20, 10, 5] as const;
+/** Points for the winner, second and third place of each judged award. */
+const INSPIRE_AWARD_POINTS = [60, 30, 15] as const;
+const JUDGED_AWARD_POINTS = [12, 6, 3] as const;
+const INSPIRE_AWARD_ID = 11;
+const JUDGED_AWARD_IDS = new Set([4, 6, 7, 8, 9, 25, 26]);
+
+const ERF_SERIES_TERMS = 100;
+const ERF_SEARCH_LIMIT = 3;
+const ERF_SEARCH_STEPS = 100;
+
+export interface AdvancementRecord {
+  alliancePoints: number;
+  awardPoints: number;
+  nameShort: string;
+  playoffPoints: number;
+  /** Award points whose winners have not been announced yet. */
+  privatePoints: number;
+  qualificationPoints: number;
+  rank: number;
+  /** `[total, award, playoff, alliance, qualification, ...tiebreakers]`. */
+  sortTuple: (number | string)[];
+  team: number;
+  total: number;
+}
+
+interface TeamPoints {
+  alliance: number;
+  award: number;
+  playoff: number;
+  private: number;
+  qualification: number;
+}
+
+/** Maclaurin series; accurate to well past the precision used here for |x| <= 3. */
+const erf = (x: number): number => {
+  let sum = 0;
+  let term = x;
+  for (let n = 0; n < ERF_SERIES_TERMS; n += 1) {
+    sum += term / (2 * n + 1);
+    term *= (-x * x) / (n + 1);
+  }
+  return (2 / Math.sqrt(Math.PI)) * sum;
+};
+
+const inverseErf = (y: number): number => {
+  let low = -ERF_SEARCH_LIMIT;
+  let high = ERF_SEARCH_LIMIT;
+  for (let step = 0; step < ERF_SEARCH_STEPS; step += 1) {
+    const middle = (low + high) / 2;
+    if (erf(middle) < y) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/** 16 points for first place down to 2 for last, on a normal curve. */
+export const qualificationPoints = (rank: number, teamCount: number): number =>
+  Math.ceil(
+    inverseErf((teamCount - 2 * rank + 2) / (QUALIFICATION_ALPHA * teamCount)) *
+      (QUALIFICATION_SPREAD / inverseErf(1 / QUALIFICATION_ALPHA)) +
+      QUALIFICATION_BASE
+  );
+
+const emptyPoints = (): TeamPoints => ({
+  alliance: 0,
+  award: 0,
+  playoff: 0,
+  private: 0,
+  qualification: 0,
+});
+
+const addQualificationPoints = (
+  points: Map<number, TeamPoints>,
+  rankings: RankingRecord[]
+): void => {
+  const ranked = rankings.filter((ranking) => ranking.rank > 0);
+  for (const ranking of ranked) {
+    const team = points.get(ranking.team);
+    if (team) {
+      team.qualification = qualificationPoints(ranking.rank, ranked.length);
+    }
+  }
+};
+
+/**
+ * Captains earn points by alliance number and picks by the order they were
+ * chosen, which runs through every alliance's first pick before any second.
+ */
+const addAlliancePoints = (
+  points: Map<number, TeamPoints>,
+  eventDb: EventDb
+): void => {
+  const { alliances } = readSelectionSummary(eventDb);
+  alliances.forEach((alliance, index) => {
+    alliance.forEach((teamNumber, seat) => {
+      const order =
+        seat === 0 ? index + 1 : (seat - 1) * alliances.length + index + 1;
+      const team = points.get(teamNumber);
+      if (team) {
+        team.alliance = ALLIANCE_SELECTION_BASE - order;
+      }
+    });
+  });
+};
+
+/**
+ * Alliances finish in the reverse of the order they were knocked out: the
+ * champion, the finals loser, then the losers of the lower bracket from last
+ * to first.
+ */
+const listPlayoffFinish = (
+  bracket: ReturnType<typeof readBracket>
+): number[] => {
+  if (bracket.champion === null) {
+    return [];
+  }
+  const eliminated = [...bracket.nodes]
+    .reverse()
+    .filter((node) => node.bracket !== "upper")
+    .flatMap((node) => (node.loser === null ? [] : [node.loser]));
+  return [bracket.champion, ...eliminated];
+};
+
+const addPlayoffPoints = (
+  points: Map<number, TeamPoints>,
+  eventDb: EventDb
+): void => {
+  const bracket = readBracket(eventDb);
+  listPlayoffFinish(bracket).forEach((rank, place) => {
+    const earned = PLAYOFF_POINTS[place] ?? 0;
+    const alliance = bracket.alliances.find((entry) => entry.rank === rank);
+    for (const teamNumber of alliance?.teams ?? []) {
+      const team = points.get(teamNumber);
+      if (team) {
+        team.playoff = earned;
+      }
+    }
+  });
+};
+
+/** Judges' Choice, person and alliance awards carry no points. */
+const awardPointTable = (awardId: number): readonly number[] => {
+  if (awardId === INSPIRE_AWARD_ID) {
+    return INSPIRE_AWARD_POINTS;
+  }
+  return JUDGED_AWARD_IDS.has(awardId) ? JUDGED_AWARD_POINTS : [];
+};
+
+const addAwardPoints = (
+  points: Map<number, TeamPoints>,
+  eventDb: EventDb
+): void => {
+  for (const award of listAwards(eventDb)) {
+    const table = awardPointTable(award.awardId);
+    for (const winner of award.winners) {
+      const team = winner.team === null ? null : points.get(winner.team);
+      const earned = table[winner.series - 1] ?? 0;
+      if (team) {
+        team.award += earned;
+        team.private += winner.isPublic ? 0 : earned;
+      }
+    }
+  }
+};
+
+/**
+ * Ties on points fall back to the qualification average score, average auto
+ * score, two best scores and the ranking's random draw, as FTC Live does.
+ */
+const tiebreakers = (ranking: RankingRecord | undefined): string[] => {
+  const [, averageScore, , averageAuto, random, topScores] =
+    ranking?.sortOrders ?? [];
+  const [best, second] = (topScores ?? "0.0").split(".");
+  return [
+    averageScore ?? "0",
+    averageAuto ?? "0",
+    best ?? "0",
+    second ?? "0",
+    random ?? "0",
+  ];
+};
+
+const compareTuples = (
+  a: (number | string)[],
+  b: (number | string)[]
+): number => {
+  for (let index = 0; index < Math.max(a.length, b.length); index += 1) {
+    const difference = Number(b[index] ?? 0) - Number(a[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+/** Recomputes every team's points and stores them in `advancement_points`. */
+export const recomputeAdvancement = (eventDb: EventDb): void => {
+  const points = new Map(
+    listTeams(eventDb)
+      .filter((team) => team.competing === "FULL")
+      .map((team) => [team.number, emptyPoints()])
+  );
+  const rankings = listRankings(eventDb);
+  addQualificationPoints(points, rankings);
+  addAlliancePoints(points, eventDb);
+  addPlayoffPoints(points, eventDb);
+  addAwardPoints(points, eventDb);
+
+  const rankingByTeam = new Map(
+    rankings.map((ranking) => [ranking.team, ranking])
+  );
+  const rows = [...points].map(([team, earned]) => ({
+    team,
+    privatePoints: earned.private,
+    sortTuple: [
+      earned.award + earned.playoff + earned.alliance + earned.qualification,
+      earned.award,
+      earned.playoff,
+      earned.alliance,
+      earned.qualification,
+      ...tiebreakers(rankingByTeam.get(team)),
+    ],
+  }));
+  rows.sort((a, b) => compareTuples(a.sortTuple, b.sortTuple));
+
+  eventDb.transaction(() => {
+    eventDb.delete(advancementPoints).run();
+    if (rows.length > 0) {
+      eventDb
+        .insert(advancementPoints)
+        .values(
+          rows.map((row) => ({
+            team: row.team,
+            sortTuple: `[${row.sortTuple.join(",")}]`,
+            privatePoints: row.privatePoints,
+          }))
+        )
+        .run();
+    }
+    writeEventConfig(eventDb, ACCUMULATOR_CONFIG_KEY, ADVANCEMENT_ACCUMULATOR);
+  });
+};
+
+const parseSortTuple = (value: string): (number | string)[] => {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * The stored advancement order. With `hidePrivate`, unannounced award points
+ * are taken out of each total before the teams are ordered.
+ */
+export const listAdvancement = (
+  eventDb: EventDb,
+  hidePrivate: boolean
+): AdvancementRecord[] => {
+  const names = new Map(
+    listTeams(eventDb).map((team) => [team.number, team.nameShort])
+  );
+  const rows = eventDb.select().from(advancementPoints).all();
+
+  const records = rows.map((row) => {
+    const tuple = parseSortTuple(row.sortTuple);
+    const hidden = hidePrivate ? row.privatePoints : 0;
+    const sortTuple = [
+      Number(tuple[0] ?? 0) - hidden,
+      Number(tuple[1] ?? 0) - hidden,
+      ...tuple.slice(2),
+    ];
+    return {
+      team: row.team,
+      nameShort: names.get(row.team) ?? "",
+      total: Number(sortTuple[0]),
+      awardPoints: Number(sortTuple[1]),
+      playoffPoints: Number(sortTuple[2] ?? 0),
+      alliancePoints: Number(sortTuple[3] ?? 0),
+      qualificationPoints: Number(sortTuple[4] ?? 0),
+      privatePoints: hidePrivate ? 0 : row.privatePoints,
+      sortTuple,
+    };
+  });
+
+  return records
+    .sort((a, b) => compareTuples(a.sortTuple, b.sortTuple))
+    .map((record, index) => ({ ...record, rank: index + 1 }));
+};
+
+const readAdvancementSettings = (eventDb: EventDb) => ({
+  enabled: readEventConfig(eventDb, ENABLED_CONFIG_KEY) === "true",
+  hidePrivate: readEventConfig(eventDb, HIDE_PRIVATE_CONFIG_KEY) === "true",
+});
+
+const CSV_HEADERS = [
+  "Rank",
+  "Team",
+  "Name",
+  "Total",
+  "Judged Awards",
+  "Playoffs",
+  "Alliance Selection",
+  "Qualification",
+  "Private",
+];
+
+const formatAdvancementCsv = (records: AdvancementRecord[]): string =>
+  formatCsv(
+    CSV_HEADERS,
+    records.map((record) => [
+      record.rank,
+      record.team,
+      record.nameShort,
+      record.total,
+      record.awardPoints,
+      record.playoffPoints,
+      record.alliancePoints,
+      record.qualificationPoints,
+      record.privatePoints,
+    ])
+  );
+
+export const createAdvancementRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/advancement",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) =>
+          success({
+            ...readAdvancementSettings(eventDb),
+            teams: listAdvancement(eventDb, false),
+          })
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.get(
+    "/:code/advancement/export",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    (c) => {
+      const { eventCode } = c.get("eventAccess").event;
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        eventCode,
+        (eventDb) =>
+          success(formatAdvancementCsv(listAdvancement(eventDb, false)))
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      c.header("Content-Type", "text/csv; charset=utf-8");
+      c.header(
+        "Content-Disposition",
+        `attachment; filename="${eventCode}-advancement.csv"`
+      );
+      return c.body(result.value);
+    }
+  );
+
+  routes.post(
+    "/:code/advancement",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    (c) => {
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          recomputeAdvancement(eventDb);
+          return success({
+            ...readAdvancementSettings(eventDb),
+            teams: listAdvancement(eventDb, false),
+          });
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "ADVANCEMENT_COMPUTED",
+        eventCode: event.eventCode,
+        info: String(result.value.teams.length),
+        extra: { userId },
+      });
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.put(
+    "/:code/advancement",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const payload = (await c.req.json().catch(() => null)) as Record<
+        string,
+        unknown
+      > | null;
+      const { enabled, hidePrivate } = payload ?? {};
+      if (
+        (enabled !== undefined && typeof enabled !== "boolean") ||
+        (hidePrivate !== undefined && typeof hidePrivate !== "boolean")
+      ) {
+        return c.json(
+          { error: "enabled and hidePrivate must be true or false." },
+          400
+        );
+      }
+
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => {
+          if (enabled !== undefined) {
+            writeEventConfig(eventDb, ENABLED_CONFIG_KEY, String(enabled));
+          }
+          if (hidePrivate !== undefined) {
+            writeEventConfig(
+              eventDb,
+              HIDE_PRIVATE_CONFIG_KEY,
+              String(hidePrivate)
+            );
+          }
+          return success(readAdvancementSettings(eventDb));
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  /** Read without a session like the other displays. */
+  routes.get("/:code/display/advancement", (c) => {
+    const event = resolveEvent(db, c.req.param("code"));
+    if ("failure" in event) {
+      return failureResponse(c, event.failure);
+    }
+
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.value.eventCode,
+      (eventDb) => {
+        const settings = readAdvancementSettings(eventDb);
+        return success({
+          ...settings,
+          teams: settings.enabled
+            ? listAdvancement(eventDb, settings.hidePrivate)
+            : [],
+        });
+      }
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json({ eventName: event.value.name, ...result.value });
+  });
+
+  return routes;
+};
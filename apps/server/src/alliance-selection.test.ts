@@ -0,0 +1,220 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+import { elims } from "@rms-local/db/schema/event-db/matches";
+import { alliances, selections } from "@rms-local/db/schema/event-db/schedule";
+import { file } from "bun";
+
+import {
+  findStalledAlliance,
+  type PlayoffFormat,
+  parsePlayoffStructure,
+  recordSelection,
+  replaySelections,
+  SELECTION_METHOD,
+  SELECTION_OP,
+  type SelectionOp,
+  startSelection,
+  validateSelection,
+} from "./alliance-selection";
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importEventDump } from "./event-import";
+
+/** FTC Live export with 16 ranked teams and `DOUBLE_ELIMINATION:4` playoffs. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+
+const TWO_ALLIANCES: PlayoffFormat = {
+  structure: "DOUBLE_ELIMINATION",
+  allianceCount: 2,
+  allianceSize: 2,
+};
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+/** Builds ops as the server records them: seated captains, then picks. */
+const ops = (...steps: [keyof typeof SELECTION_OP, number][]): SelectionOp[] =>
+  steps.map(([op, team], index) => ({
+    id: index + 1,
+    op: SELECTION_OP[op],
+    method:
+      op === "captain"
+        ? SELECTION_METHOD.ranking
+        : SELECTION_METHOD.scorekeeper,
+    team,
+  }));
+
+const summaryOf = <TValue>(
+  result: { value: TValue } | { failure: { error: string } }
+): TValue => {
+  if (!("value" in result)) {
+    throw new Error(result.failure.error);
+  }
+  return result.value;
+};
+
+describe("parsePlayoffStructure", () => {
+  test("reads the alliance count and an optional alliance size", () => {
+    expect(parsePlayoffStructure("DOUBLE_ELIMINATION:4")).toEqual({
+      structure: "DOUBLE_ELIMINATION",
+      allianceCount: 4,
+      allianceSize: 2,
+    });
+    expect(parsePlayoffStructure("DOUBLE_ELIMINATION:6:3")).toMatchObject({
+      allianceCount: 6,
+      allianceSize: 3,
+    });
+    expect(parsePlayoffStructure(null)).toMatchObject({
+      allianceCount: 4,
+      allianceSize: 2,
+    });
+  });
+});
+
+describe("replaySelections", () => {
+  test("makes every first pick in seed order before any second pick", () => {
+    const state = replaySelections(
+      [1, 2, 3, 4, 5, 6, 7],
+      ops(["captain", 1], ["accept", 3], ["captain", 2], ["accept", 4]),
+      { ...TWO_ALLIANCES, allianceSize: 3 }
+    );
+
+    expect(state).toMatchObject({
+      alliances: [
+        [1, 3],
+        [2, 4],
+      ],
+      available: [5, 6, 7],
+      complete: false,
+      picking: 0,
+    });
+  });
+
+  test("completes once every alliance is full", () => {
+    const state = replaySelections(
+      [1, 2, 3, 4, 5],
+      ops(["captain", 1], ["accept", 2], ["captain", 3], ["accept", 5]),
+      TWO_ALLIANCES
+    );
+
+    expect(state).toMatchObject({ complete: true, picking: null });
+  });
+});
+
+describe("validateSelection", () => {
+  const state = replaySelections(
+    [1, 2, 3, 4, 5],
+    ops(["captain", 1], ["decline", 2]),
+    TWO_ALLIANCES
+  );
+
+  test("accepts a ranked team that has not declined", () => {
+    expect(validateSelection(state, 3)).toBeNull();
+  });
+
+  test("refuses the captain, declined teams and unranked teams", () => {
+    expect(validateSelection(state, 1)).toBe("A captain cannot pick itself.");
+    expect(validateSelection(state, 2)).toBe(
+      "Team 2 declined an earlier invitation and cannot be picked."
+    );
+    expect(validateSelection(state, 9)).toContain("Team 9 is not available");
+  });
+});
+
+describe("findStalledAlliance", () => {
+  test("finds the picking captain once every remaining team has declined", () => {
+    const state = replaySelections(
+      [1, 2, 3, 4, 5],
+      ops(
+        ["captain", 1],
+        ["accept", 2],
+        ["captain", 3],
+        ["decline", 4],
+        ["decline", 5]
+      ),
+      TWO_ALLIANCES
+    );
+
+    expect(state.picking).toBe(1);
+    expect(findStalledAlliance(state, TWO_ALLIANCES)).toBe(1);
+  });
+
+  test("seats declined teams as later captains", () => {
+    const state = replaySelections(
+      [1, 2, 3, 4],
+      ops(["captain", 1], ["decline", 2]),
+      TWO_ALLIANCES
+    );
+
+    expect(findStalledAlliance(state, TWO_ALLIANCES)).toBeNull();
+  });
+
+  test("finds a later alliance that would have nobody to pick", () => {
+    const state = replaySelections(
+      [1, 2, 3, 4],
+      ops(["captain", 1], ["decline", 2], ["decline", 3]),
+      TWO_ALLIANCES
+    );
+
+    expect(findStalledAlliance(state, TWO_ALLIANCES)).toBe(1);
+  });
+});
+
+describe("recordSelection", () => {
+  beforeEach(async () => {
+    directory = mkdtempSync(path.join(tmpdir(), "alliance-selection-"));
+    eventDatabases = createEventDatabaseManager(directory);
+    eventDatabases.create(EVENT_CODE);
+    const fixture = await file(FIXTURE_PATH).json();
+    useEventDb((eventDb) => {
+      importEventDump(eventDb.$client, fixture);
+      // Start over from the rankings the fixture's selection was made from.
+      eventDb.delete(elims).run();
+      eventDb.delete(alliances).run();
+      eventDb.delete(selections).run();
+    });
+  });
+
+  afterEach(() => {
+    eventDatabases.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("refuses the decline that would leave the last captain nobody to pick", () => {
+    useEventDb((eventDb) => {
+      let summary = summaryOf(startSelection(eventDb));
+      while (summary.picking !== summary.allianceCount - 1) {
+        const [team] = summary.available;
+        summary = summaryOf(recordSelection(eventDb, "accept", team as number));
+      }
+
+      const [lastTeam, ...others] = [...summary.available].reverse();
+      for (const team of others) {
+        summaryOf(recordSelection(eventDb, "decline", team));
+      }
+
+      expect(recordSelection(eventDb, "decline", lastTeam as number)).toEqual({
+        failure: {
+          status: 409,
+          error:
+            "Alliance 4 would have no team left to pick; every remaining team has declined.",
+          details: undefined,
+        },
+      });
+      const completed = summaryOf(
+        recordSelection(eventDb, "accept", lastTeam as number)
+      );
+      expect(completed.complete).toBe(true);
+      expect(completed.alliances[3]?.[1]).toBe(lastTeam);
+    });
+  });
+});
@@ -0,0 +1,485 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { elims } from "@rms-local/db/schema/event-db/matches";
+import {
+  alliances as allianceTable,
+  selections,
+} from "@rms-local/db/schema/event-db/schedule";
+import { asc, gte } from "drizzle-orm";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import { readEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { listRankings } from "./rankings";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+
+/** `op` values of the selections table. */
+export const SELECTION_OP = {
+  accept: 0,
+  decline: 1,
+  captain: 3,
+} as const;
+
+/** `method` values of the selections table. */
+export const SELECTION_METHOD = {
+  scorekeeper: 0,
+  ranking: 2,
+} as const;
+
+const DEFAULT_ALLIANCE_COUNT = 4;
+const DEFAULT_ALLIANCE_SIZE = 2;
+const MIN_ALLIANCE_SIZE = 2;
+const MAX_ALLIANCE_SIZE = 3;
+const EMPTY_ALLIANCE_SLOT = 0;
+
+export interface SelectionOp {
+  id: number;
+  method: number;
+  op: number;
+  team: number;
+}
+
+export interface PlayoffFormat {
+  allianceCount: number;
+  allianceSize: number;
+  structure: string;
+}
+
+export interface SelectionState {
+  alliances: number[][];
+  /** Teams still available, best ranked first. */
+  available: number[];
+  complete: boolean;
+  declined: number[];
+  /** Zero-based alliance whose captain picks next, or null when complete. */
+  picking: number | null;
+}
+
+type SelectionAction = "accept" | "decline";
+
+/**
+ * Reads `playoffStructure` (`FORMAT:ALLIANCES[:TEAMS_PER_ALLIANCE]`, e.g.
+ * `DOUBLE_ELIMINATION:4`). Alliances have two teams unless a size is given.
+ */
+export const parsePlayoffStructure = (value: string | null): PlayoffFormat => {
+  const [format, rawCount, rawSize] = (value ?? "").split(":");
+  const allianceCount = Number.parseInt(rawCount ?? "", 10);
+  const allianceSize = Number.parseInt(rawSize ?? "", 10);
+  return {
+    structure: format || "DOUBLE_ELIMINATION",
+    allianceCount:
+      Number.isInteger(allianceCount) && allianceCount > 1
+        ? allianceCount
+        : DEFAULT_ALLIANCE_COUNT,
+    allianceSize:
+      allianceSize >= MIN_ALLIANCE_SIZE && allianceSize <= MAX_ALLIANCE_SIZE
+        ? allianceSize
+        : DEFAULT_ALLIANCE_SIZE,
+  };
+};
+
+/**
+ * Picks go round by round: every captain makes a first pick in seed order,
+ * then (for three-team alliances) a second pick in the same order.
+ */
+const findPickingAlliance = (
+  alliances: number[][],
+  format: PlayoffFormat
+): number | null => {
+  for (let round = 1; round < format.allianceSize; round += 1) {
+    for (let index = 0; index < format.allianceCount; index += 1) {
+      if ((alliances[index]?.length ?? 0) <= round) {
+        return index;
+      }
+    }
+  }
+  return null;
+};
+
+/** Rebuilds the selection state by replaying the recorded ops in order. */
+export const replaySelections = (
+  ranking: number[],
+  ops: SelectionOp[],
+  format: PlayoffFormat
+): SelectionState => {
+  const alliances: number[][] = Array.from(
+    { length: format.allianceCount },
+    () => []
+  );
+  const declined = new Set<number>();
+
+  for (const op of ops) {
+    if (op.op === SELECTION_OP.captain) {
+      alliances.find((alliance) => alliance.length === 0)?.push(op.team);
+    } else if (op.op === SELECTION_OP.decline) {
+      declined.add(op.team);
+    } else if (op.op === SELECTION_OP.accept) {
+      const picking = findPickingAlliance(alliances, format);
+      if (picking !== null) {
+        alliances[picking]?.push(op.team);
+      }
+    }
+  }
+
+  const selected = new Set(alliances.flat());
+  const picking = findPickingAlliance(alliances, format);
+  return {
+    alliances,
+    available: ranking.filter((team) => !selected.has(team)),
+    complete: picking === null,
+    declined: [...declined],
+    picking,
+  };
+};
+
+/** Checks a pick or decline against the current state before it is recorded. */
+export const validateSelection = (
+  state: SelectionState,
+  team: number
+): string | null => {
+  if (state.picking === null) {
+    return "Alliance selection is complete.";
+  }
+  const captain = state.alliances[state.picking]?.[0];
+  if (captain === undefined) {
+    return "The picking alliance has no captain.";
+  }
+  if (team === captain) {
+    return "A captain cannot pick itself.";
+  }
+  if (!state.available.includes(team)) {
+    return `Team ${team} is not available; it is already on an alliance or not ranked.`;
+  }
+  if (state.declined.includes(team)) {
+    return `Team ${team} declined an earlier invitation and cannot be picked.`;
+  }
+  return null;
+};
+
+/**
+ * Plays the rest of the selection out with every captain taking the best
+ * ranked team it may pick, and returns the first alliance left with nobody to
+ * pick, or null when every alliance can be completed. Declined teams can still
+ * be seated as captains, so they only run out picks, not captains.
+ */
+export const findStalledAlliance = (
+  state: SelectionState,
+  format: PlayoffFormat
+): number | null => {
+  const alliances = state.alliances.map((alliance) => [...alliance]);
+  const remaining = [...state.available];
+  const declined = new Set(state.declined);
+
+  let picking = findPickingAlliance(alliances, format);
+  while (picking !== null) {
+    const alliance = alliances[picking] as number[];
+    const index =
+      alliance.length === 0
+        ? 0
+        : remaining.findIndex((team) => !declined.has(team));
+    const [team] = index === -1 ? [] : remaining.splice(index, 1);
+    if (team === undefined) {
+      return picking;
+    }
+    alliance.push(team);
+    picking = findPickingAlliance(alliances, format);
+  }
+  return null;
+};
+
+const listSelectionOps = (eventDb: EventDb): SelectionOp[] =>
+  eventDb.select().from(selections).orderBy(asc(selections.id)).all();
+
+const insertSelectionOp = (
+  eventDb: EventDb,
+  op: number,
+  method: number,
+  team: number
+): void => {
+  eventDb.insert(selections).values({ op, method, team }).run();
+};
+
+const readRankedTeams = (eventDb: EventDb): number[] =>
+  listRankings(eventDb)
+    .map((ranking) => ranking.team)
+    .filter((team) => team > 0);
+
+export const readPlayoffFormat = (eventDb: EventDb): PlayoffFormat =>
+  parsePlayoffStructure(readEventConfig(eventDb, "playoffStructure"));
+
+const isFinalized = (eventDb: EventDb): boolean =>
+  Boolean(
+    eventDb.select({ rank: allianceTable.rank }).from(allianceTable).get()
+  );
+
+const hasPlayoffMatches = (eventDb: EventDb): boolean =>
+  Boolean(eventDb.select({ match: elims.match }).from(elims).get());
+
+/** Seats the best ranked remaining team as the next captain if one is due. */
+const seatNextCaptain = (eventDb: EventDb, format: PlayoffFormat): void => {
+  const state = replaySelections(
+    readRankedTeams(eventDb),
+    listSelectionOps(eventDb),
+    format
+  );
+  if (state.picking === null || state.alliances[state.picking]?.length) {
+    return;
+  }
+  const captain = state.available[0];
+  if (captain !== undefined) {
+    insertSelectionOp(
+      eventDb,
+      SELECTION_OP.captain,
+      SELECTION_METHOD.ranking,
+      captain
+    );
+  }
+};
+
+export const readSelectionSummary = (eventDb: EventDb) => {
+  const format = readPlayoffFormat(eventDb);
+  const ops = listSelectionOps(eventDb);
+  return {
+    ...format,
+    ...replaySelections(readRankedTeams(eventDb), ops, format),
+    started: ops.length > 0,
+    finalized: isFinalized(eventDb),
+    ops,
+  };
+};
+
+type SelectionSummary = ReturnType<typeof readSelectionSummary>;
+
+const ensureEditable = (eventDb: EventDb): RequestResult<true> => {
+  if (isFinalized(eventDb)) {
+    return failure(409, "Alliances are finalized; undo to make changes.");
+  }
+  return success(true);
+};
+
+export const startSelection = (
+  eventDb: EventDb
+): RequestResult<SelectionSummary> => {
+  const editable = ensureEditable(eventDb);
+  if ("failure" in editable) {
+    return editable;
+  }
+  if (listSelectionOps(eventDb).length > 0) {
+    return failure(409, "Alliance selection has already started.");
+  }
+
+  const format = readPlayoffFormat(eventDb);
+  const ranked = readRankedTeams(eventDb);
+  if (ranked.length < format.allianceCount * format.allianceSize) {
+    return failure(
+      400,
+      `${format.allianceCount} alliances of ${format.allianceSize} need ${format.allianceCount * format.allianceSize} ranked teams.`
+    );
+  }
+
+  eventDb.transaction(() => seatNextCaptain(eventDb, format));
+  return success(readSelectionSummary(eventDb));
+};
+
+export const recordSelection = (
+  eventDb: EventDb,
+  action: SelectionAction,
+  team: number
+): RequestResult<SelectionSummary> => {
+  const editable = ensureEditable(eventDb);
+  if ("failure" in editable) {
+    return editable;
+  }
+
+  const format = readPlayoffFormat(eventDb);
+  const ops = listSelectionOps(eventDb);
+  if (ops.length === 0) {
+    return failure(409, "Alliance selection has not started.");
+  }
+
+  const ranked = readRankedTeams(eventDb);
+  const state = replaySelections(ranked, ops, format);
+  const problem = validateSelection(state, team);
+  if (problem) {
+    return failure(400, problem);
+  }
+
+  const op = action === "accept" ? SELECTION_OP.accept : SELECTION_OP.decline;
+  const stalled = findStalledAlliance(
+    replaySelections(
+      ranked,
+      [...ops, { id: 0, method: SELECTION_METHOD.scorekeeper, op, team }],
+      format
+    ),
+    format
+  );
+  if (stalled !== null) {
+    return failure(
+      409,
+      `Alliance ${stalled + 1} would have no team left to pick; every remaining team has declined.`
+    );
+  }
+
+  eventDb.transaction(() => {
+    insertSelectionOp(eventDb, op, SELECTION_METHOD.scorekeeper, team);
+    seatNextCaptain(eventDb, format);
+  });
+  return success(readSelectionSummary(eventDb));
+};
+
+/**
+ * Removes the last scorekeeper op together with the captain seatings that
+ * followed it. The first undo after finalization only clears the alliances,
+ * leaving every pick in place.
+ */
+export const undoSelection = (
+  eventDb: EventDb
+): RequestResult<SelectionSummary> => {
+  if (hasPlayoffMatches(eventDb)) {
+    return failure(409, "Playoff matches already exist for these alliances.");
+  }
+
+  if (isFinalized(eventDb)) {
+    eventDb.delete(allianceTable).run();
+    return success(readSelectionSummary(eventDb));
+  }
+
+  const ops = listSelectionOps(eventDb);
+  if (ops.length === 0) {
+    return failure(409, "There is nothing to undo.");
+  }
+
+  let cutoff = ops.length - 1;
+  while (cutoff > 0 && ops[cutoff]?.method === SELECTION_METHOD.ranking) {
+    cutoff -= 1;
+  }
+  const firstRemoved = ops[cutoff] as SelectionOp;
+
+  eventDb.delete(selections).where(gte(selections.id, firstRemoved.id)).run();
+  return success(readSelectionSummary(eventDb));
+};
+
+export const finalizeAlliances = (
+  eventDb: EventDb
+): RequestResult<SelectionSummary> => {
+  const editable = ensureEditable(eventDb);
+  if ("failure" in editable) {
+    return editable;
+  }
+
+  const summary = readSelectionSummary(eventDb);
+  if (!(summary.started && summary.complete)) {
+    return failure(409, "Every alliance must be complete before finalizing.");
+  }
+
+  eventDb
+    .insert(allianceTable)
+    .values(
+      summary.alliances.map((alliance, index) => ({
+        rank: index + 1,
+        team1: alliance[0] ?? EMPTY_ALLIANCE_SLOT,
+        team2: alliance[1] ?? EMPTY_ALLIANCE_SLOT,
+        team3: alliance[2] ?? EMPTY_ALLIANCE_SLOT,
+      }))
+    )
+    .run();
+  return success(readSelectionSummary(eventDb));
+};
+
+const parseSelectionTeam = (payload: unknown): number | null => {
+  const team = (payload as { team?: unknown } | null)?.team;
+  return typeof team === "number" && Number.isInteger(team) && team > 0
+    ? team
+    : null;
+};
+
+export const createAllianceSelectionRoutes = ({
+  auth,
+  channel,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/alliance-selection",
+    requireEventRoles(auth, db, ["TSO"]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => success(readSelectionSummary(eventDb))
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  const registerStep = (
+    path: string,
+    logType: string,
+    step: (
+      eventDb: EventDb,
+      payload: unknown
+    ) => RequestResult<SelectionSummary>
+  ) => {
+    routes.post(
+      `/:code/alliance-selection/${path}` as const,
+      requireEventRoles(auth, db, ["TSO"]),
+      async (c) => {
+        const payload = await c.req.json().catch(() => null);
+        const { event, userId } = c.get("eventAccess");
+        const result = runEventDatabaseTask(
+          eventDatabases,
+          event.eventCode,
+          (eventDb) => step(eventDb, payload)
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        writeEventLog(db, {
+          type: logType,
+          eventCode: event.eventCode,
+          info: JSON.stringify(result.value.alliances),
+          extra: { team: parseSelectionTeam(payload), userId },
+        });
+        channel.publish(event.eventCode, {
+          type: "ALLIANCE_SELECTION_STEP",
+          step: path,
+          alliances: result.value.alliances,
+          picking: result.value.picking,
+          complete: result.value.complete,
+        });
+
+        return c.json(result.value);
+      }
+    );
+  };
+
+  const teamStep =
+    (action: SelectionAction) => (eventDb: EventDb, payload: unknown) => {
+      const team = parseSelectionTeam(payload);
+      if (!team) {
+        return failure(400, "team must be a team number.");
+      }
+      return recordSelection(eventDb, action, team);
+    };
+
+  registerStep("start", "ALLIANCE_SELECTION_STARTED", startSelection);
+  registerStep("accept", "ALLIANCE_PICK_ACCEPTED", teamStep("accept"));
+  registerStep("decline", "ALLIANCE_PICK_DECLINED", teamStep("decline"));
+  registerStep("undo", "ALLIANCE_SELECTION_UNDONE", undoSelection);
+  registerStep("finalize", "ALLIANCES_FINALIZED", finalizeAlliances);
+
+  return routes;
+};
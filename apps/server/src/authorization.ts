@@ -0,0 +1,71 @@
+import type { Database } from "bun:sqlite";
+import { userRole } from "@rms-local/db/schema/role";
+import { and, eq, isNull, or } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+
+import type { AuthHandler } from "./context";
+
+export type EventRole = (typeof userRole.role.enumValues)[number];
+
+export const ADMIN_ROLE = "ADMIN" satisfies EventRole;
+
+/** Every role, for routes any event staff member may use. */
+export const EVENT_ROLES: readonly EventRole[] = userRole.role.enumValues;
+
+/**
+ * The user's global roles plus, when an event is given, the roles scoped to
+ * that event.
+ */
+export const listUserRoles = (
+  db: Database,
+  userId: string,
+  eventCode: string | null
+): EventRole[] =>
+  drizzle({ client: db })
+    .selectDistinct({ role: userRole.role })
+    .from(userRole)
+    .where(
+      and(
+        eq(userRole.userId, userId),
+        eventCode
+          ? or(isNull(userRole.eventCode), eq(userRole.eventCode, eventCode))
+          : isNull(userRole.eventCode)
+      )
+    )
+    .all()
+    .map((row) => row.role);
+
+/** ADMIN satisfies every requirement; otherwise any one listed role does. */
+export const hasRequiredRole = (
+  granted: readonly EventRole[],
+  required: readonly EventRole[]
+): boolean =>
+  granted.includes(ADMIN_ROLE) ||
+  required.some((role) => granted.includes(role));
+
+export const extractUserId = (value: unknown): string | null => {
+  if (!(value && typeof value === "object")) {
+    return null;
+  }
+
+  const user = (value as { user?: { id?: unknown } | null }).user;
+  if (!(user && typeof user === "object")) {
+    return null;
+  }
+
+  return typeof user.id === "string" ? user.id : null;
+};
+
+export const resolveSessionUserId = async (
+  auth: AuthHandler,
+  request: Request
+): Promise<string | null> => {
+  try {
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    return extractUserId(session);
+  } catch {
+    return null;
+  }
+};
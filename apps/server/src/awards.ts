@@ -0,0 +1,550 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  awardAssignment,
+  award as awardTable,
+  team as teamTable,
+} from "@rms-local/db/schema/event-db/fms";
+import { and, asc, eq, gt, isNotNull, or } from "drizzle-orm";
+import { Hono } from "hono";
+
+import { ADMIN_ROLE } from "./authorization";
+import type { AppContext } from "./context";
+import { readEventConfig, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { ensureFmsEventId } from "./rankings";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { findTeam, parseTeamNumber } from "./teams";
+
+/** `award.type`: judged team awards and awards given to a person. */
+const AWARD_TYPE = {
+  team: 0,
+  person: 1,
+} as const;
+
+/** The top award; a team holds at most one of its places. */
+const INSPIRE_AWARD_ID = 11;
+const PROMOTE_AWARD_ID = 3;
+const MAX_AWARD_PLACES = 3;
+const LOCKED_CONFIG_KEY = "awards.locked";
+const CEREMONY_CONFIG_KEY = "awards.ceremony";
+const CATALOGUE_AUTHOR = "RMS Local";
+
+interface CatalogueEntry {
+  awardId: number;
+  description: string;
+  displayOrder: number;
+  manual: boolean;
+  type: number;
+}
+
+/** Seeded into events that were not imported with FTC Live's catalogue. */
+const DEFAULT_AWARD_CATALOGUE: CatalogueEntry[] = [
+  { awardId: 19, description: "Volunteer Award", displayOrder: 9950 },
+  { awardId: 1, description: "Judges' Choice Award", displayOrder: 10_000 },
+  { awardId: 6, description: "Design Award", displayOrder: 10_030 },
+  { awardId: 25, description: "Reach Award", displayOrder: 10_040 },
+  { awardId: 4, description: "Control Award", displayOrder: 10_050 },
+  { awardId: 7, description: "Innovate Award", displayOrder: 10_060 },
+  { awardId: 26, description: "Sustain Award", displayOrder: 10_065 },
+  { awardId: 8, description: "Connect Award", displayOrder: 10_070 },
+  { awardId: 9, description: "Think Award", displayOrder: 10_080 },
+  { awardId: 16, description: "Fourth Place Alliance", displayOrder: 10_098 },
+  { awardId: 15, description: "Third Place Alliance", displayOrder: 10_099 },
+  { awardId: 12, description: "Finalist Alliance", displayOrder: 10_100 },
+  { awardId: 13, description: "Winning Alliance", displayOrder: 10_110 },
+  { awardId: 11, description: "Inspire Award", displayOrder: 10_120 },
+].map((entry) => ({
+  ...entry,
+  manual: !entry.description.endsWith("Alliance"),
+  type: entry.awardId === 19 ? AWARD_TYPE.person : AWARD_TYPE.team,
+}));
+
+export interface AwardWinner {
+  comment: string | null;
+  firstName: string | null;
+  isPublic: boolean;
+  lastName: string | null;
+  nameShort: string | null;
+  /** 1 for the winner, then finalists in ranked order. */
+  series: number;
+  team: number | null;
+}
+
+export interface AwardRecord {
+  awardId: number;
+  description: string;
+  fmsAwardId: string;
+  /** False for alliance awards, which come from the playoff results. */
+  manual: boolean;
+  personAward: boolean;
+  script: string;
+  winners: AwardWinner[];
+}
+
+export interface AwardCeremonyState {
+  awardId: number;
+  /** How many places are shown, counting up from the last place. */
+  revealed: number;
+}
+
+type WinnerInput =
+  | { comment: string | null; team: number }
+  | { comment: string | null; firstName: string; lastName: string };
+
+const seedAwardCatalogue = (eventDb: EventDb): void => {
+  const now = new Date().toISOString();
+  eventDb
+    .insert(awardTable)
+    .values(
+      DEFAULT_AWARD_CATALOGUE.map((entry) => ({
+        fmsAwardId: crypto.randomUUID(),
+        fmsSeasonId: "",
+        awardId: entry.awardId,
+        awardSubtypeId: 0,
+        tournamentType: 0,
+        type: entry.type,
+        cultureType: 0,
+        description: entry.description,
+        displayOrderUi: entry.displayOrder,
+        displayOrderOnline: entry.displayOrder,
+        cmpQualifying: 0,
+        allowManualEntry: entry.manual ? 1 : 0,
+        createdOn: now,
+        createdBy: CATALOGUE_AUTHOR,
+        modifiedOn: now,
+        modifiedBy: CATALOGUE_AUTHOR,
+        script: "",
+        canEdit: entry.type === AWARD_TYPE.person ? 1 : 0,
+      }))
+    )
+    .run();
+};
+
+const readAwardRows = (eventDb: EventDb) =>
+  eventDb
+    .select({
+      fmsAwardId: awardTable.fmsAwardId,
+      awardId: awardTable.awardId,
+      type: awardTable.type,
+      description: awardTable.description,
+      allowManualEntry: awardTable.allowManualEntry,
+      script: awardTable.script,
+    })
+    .from(awardTable)
+    .orderBy(asc(awardTable.displayOrderUi))
+    .all();
+
+/** Placeholder rows without a team or name are how FTC Live marks open places. */
+const readAssignmentRows = (eventDb: EventDb) =>
+  eventDb
+    .select({
+      fmsAwardId: awardAssignment.fmsAwardId,
+      series: awardAssignment.series,
+      firstName: awardAssignment.firstName,
+      lastName: awardAssignment.lastName,
+      isPublic: awardAssignment.isPublic,
+      comment: awardAssignment.comment,
+      teamNumber: teamTable.teamNumber,
+      teamNameShort: teamTable.teamNameShort,
+    })
+    .from(awardAssignment)
+    .leftJoin(teamTable, eq(teamTable.fmsTeamId, awardAssignment.fmsTeamId))
+    .where(
+      or(
+        isNotNull(awardAssignment.fmsTeamId),
+        isNotNull(awardAssignment.firstName)
+      )
+    )
+    .orderBy(asc(awardAssignment.series))
+    .all();
+
+export const listAwards = (eventDb: EventDb): AwardRecord[] => {
+  let rows = readAwardRows(eventDb);
+  if (rows.length === 0) {
+    seedAwardCatalogue(eventDb);
+    rows = readAwardRows(eventDb);
+  }
+
+  const winners = new Map<string, AwardWinner[]>();
+  for (const row of readAssignmentRows(eventDb)) {
+    winners.set(row.fmsAwardId, [
+      ...(winners.get(row.fmsAwardId) ?? []),
+      {
+        series: row.series,
+        team: row.teamNumber,
+        nameShort: row.teamNameShort,
+        firstName: row.firstName,
+        lastName: row.lastName,
+        isPublic: row.isPublic === 1,
+        comment: row.comment,
+      },
+    ]);
+  }
+
+  return rows.map((row) => ({
+    awardId: row.awardId,
+    fmsAwardId: row.fmsAwardId,
+    description: row.description,
+    script: row.script,
+    manual: row.allowManualEntry === 1,
+    personAward: row.type === AWARD_TYPE.person,
+    winners: winners.get(row.fmsAwardId) ?? [],
+  }));
+};
+
+export const readAwardsLocked = (eventDb: EventDb): boolean =>
+  readEventConfig(eventDb, LOCKED_CONFIG_KEY) === "true";
+
+const parseComment = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const parsePersonWinner = (
+  data: Record<string, unknown>
+): RequestResult<WinnerInput> => {
+  const firstName =
+    typeof data.firstName === "string" ? data.firstName.trim() : "";
+  const lastName =
+    typeof data.lastName === "string" ? data.lastName.trim() : "";
+  if (!(firstName && lastName)) {
+    return failure(400, "Each winner needs a firstName and lastName.");
+  }
+  return success({ firstName, lastName, comment: parseComment(data.comment) });
+};
+
+/** Checks the flags on `teams` that gate the Inspire and Promote awards. */
+const checkTeamEligibility = (
+  eventDb: EventDb,
+  award: AwardRecord,
+  team: number
+): RequestResult<number> => {
+  const record = findTeam(eventDb, team);
+  if (!record) {
+    return failure(404, `Team ${team} not found.`);
+  }
+  if (record.competing !== "FULL") {
+    return failure(400, `Team ${team} is not competing at this event.`);
+  }
+  if (award.awardId === INSPIRE_AWARD_ID && !record.inspireEligible) {
+    return failure(400, `Team ${team} is not eligible for the Inspire Award.`);
+  }
+  if (award.awardId === PROMOTE_AWARD_ID && !record.promoteEligible) {
+    return failure(400, `Team ${team} is not eligible for the Promote Award.`);
+  }
+  return success(team);
+};
+
+const parseTeamWinners = (
+  eventDb: EventDb,
+  award: AwardRecord,
+  values: Record<string, unknown>[]
+): RequestResult<WinnerInput[]> => {
+  const winners: WinnerInput[] = [];
+  const seen = new Set<number>();
+  for (const data of values) {
+    const team = parseTeamNumber(data.team);
+    if (!team) {
+      return failure(400, "Each winner needs a team number.");
+    }
+    if (seen.has(team)) {
+      return failure(
+        400,
+        award.awardId === INSPIRE_AWARD_ID
+          ? `Team ${team} cannot win the Inspire Award twice.`
+          : `Team ${team} is listed twice for the ${award.description}.`
+      );
+    }
+    const eligible = checkTeamEligibility(eventDb, award, team);
+    if ("failure" in eligible) {
+      return eligible;
+    }
+    seen.add(team);
+    winners.push({ team, comment: parseComment(data.comment) });
+  }
+  return success(winners);
+};
+
+const parseWinners = (
+  eventDb: EventDb,
+  award: AwardRecord,
+  payload: unknown
+): RequestResult<WinnerInput[]> => {
+  if (!award.manual) {
+    return failure(
+      400,
+      `The ${award.description} comes from the playoff results and cannot be entered by hand.`
+    );
+  }
+  const values = (payload as Record<string, unknown> | null)?.winners;
+  if (!Array.isArray(values) || values.length > MAX_AWARD_PLACES) {
+    return failure(
+      400,
+      `winners must list up to ${MAX_AWARD_PLACES} places in ranked order.`
+    );
+  }
+  const entries = values.map(
+    (value) => (value ?? {}) as Record<string, unknown>
+  );
+  if (!award.personAward) {
+    return parseTeamWinners(eventDb, award, entries);
+  }
+
+  const winners: WinnerInput[] = [];
+  for (const data of entries) {
+    const winner = parsePersonWinner(data);
+    if ("failure" in winner) {
+      return winner;
+    }
+    winners.push(winner.value);
+  }
+  return success(winners);
+};
+
+const replaceAwardWinners = (
+  eventDb: EventDb,
+  award: AwardRecord,
+  winners: WinnerInput[],
+  modifiedBy: string
+): void => {
+  const fmsEventId = ensureFmsEventId(eventDb);
+  const now = new Date().toISOString();
+
+  eventDb.transaction(() => {
+    eventDb
+      .delete(awardAssignment)
+      .where(eq(awardAssignment.fmsAwardId, award.fmsAwardId))
+      .run();
+    winners.forEach((winner, index) => {
+      const isTeam = "team" in winner;
+      eventDb
+        .insert(awardAssignment)
+        .values({
+          fmsAwardId: award.fmsAwardId,
+          fmsEventId,
+          series: index + 1,
+          fmsTeamId: isTeam
+            ? (findTeam(eventDb, winner.team)?.fmsTeamId ?? null)
+            : null,
+          firstName: isTeam ? null : winner.firstName,
+          lastName: isTeam ? null : winner.lastName,
+          isPublic: 0,
+          createdOn: now,
+          createdBy: modifiedBy,
+          modifiedOn: now,
+          modifiedBy,
+          comment: winner.comment,
+        })
+        .run();
+    });
+  });
+};
+
+export const saveAwardWinners = (
+  eventDb: EventDb,
+  awardId: number,
+  payload: unknown,
+  modifiedBy: string
+): RequestResult<AwardRecord> => {
+  if (readAwardsLocked(eventDb)) {
+    return failure(409, "Award results are locked.");
+  }
+  const award = listAwards(eventDb).find((item) => item.awardId === awardId);
+  if (!award) {
+    return failure(404, "Award not found.");
+  }
+  const winners = parseWinners(eventDb, award, payload);
+  if ("failure" in winners) {
+    return winners;
+  }
+
+  replaceAwardWinners(eventDb, award, winners.value, modifiedBy);
+  return success(
+    listAwards(eventDb).find((item) => item.awardId === awardId) ?? award
+  );
+};
+
+const readCeremonyState = (eventDb: EventDb): AwardCeremonyState | null => {
+  const value = readEventConfig(eventDb, CEREMONY_CONFIG_KEY);
+  if (!value) {
+    return null;
+  }
+  try {
+    return JSON.parse(value) as AwardCeremonyState;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The award on stage with only its revealed places. Places are revealed from
+ * the last finalist up to the winner, and nothing unrevealed leaves the
+ * server because the audience display is read without a session.
+ */
+export const readCeremonyAward = (eventDb: EventDb) => {
+  const state = readCeremonyState(eventDb);
+  const award = state
+    ? listAwards(eventDb).find((item) => item.awardId === state.awardId)
+    : null;
+  if (!(state && award)) {
+    return null;
+  }
+
+  const places = award.winners.length;
+  return {
+    awardId: award.awardId,
+    description: award.description,
+    script: award.script,
+    personAward: award.personAward,
+    places,
+    revealed: award.winners
+      .filter((winner) => winner.series > places - state.revealed)
+      .map(({ firstName, lastName, nameShort, series, team }) => ({
+        firstName,
+        lastName,
+        nameShort,
+        series,
+        team,
+      })),
+  };
+};
+
+/** Puts an award on stage; revealed places become public. */
+export const presentAward = (
+  eventDb: EventDb,
+  payload: unknown
+): RequestResult<AwardCeremonyState> => {
+  if (!readAwardsLocked(eventDb)) {
+    return failure(409, "Lock the award results before presenting them.");
+  }
+  const { awardId, revealed } = (payload ?? {}) as Record<string, unknown>;
+  const award = listAwards(eventDb).find((item) => item.awardId === awardId);
+  if (!award) {
+    return failure(404, "Award not found.");
+  }
+  if (
+    typeof revealed !== "number" ||
+    !Number.isInteger(revealed) ||
+    revealed < 0 ||
+    revealed > award.winners.length
+  ) {
+    return failure(
+      400,
+      `revealed must be 0 to ${award.winners.length} for the ${award.description}.`
+    );
+  }
+
+  eventDb
+    .update(awardAssignment)
+    .set({ isPublic: 1 })
+    .where(
+      and(
+        eq(awardAssignment.fmsAwardId, award.fmsAwardId),
+        gt(awardAssignment.series, award.winners.length - revealed)
+      )
+    )
+    .run();
+  const state = { awardId: award.awardId, revealed };
+  writeEventConfig(eventDb, CEREMONY_CONFIG_KEY, JSON.stringify(state));
+  return success(state);
+};
+
+export const createAwardRoutes = ({ auth, db, eventDatabases }: AppContext) => {
+  const routes = new Hono();
+
+  routes.get("/:code/awards", requireEventRoles(auth, db, ["JUDGE"]), (c) => {
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      c.get("eventAccess").event.eventCode,
+      (eventDb) =>
+        success({
+          awards: listAwards(eventDb),
+          locked: readAwardsLocked(eventDb),
+          ceremony: readCeremonyState(eventDb),
+        })
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json(result.value);
+  });
+
+  routes.put(
+    "/:code/awards",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const payload = await c.req.json().catch(() => null);
+      const locked = (payload as Record<string, unknown> | null)?.locked;
+      if (typeof locked !== "boolean") {
+        return c.json({ error: "locked must be true or false." }, 400);
+      }
+
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          writeEventConfig(eventDb, LOCKED_CONFIG_KEY, String(locked));
+          return success(locked);
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: locked ? "AWARDS_LOCKED" : "AWARDS_UNLOCKED",
+        eventCode: event.eventCode,
+        info: "",
+        extra: { userId },
+      });
+
+      return c.json({ locked });
+    }
+  );
+
+  routes.put(
+    "/:code/awards/:awardId",
+    requireEventRoles(auth, db, ["JUDGE"]),
+    async (c) => {
+      const awardId = Number(c.req.param("awardId"));
+      if (!Number.isInteger(awardId)) {
+        return c.json({ error: "Invalid award." }, 400);
+      }
+
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => saveAwardWinners(eventDb, awardId, payload, userId)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "AWARD_ASSIGNED",
+        eventCode: event.eventCode,
+        info: String(awardId),
+        extra: {
+          winners: result.value.winners.map(
+            (winner) =>
+              winner.team ??
+              `${winner.firstName ?? ""} ${winner.lastName ?? ""}`
+          ),
+          userId,
+        },
+      });
+
+      return c.json(result.value);
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,14 @@
+import type { Database } from "bun:sqlite";
+import type { auth as authInstance } from "@rms-local/auth";
+
+import type { EventChannel } from "./event-channel";
+import type { EventDatabaseManager } from "./event-database";
+
+export type AuthHandler = typeof authInstance;
+
+export interface AppContext {
+  auth: AuthHandler;
+  channel: EventChannel;
+  db: Database;
+  eventDatabases: EventDatabaseManager;
+}
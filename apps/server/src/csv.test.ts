@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test";
+
+import { formatCsv, parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  test("keys each row by header and numbers it by its line", () => {
+    expect(
+      parseCsv("Team,Name\n\n1234, Robo Rangers \r\n5678,Gearheads\n")
+    ).toEqual([
+      { line: 3, values: { Team: "1234", Name: "Robo Rangers" } },
+      { line: 4, values: { Team: "5678", Name: "Gearheads" } },
+    ]);
+  });
+
+  test("reads commas and doubled quotes inside quoted cells", () => {
+    const [row] = parseCsv(
+      'Team,Name,School\n1234,"Bots, Inc.","The ""Tech"" Academy"'
+    );
+
+    expect(row?.values).toEqual({
+      Team: "1234",
+      Name: "Bots, Inc.",
+      School: 'The "Tech" Academy',
+    });
+  });
+
+  test("drops a leading byte order mark from the header", () => {
+    const [row] = parseCsv('\uFEFF"Team",Name\n1234,Robo Rangers');
+
+    expect(Object.keys(row?.values ?? {})).toEqual(["Team", "Name"]);
+  });
+
+  test("fills short rows with empty cells and ignores extra ones", () => {
+    expect(parseCsv("Team,Name,City\n1234\n5678,Gearheads,Austin,TX")).toEqual([
+      { line: 2, values: { Team: "1234", Name: "", City: "" } },
+      {
+        line: 3,
+        values: { Team: "5678", Name: "Gearheads", City: "Austin" },
+      },
+    ]);
+  });
+
+  test("returns no rows for a blank document", () => {
+    expect(parseCsv("\n  \n")).toEqual([]);
+  });
+
+  test("reads back what formatCsv writes", () => {
+    const csv = formatCsv(
+      ["Team", "Name"],
+      [
+        [1234, 'Bots, "Inc."'],
+        [5678, "Gearheads"],
+      ]
+    );
+
+    expect(parseCsv(csv).map((row) => row.values)).toEqual([
+      { Team: "1234", Name: 'Bots, "Inc."' },
+      { Team: "5678", Name: "Gearheads" },
+    ]);
+  });
+});
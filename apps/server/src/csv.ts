@@ -0,0 +1,93 @@
+const QUOTE = '"';
+const LINE_BREAK_PATTERN = /\r?\n/;
+/** Spreadsheet programs often start a UTF-8 export with a byte order mark. */
+const BYTE_ORDER_MARK_PATTERN = /^\uFEFF/;
+
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < line.length; index += 1) {
+    const character = line[index];
+    if (inQuotes) {
+      if (character === QUOTE && line[index + 1] === QUOTE) {
+        current += QUOTE;
+        index += 1;
+      } else if (character === QUOTE) {
+        inQuotes = false;
+      } else {
+        current += character;
+      }
+      continue;
+    }
+
+    if (character === QUOTE) {
+      inQuotes = true;
+    } else if (character === ",") {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += character;
+    }
+  }
+
+  cells.push(current.trim());
+  return cells;
+};
+
+export interface CsvRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+/**
+ * Parses a header-first CSV document into rows keyed by header name.
+ * Quoted cells may contain commas and doubled quotes but not line breaks.
+ */
+export const parseCsv = (content: string): CsvRow[] => {
+  const lines = content
+    .replace(BYTE_ORDER_MARK_PATTERN, "")
+    .split(LINE_BREAK_PATTERN);
+  const headerIndex = lines.findIndex((line) => line.trim().length > 0);
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const headers = parseCsvLine(lines[headerIndex] ?? "");
+  const rows: CsvRow[] = [];
+  for (let index = headerIndex + 1; index < lines.length; index += 1) {
+    const line = lines[index] ?? "";
+    if (line.trim().length === 0) {
+      continue;
+    }
+
+    const cells = parseCsvLine(line);
+    const values: Record<string, string> = {};
+    for (const [column, header] of headers.entries()) {
+      values[header] = cells[column] ?? "";
+    }
+    rows.push({ line: index + 1, values });
+  }
+
+  return rows;
+};
+
+const CSV_QUOTE_PATTERN = /[",\r\n]/;
+
+const formatCsvCell = (value: string | number): string => {
+  const text = String(value);
+  return CSV_QUOTE_PATTERN.test(text)
+    ? `${QUOTE}${text.replaceAll(QUOTE, QUOTE + QUOTE)}${QUOTE}`
+    : text;
+};
+
+/** Writes a header row followed by one line per row. */
+export const formatCsv = (
+  headers: string[],
+  rows: (string | number)[][]
+): string =>
+  [headers, ...rows]
+    .map((row) => row.map(formatCsvCell).join(","))
+    .join("\n")
+    .concat("\n");
@@ -0,0 +1,448 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { sponsors } from "@rms-local/db/schema/event-db/event-state";
+import type { MatchScore } from "@rms-local/scoring";
+import { asc } from "drizzle-orm";
+import { Hono } from "hono";
+
+import { readSelectionSummary } from "./alliance-selection";
+import { presentAward, readCeremonyAward } from "./awards";
+import type { AppContext } from "./context";
+import type { MatchLevel } from "./event-channel";
+import { readEventConfig, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, resolveEvent } from "./events";
+import {
+  estimateRemainingMatches,
+  listScheduleBlocks,
+  listScheduleMatches,
+  PRACTICE_SCHEDULE,
+  QUALIFICATION_SCHEDULE,
+} from "./match-schedule";
+import {
+  ELIMS_SCORE_LEVEL,
+  QUALS_SCORE_LEVEL,
+  readMatchScore,
+} from "./match-scores";
+import { readBracket } from "./playoff-bracket";
+import { listRankings } from "./rankings";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { listTeams } from "./teams";
+
+export const AUDIENCE_SCREENS = [
+  "blank",
+  "match-preview",
+  "match-score",
+  "match-results",
+  "rankings",
+  "alliance-selection",
+  "sponsors",
+  "awards",
+] as const;
+
+export type AudienceScreen = (typeof AUDIENCE_SCREENS)[number];
+
+/** Screens that show one match and so need a level and number. */
+const MATCH_SCREENS = new Set<AudienceScreen>([
+  "match-preview",
+  "match-score",
+  "match-results",
+]);
+
+const MATCH_LEVELS = new Set<MatchLevel>(["elims", "practice", "quals"]);
+
+const AUDIENCE_CONFIG_KEY = "display.audience";
+
+export interface AudienceDisplayState {
+  level: MatchLevel | null;
+  match: number | null;
+  screen: AudienceScreen;
+}
+
+const DEFAULT_AUDIENCE_STATE: AudienceDisplayState = {
+  level: null,
+  match: null,
+  screen: "blank",
+};
+
+export interface DisplayTeam {
+  nameShort: string;
+  number: number;
+  surrogate: boolean;
+}
+
+export interface DisplayAlliance {
+  /** Playoff alliance rank, or null in practice and qualification matches. */
+  alliance: number | null;
+  teams: DisplayTeam[];
+}
+
+export interface DisplayMatch {
+  blue: DisplayAlliance;
+  label: string;
+  level: MatchLevel;
+  match: number;
+  red: DisplayAlliance;
+  /** Committed score, or null until the scorekeeper commits the match. */
+  score: MatchScore | null;
+}
+
+export interface DisplaySponsor {
+  level: number;
+  logo: string;
+  name: string;
+  title: string;
+}
+
+const parseAudienceState = (value: unknown): AudienceDisplayState | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { level, match, screen } = value as Record<string, unknown>;
+  if (!AUDIENCE_SCREENS.includes(screen as AudienceScreen)) {
+    return null;
+  }
+  if (!MATCH_SCREENS.has(screen as AudienceScreen)) {
+    return { level: null, match: null, screen: screen as AudienceScreen };
+  }
+  if (
+    !(
+      MATCH_LEVELS.has(level as MatchLevel) &&
+      Number.isInteger(match) &&
+      (match as number) > 0
+    )
+  ) {
+    return null;
+  }
+  return {
+    level: level as MatchLevel,
+    match: match as number,
+    screen: screen as AudienceScreen,
+  };
+};
+
+export const readAudienceState = (eventDb: EventDb): AudienceDisplayState => {
+  const value = readEventConfig(eventDb, AUDIENCE_CONFIG_KEY);
+  if (!value) {
+    return DEFAULT_AUDIENCE_STATE;
+  }
+  try {
+    return parseAudienceState(JSON.parse(value)) ?? DEFAULT_AUDIENCE_STATE;
+  } catch {
+    return DEFAULT_AUDIENCE_STATE;
+  }
+};
+
+const readTeamNames = (eventDb: EventDb): Map<number, string> =>
+  new Map(listTeams(eventDb).map((team) => [team.number, team.nameShort]));
+
+const readScheduledMatch = (
+  eventDb: EventDb,
+  level: "practice" | "quals",
+  matchNumber: number,
+  names: Map<number, string>
+): DisplayMatch | null => {
+  const match = listScheduleMatches(
+    eventDb,
+    level === "quals" ? QUALIFICATION_SCHEDULE : PRACTICE_SCHEDULE
+  ).find((item) => item.match === matchNumber);
+  if (!match) {
+    return null;
+  }
+
+  const toAlliance = (slots: typeof match.red): DisplayAlliance => ({
+    alliance: null,
+    teams: slots.map((slot) => ({
+      nameShort: names.get(slot.team) ?? "",
+      number: slot.team,
+      surrogate: slot.surrogate,
+    })),
+  });
+
+  const score =
+    level === "quals"
+      ? readMatchScore(eventDb, QUALS_SCORE_LEVEL, matchNumber)
+      : null;
+  return {
+    blue: toAlliance(match.blue),
+    label: match.label,
+    level,
+    match: matchNumber,
+    red: toAlliance(match.red),
+    score:
+      score && "value" in score && score.value.committed
+        ? score.value.score
+        : null,
+  };
+};
+
+const readPlayoffMatch = (
+  eventDb: EventDb,
+  matchNumber: number,
+  names: Map<number, string>
+): DisplayMatch | null => {
+  const bracket = readBracket(eventDb);
+  const node = bracket.nodes.find((item) =>
+    item.matches.some((match) => match.match === matchNumber)
+  );
+  const match = node?.matches.find((item) => item.match === matchNumber);
+  if (!(node && match)) {
+    return null;
+  }
+
+  const toAlliance = (rank: number): DisplayAlliance => ({
+    alliance: rank,
+    teams: (
+      bracket.alliances.find((alliance) => alliance.rank === rank)?.teams ?? []
+    ).map((team) => ({
+      nameShort: names.get(team) ?? "",
+      number: team,
+      surrogate: false,
+    })),
+  });
+
+  const score = readMatchScore(eventDb, ELIMS_SCORE_LEVEL, matchNumber);
+  return {
+    blue: toAlliance(match.blue),
+    label: node.label,
+    level: "elims",
+    match: matchNumber,
+    red: toAlliance(match.red),
+    score: "value" in score && score.value.committed ? score.value.score : null,
+  };
+};
+
+export const readDisplayMatch = (
+  eventDb: EventDb,
+  level: MatchLevel,
+  matchNumber: number
+): DisplayMatch | null => {
+  const names = readTeamNames(eventDb);
+  return level === "elims"
+    ? readPlayoffMatch(eventDb, matchNumber, names)
+    : readScheduledMatch(eventDb, level, matchNumber, names);
+};
+
+const listSponsors = (eventDb: EventDb): DisplaySponsor[] =>
+  eventDb
+    .select({
+      name: sponsors.name,
+      title: sponsors.title,
+      logo: sponsors.logo,
+      level: sponsors.level,
+    })
+    .from(sponsors)
+    .orderBy(asc(sponsors.position), asc(sponsors.name))
+    .all();
+
+const readAllianceBoard = (eventDb: EventDb) => {
+  const names = readTeamNames(eventDb);
+  const summary = readSelectionSummary(eventDb);
+  return {
+    alliances: summary.alliances.map((teams, index) => ({
+      alliance: index + 1,
+      teams: teams.map((team) => ({
+        nameShort: names.get(team) ?? "",
+        number: team,
+        surrogate: false,
+      })),
+    })),
+    allianceSize: summary.allianceSize,
+    complete: summary.complete,
+    picking: summary.picking,
+  };
+};
+
+/**
+ * Everything the audience display needs for its current screen. Only the
+ * data for that screen is read, so switching to the sponsor slideshow does
+ * not pull rankings and match results along with it.
+ */
+const readAudienceDisplay = (eventDb: EventDb) => {
+  const state = readAudienceState(eventDb);
+  const { level, match, screen } = state;
+  return {
+    state,
+    match:
+      level !== null && match !== null
+        ? readDisplayMatch(eventDb, level, match)
+        : null,
+    rankings: screen === "rankings" ? listRankings(eventDb) : null,
+    allianceBoard:
+      screen === "alliance-selection" ? readAllianceBoard(eventDb) : null,
+    sponsors: screen === "sponsors" ? listSponsors(eventDb) : null,
+    award: screen === "awards" ? readCeremonyAward(eventDb) : null,
+  };
+};
+
+/**
+ * Standings and the rest of the schedule for the pit display. Qualification
+ * matches take over from practice once a qualification schedule exists.
+ */
+const readPitDisplay = (eventDb: EventDb, now: number) => {
+  const qualsMatches = listScheduleMatches(eventDb, QUALIFICATION_SCHEDULE);
+  const level: MatchLevel = qualsMatches.length > 0 ? "quals" : "practice";
+  const kind = level === "quals" ? QUALIFICATION_SCHEDULE : PRACTICE_SCHEDULE;
+  const matches =
+    level === "quals" ? qualsMatches : listScheduleMatches(eventDb, kind);
+  const { offset, remaining } = estimateRemainingMatches(
+    matches,
+    listScheduleBlocks(eventDb, kind),
+    now
+  );
+
+  return {
+    rankings: listRankings(eventDb),
+    schedule: {
+      level,
+      offset,
+      remaining: remaining.map((match) => ({
+        blue: match.blue,
+        estimatedStart: match.estimatedStart,
+        label: match.label,
+        match: match.match,
+        red: match.red,
+        scheduleStart: match.scheduleStart,
+      })),
+    },
+  };
+};
+
+const switchAudienceScreen = (
+  eventDb: EventDb,
+  payload: unknown
+): RequestResult<AudienceDisplayState> => {
+  const state = parseAudienceState(payload);
+  if (!state) {
+    return failure(
+      400,
+      "Choose a display screen; match screens also need a level and match number."
+    );
+  }
+  if (
+    state.level !== null &&
+    state.match !== null &&
+    !readDisplayMatch(eventDb, state.level, state.match)
+  ) {
+    return failure(404, "Match not found.");
+  }
+
+  writeEventConfig(eventDb, AUDIENCE_CONFIG_KEY, JSON.stringify(state));
+  return success(state);
+};
+
+/** Shows the awards screen with the presenter's award and reveal count. */
+const presentCeremonyAward = (
+  eventDb: EventDb,
+  payload: unknown
+): RequestResult<AudienceDisplayState> => {
+  const presented = presentAward(eventDb, payload);
+  if ("failure" in presented) {
+    return presented;
+  }
+  return switchAudienceScreen(eventDb, { screen: "awards" });
+};
+
+/**
+ * Display data is read without a session so the audience and pit screens can
+ * run on venue PCs that nobody signs in to. Only the scorekeeper switches
+ * audience screens.
+ */
+export const createDisplayRoutes = ({
+  auth,
+  channel,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get("/:code/display/audience", (c) => {
+    const event = resolveEvent(db, c.req.param("code"));
+    if ("failure" in event) {
+      return failureResponse(c, event.failure);
+    }
+
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.value.eventCode,
+      (eventDb) => success(readAudienceDisplay(eventDb))
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json({ eventName: event.value.name, ...result.value });
+  });
+
+  routes.get("/:code/display/pit", (c) => {
+    const event = resolveEvent(db, c.req.param("code"));
+    if ("failure" in event) {
+      return failureResponse(c, event.failure);
+    }
+
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.value.eventCode,
+      (eventDb) => success(readPitDisplay(eventDb, Date.now()))
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json({ eventName: event.value.name, ...result.value });
+  });
+
+  routes.put(
+    "/:code/display/audience",
+    requireEventRoles(auth, db, ["TSO"]),
+    async (c) => {
+      const payload = await c.req.json().catch(() => null);
+      const { eventCode } = c.get("eventAccess").event;
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        eventCode,
+        (eventDb) => switchAudienceScreen(eventDb, payload)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      channel.publish(eventCode, {
+        type: "DISPLAY_CHANGED",
+        display: "audience",
+        state: result.value,
+      });
+      return c.json(result.value);
+    }
+  );
+
+  routes.put(
+    "/:code/display/audience/awards",
+    requireEventRoles(auth, db, ["TSO"]),
+    async (c) => {
+      const payload = await c.req.json().catch(() => null);
+      const { eventCode } = c.get("eventAccess").event;
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        eventCode,
+        (eventDb) => presentCeremonyAward(eventDb, payload)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      channel.publish(eventCode, {
+        type: "DISPLAY_CHANGED",
+        display: "audience",
+        state: result.value,
+      });
+      return c.json(result.value);
+    }
+  );
+
+  return routes;
+};
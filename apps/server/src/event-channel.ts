@@ -0,0 +1,149 @@
+import type { AllianceScoreBreakdown } from "@rms-local/scoring";
+import { Hono } from "hono";
+import { upgradeWebSocket } from "hono/bun";
+
+import type { AppContext } from "./context";
+import type { AudienceDisplayState } from "./displays";
+import { normalizeEventCode, resolveEvent } from "./events";
+import type { FieldSnapshot } from "./match-control";
+import { failureResponse } from "./request-result";
+
+export type MatchLevel = "elims" | "practice" | "quals";
+
+export type EventMessage =
+  | {
+      type: "MATCH_LOADED" | "MATCH_ABORTED";
+      field: number;
+      level: MatchLevel;
+      match: number;
+    }
+  | {
+      type: "MATCH_STARTED";
+      field: number;
+      level: MatchLevel;
+      match: number;
+      startedAt: number;
+    }
+  | { type: "MATCH_PHASE_CHANGED"; field: number; snapshot: FieldSnapshot }
+  /**
+   * A referee's sheets wait for the head referee, and the channel needs no
+   * session, so only the match is named; the score is read from its route.
+   */
+  | { type: "SCORE_SUBMITTED"; level: MatchLevel; match: number }
+  | {
+      type: "SCORE_UPDATED" | "SCORE_COMMITTED";
+      level: MatchLevel;
+      match: number;
+      red: AllianceScoreBreakdown;
+      blue: AllianceScoreBreakdown;
+    }
+  | { type: "RANKINGS_CHANGED" }
+  /** Sent once the event has stopped running; its fields are released. */
+  | { type: "EVENT_ARCHIVED" | "EVENT_DELETED" }
+  | {
+      type: "ALLIANCE_SELECTION_STEP";
+      step: string;
+      alliances: number[][];
+      picking: number | null;
+      complete: boolean;
+    }
+  | {
+      type: "DISPLAY_CHANGED";
+      display: "audience";
+      state: AudienceDisplayState;
+    };
+
+/** What subscribers receive: the message stamped with its event and time. */
+export type EventEnvelope = EventMessage & {
+  eventCode: string;
+  sentAt: number;
+};
+
+type EventListener = (envelope: EventEnvelope) => void;
+
+export interface EventChannel {
+  /**
+   * Delivers to every listener even when one throws, and returns how many
+   * threw so the caller can decide whether that matters.
+   */
+  publish: (eventCode: string, message: EventMessage) => number;
+  /** Returns the function that removes the listener again. */
+  subscribe: (eventCode: string, listener: EventListener) => () => void;
+}
+
+/**
+ * In-process fan-out of event messages. Every connected display, tablet and
+ * console subscribes to exactly one event code.
+ */
+export const createEventChannel = (): EventChannel => {
+  const listeners = new Map<string, Set<EventListener>>();
+
+  return {
+    publish: (eventCode, message) => {
+      const envelope: EventEnvelope = {
+        ...message,
+        eventCode,
+        sentAt: Date.now(),
+      };
+      let failures = 0;
+      for (const listener of listeners.get(eventCode) ?? []) {
+        try {
+          listener(envelope);
+        } catch {
+          failures += 1;
+        }
+      }
+      return failures;
+    },
+    subscribe: (eventCode, listener) => {
+      const eventListeners = listeners.get(eventCode) ?? new Set();
+      eventListeners.add(listener);
+      listeners.set(eventCode, eventListeners);
+
+      return () => {
+        eventListeners.delete(listener);
+        if (eventListeners.size === 0) {
+          listeners.delete(eventCode);
+        }
+      };
+    },
+  };
+};
+
+/**
+ * `GET /:code/live` upgrades to a read-only WebSocket. It needs no session so
+ * audience and pit displays can connect without signing in; nothing sent by
+ * the client is acted on.
+ */
+export const createEventChannelRoutes = ({ channel, db }: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/live",
+    async (c, next) => {
+      const event = resolveEvent(db, c.req.param("code"));
+      if ("failure" in event) {
+        return failureResponse(c, event.failure);
+      }
+      await next();
+    },
+    upgradeWebSocket((c) => {
+      const eventCode = normalizeEventCode(c.req.param("code")) ?? "";
+      let unsubscribe: (() => void) | null = null;
+
+      return {
+        onOpen: (_event, ws) => {
+          unsubscribe = channel.subscribe(eventCode, (envelope) => {
+            ws.send(JSON.stringify(envelope));
+          });
+        },
+        onClose: () => {
+          unsubscribe?.();
+          unsubscribe = null;
+        },
+      };
+    })
+  );
+
+  return routes;
+};
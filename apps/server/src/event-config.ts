@@ -0,0 +1,30 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { eventConfig } from "@rms-local/db/schema/event-db/event-state";
+import { eq } from "drizzle-orm";
+
+export const readEventConfig = (eventDb: EventDb, key: string): string | null =>
+  eventDb
+    .select({ value: eventConfig.value })
+    .from(eventConfig)
+    .where(eq(eventConfig.key, key))
+    .get()?.value ?? null;
+
+export const readEventConfigInteger = (
+  eventDb: EventDb,
+  key: string
+): number | null => {
+  const value = Number.parseInt(readEventConfig(eventDb, key) ?? "", 10);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const writeEventConfig = (
+  eventDb: EventDb,
+  key: string,
+  value: string
+): void => {
+  eventDb
+    .insert(eventConfig)
+    .values({ key, value })
+    .onConflictDoUpdate({ target: eventConfig.key, set: { value } })
+    .run();
+};
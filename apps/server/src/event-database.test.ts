@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+
+const EVENT_CODE = "1234";
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "event-database-"));
+  eventDatabases = createEventDatabaseManager(directory);
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("createEventDatabaseManager", () => {
+  test("reuses one WAL connection per event", () => {
+    eventDatabases.create(EVENT_CODE);
+
+    const first = eventDatabases.use(EVENT_CODE, (eventDb) => eventDb);
+    const second = eventDatabases.use(EVENT_CODE, (eventDb) => eventDb);
+
+    expect(second).toBe(first);
+    expect(first.$client.query("PRAGMA journal_mode").get()).toEqual({
+      journal_mode: "wal",
+    });
+  });
+
+  test("refuses an event without a database", () => {
+    expect(() => eventDatabases.use(EVENT_CODE, () => true)).toThrow(
+      "Event database does not exist."
+    );
+  });
+
+  test("removes the database and its WAL files", () => {
+    const eventDbPath = eventDatabases.create(EVENT_CODE);
+
+    eventDatabases.remove(EVENT_CODE);
+
+    for (const suffix of ["", "-wal", "-shm"]) {
+      expect(existsSync(`${eventDbPath}${suffix}`)).toBe(false);
+    }
+  });
+
+  test("refuses to open databases once closed", () => {
+    eventDatabases.create(EVENT_CODE);
+
+    eventDatabases.close();
+
+    expect(() => eventDatabases.use(EVENT_CODE, () => true)).toThrow(
+      "Event databases are closed."
+    );
+    expect(() => eventDatabases.create("5678")).toThrow(
+      "Event databases are closed."
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { Database } from "bun:sqlite";
+import { existsSync, mkdirSync, unlinkSync } from "node:fs";
+import path from "node:path";
+import { createSchemaSql } from "@rms-local/db/ddl";
+import { type EventDb, openEventDb } from "@rms-local/db/event-db";
+import { eventDbSchema } from "@rms-local/db/schema/event-db/index";
+
+import {
+  failure,
+  type RequestResult,
+  resolveErrorMessage,
+} from "./request-result";
+import {
+  type MigrationPlan,
+  markSchemaCurrent,
+  migrateDatabase,
+} from "./schema-migrations";
+
+const EVENT_SCHEMA_SQL = createSchemaSql(eventDbSchema);
+
+/**
+ * Numbered after FTC Live's own patches 01 and 02, so its `2026_2` files only
+ * take the patches after them. Databases created before versioning start at
+ * `2026_0` and take every patch; each one tolerates tables that already exist.
+ */
+export const EVENT_MIGRATIONS: MigrationPlan = {
+  versionPrefix: "2026",
+  baselineVersion: 0,
+  patches: [
+    {
+      id: "01_createAdvancementTable",
+      version: 1,
+      statements: [
+        "CREATE TABLE IF NOT EXISTS advancement_points (team INTEGER NOT NULL, sort_tuple TEXT NOT NULL, private_points INTEGER NOT NULL)",
+      ],
+    },
+    {
+      id: "02_createRandomizationTables",
+      version: 2,
+      statements: ["practice", "quals", "elims"].map(
+        (level) =>
+          `CREATE TABLE IF NOT EXISTS ${level}_randomization_history (match INTEGER NOT NULL, ts INTEGER NOT NULL, random INTEGER NOT NULL, external INTEGER NOT NULL)`
+      ),
+    },
+    {
+      id: "03_createFormAnswerTables",
+      version: 3,
+      statements: [
+        "CREATE TABLE IF NOT EXISTS form_answers (form_id TEXT NOT NULL, team INTEGER NOT NULL, row INTEGER NOT NULL, item_index INTEGER NOT NULL, value TEXT NOT NULL, PRIMARY KEY (form_id, team, row, item_index))",
+        "CREATE TABLE IF NOT EXISTS form_notes (form_id TEXT NOT NULL, team INTEGER NOT NULL, form_version INTEGER NOT NULL, notes TEXT NOT NULL, modified_at INTEGER NOT NULL, modified_by TEXT NOT NULL, PRIMARY KEY (form_id, team))",
+      ],
+    },
+  ],
+};
+
+export const ensureDatabasePath = (dbPath: string): void => {
+  const directoryPath = path.dirname(path.resolve(dbPath));
+  mkdirSync(directoryPath, { recursive: true });
+};
+
+export const resolveEventDatabasePath = (
+  directory: string,
+  eventCode: string
+): string => path.join(directory, `${eventCode}.db`);
+
+/** WAL keeps displays reading while scoring writes. */
+const EVENT_DATABASE_PRAGMAS = ["journal_mode = WAL", "busy_timeout = 5000"];
+
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PooledEventDatabase {
+  eventDb: EventDb;
+  lastUsedAt: number;
+}
+
+/**
+ * One long-lived connection per event. Connections open on first use, are
+ * migrated once, and close after sitting idle. Each is held as the typed
+ * Drizzle instance; `$client` is the raw connection underneath.
+ */
+export interface EventDatabaseManager {
+  /** Closes every connection; `create` and `use` throw afterwards. */
+  close: () => void;
+  /** Creates `<eventCode>.db` with the current schema and returns its path. */
+  create: (eventCode: string) => string;
+  directory: string;
+  /** Closes the event's connection and deletes its files; returns the path. */
+  remove: (eventCode: string) => string;
+  use: <TValue>(
+    eventCode: string,
+    task: (eventDb: EventDb) => TValue
+  ) => TValue;
+}
+
+const configureEventDatabase = (eventDb: EventDb): EventDb => {
+  for (const pragma of EVENT_DATABASE_PRAGMAS) {
+    eventDb.$client.exec(`PRAGMA ${pragma}`);
+  }
+  return eventDb;
+};
+
+const removeFile = (filePath: string): void => {
+  if (existsSync(filePath)) {
+    unlinkSync(filePath);
+  }
+};
+
+export const createEventDatabaseManager = (
+  directory: string,
+  idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS
+): EventDatabaseManager => {
+  const connections = new Map<string, PooledEventDatabase>();
+  let closed = false;
+
+  const ensureOpen = (): void => {
+    if (closed) {
+      throw new Error("Event databases are closed.");
+    }
+  };
+
+  /**
+   * Statements bun:sqlite caches for `transaction()` keep the WAL open past
+   * `close()`, so fold it into the database file first.
+   */
+  const release = (eventCode: string): void => {
+    const connection = connections.get(eventCode);
+    connections.delete(eventCode);
+    connection?.eventDb.$client.exec("PRAGMA wal_checkpoint(TRUNCATE)");
+    connection?.eventDb.$client.close();
+  };
+
+  const closeIdle = (): void => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [eventCode, connection] of connections) {
+      if (connection.lastUsedAt < cutoff) {
+        release(eventCode);
+      }
+    }
+  };
+  // Tasks run synchronously, so the sweep never lands mid-task.
+  const sweep = setInterval(closeIdle, Math.max(1000, idleTimeoutMs / 2));
+  sweep.unref();
+
+  const acquire = (eventCode: string): EventDb => {
+    ensureOpen();
+    const cached = connections.get(eventCode);
+    if (cached) {
+      cached.lastUsedAt = Date.now();
+      return cached.eventDb;
+    }
+
+    if (!existsSync(resolveEventDatabasePath(directory, eventCode))) {
+      throw new Error("Event database does not exist.");
+    }
+    const eventDb = configureEventDatabase(openEventDb(eventCode, directory));
+    try {
+      migrateDatabase(eventDb.$client, EVENT_MIGRATIONS);
+    } catch (error) {
+      eventDb.$client.close();
+      throw error;
+    }
+    connections.set(eventCode, { eventDb, lastUsedAt: Date.now() });
+    return eventDb;
+  };
+
+  return {
+    directory,
+    create: (eventCode) => {
+      ensureOpen();
+      const eventDbPath = resolveEventDatabasePath(directory, eventCode);
+      if (existsSync(eventDbPath)) {
+        throw new Error("Event database already exists.");
+      }
+
+      ensureDatabasePath(eventDbPath);
+      const schemaDb = new Database(eventDbPath, { create: true });
+      try {
+        schemaDb.exec(EVENT_SCHEMA_SQL);
+        markSchemaCurrent(schemaDb, EVENT_MIGRATIONS);
+      } finally {
+        schemaDb.close();
+      }
+      acquire(eventCode);
+      return eventDbPath;
+    },
+    remove: (eventCode) => {
+      const eventDbPath = resolveEventDatabasePath(directory, eventCode);
+      release(eventCode);
+      for (const suffix of ["", "-wal", "-shm"]) {
+        removeFile(`${eventDbPath}${suffix}`);
+      }
+      return eventDbPath;
+    },
+    use: (eventCode, task) => task(acquire(eventCode)),
+    close: () => {
+      closed = true;
+      clearInterval(sweep);
+      for (const eventCode of [...connections.keys()]) {
+        release(eventCode);
+      }
+    },
+  };
+};
+
+export const withEventDatabase = <TValue>(
+  eventDatabases: EventDatabaseManager,
+  eventCode: string,
+  task: (eventDb: EventDb) => TValue
+): TValue => eventDatabases.use(eventCode, task);
+
+export const runEventDatabaseTask = <TValue>(
+  eventDatabases: EventDatabaseManager,
+  eventCode: string,
+  task: (eventDb: EventDb) => RequestResult<TValue>
+): RequestResult<TValue> => {
+  try {
+    return withEventDatabase(eventDatabases, eventCode, task);
+  } catch (error) {
+    return failure(
+      500,
+      "Failed to access event database.",
+      resolveErrorMessage(error)
+    );
+  }
+};
@@ -0,0 +1,104 @@
+import { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+import { file } from "bun";
+
+import {
+  createEventDatabaseManager,
+  EVENT_MIGRATIONS,
+  type EventDatabaseManager,
+} from "./event-database";
+import {
+  exportEventDump,
+  snapshotEventDatabase,
+  streamSnapshot,
+} from "./event-export";
+import { importEventDump } from "./event-import";
+import { DB_VERSION_CONFIG_KEY } from "./schema-migrations";
+
+/** FTC Live export of a `2026_2` database, GUIDs and blobs as byte maps. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+const SQLITE_HEADER = "SQLite format 3\0";
+
+/** Arrays the new database writes for itself rather than copying. */
+const SCHEMA_KEYS = new Set(["config", "_patches"]);
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+let fixture: Record<string, unknown[]>;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+const withoutVersion = (rows: unknown[] = []) =>
+  rows.filter((row) => (row as { key: string }).key !== DB_VERSION_CONFIG_KEY);
+
+beforeEach(async () => {
+  directory = mkdtempSync(path.join(tmpdir(), "event-export-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+  fixture = await file(FIXTURE_PATH).json();
+  useEventDb((eventDb) => importEventDump(eventDb.$client, fixture));
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("exportEventDump", () => {
+  test("gives back every imported array unchanged", () => {
+    const dump = useEventDb((eventDb) => exportEventDump(eventDb.$client));
+
+    for (const [key, rows] of Object.entries(fixture)) {
+      if (!SCHEMA_KEYS.has(key)) {
+        expect({ key, rows: dump[key] }).toEqual({ key, rows });
+      }
+    }
+    expect(withoutVersion(dump.config)).toEqual(withoutVersion(fixture.config));
+  });
+
+  test("writes GUIDs back as byte maps", () => {
+    const dump = useEventDb((eventDb) => exportEventDump(eventDb.$client));
+    const [exported] = dump.Match as { FMSMatchId: unknown }[];
+    const [imported] = fixture.Match as { FMSMatchId: unknown }[];
+
+    expect(exported?.FMSMatchId).toEqual(imported?.FMSMatchId);
+    expect(Object.keys(exported?.FMSMatchId as object)).toHaveLength(16);
+  });
+
+  test("includes the database's patches", () => {
+    const dump = useEventDb((eventDb) => exportEventDump(eventDb.$client));
+
+    expect(
+      (dump._patches as { patchId: string }[]).map((row) => row.patchId)
+    ).toEqual(EVENT_MIGRATIONS.patches.map((patch) => patch.id));
+  });
+});
+
+describe("snapshotEventDatabase", () => {
+  test("streams a readable copy of the database and then deletes it", async () => {
+    const snapshotPath = useEventDb((eventDb) =>
+      snapshotEventDatabase(eventDb.$client, EVENT_CODE)
+    );
+    const bytes = new Uint8Array(
+      await new Response(streamSnapshot(snapshotPath)).arrayBuffer()
+    );
+
+    expect(new TextDecoder().decode(bytes.subarray(0, 16))).toBe(SQLITE_HEADER);
+    expect(existsSync(path.dirname(snapshotPath))).toBe(false);
+
+    const copy = Database.deserialize(bytes);
+    try {
+      expect(copy.query("SELECT COUNT(*) AS teams FROM teams").get()).toEqual({
+        teams: fixture.teams?.length,
+      });
+    } finally {
+      copy.close();
+    }
+  });
+});
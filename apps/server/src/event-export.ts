@@ -0,0 +1,218 @@
+import type { Database } from "bun:sqlite";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { file } from "bun";
+import { Hono } from "hono";
+
+import { ADMIN_ROLE } from "./authorization";
+import type { AppContext } from "./context";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { encodeFmsByteMap, encodeFmsGuid } from "./fms-guid";
+import { failureResponse, success } from "./request-result";
+
+/** Tables copied from FMS keep its PascalCase names in a dump. */
+const FMS_TABLES = new Set([
+  "award",
+  "award_assignment",
+  "team_ranking",
+  "team",
+  "schedule_detail",
+  "schedule_station",
+  "match",
+]);
+
+const TABLE_KEY_OVERRIDES: Record<string, string> = {
+  patches: "_patches",
+};
+
+/** Names the word-by-word conversion cannot recover. */
+const FIELD_KEY_OVERRIDES: Record<string, string> = {
+  form_id: "formID",
+  red1s: "red1S",
+  red2s: "red2S",
+  blue1s: "blue1S",
+  blue2s: "blue2S",
+  robot1auto: "robot1Auto",
+  robot2auto: "robot2Auto",
+  robot1teleop: "robot1Teleop",
+  robot2teleop: "robot2Teleop",
+  was_added_from_ui: "WasAddedFromUI",
+};
+
+const UPPERCASE_WORDS = new Set(["cmp", "fms"]);
+
+const isGuidColumn = (column: string): boolean =>
+  column.endsWith("_id") || column === "row_version";
+
+/** `quals_game_specific` -> `qualsGameSpecific`, or PascalCase for FMS tables. */
+const toDumpKey = (name: string, pascal: boolean): string =>
+  name
+    .split("_")
+    .map((word, index) => {
+      if (UPPERCASE_WORDS.has(word)) {
+        return word.toUpperCase();
+      }
+      return index === 0 && !pascal
+        ? word
+        : `${word.charAt(0).toUpperCase()}${word.slice(1)}`;
+    })
+    .join("");
+
+/** GUID columns and blobs go back to the byte maps FTC Live writes. */
+const toDumpValue = (column: string, value: unknown): unknown => {
+  if (value instanceof Uint8Array) {
+    return encodeFmsByteMap(value);
+  }
+  return (isGuidColumn(column) ? encodeFmsGuid(value) : null) ?? value;
+};
+
+const listEventTables = (eventDb: Database): string[] =>
+  (
+    eventDb
+      .query(
+        "SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY rowid"
+      )
+      .all() as { name: string }[]
+  ).map((row) => row.name);
+
+/**
+ * Every table of an event in the camelCase shape of an FTC Live dump such as
+ * `1234.db.json`, read inside one transaction so the tables agree.
+ */
+export const exportEventDump = (eventDb: Database): Record<string, unknown[]> =>
+  eventDb.transaction(() => {
+    const dump: Record<string, unknown[]> = {};
+    for (const table of listEventTables(eventDb)) {
+      const pascal = FMS_TABLES.has(table);
+      const rows = eventDb.query(`SELECT * FROM ${table}`).all() as Record<
+        string,
+        unknown
+      >[];
+      dump[TABLE_KEY_OVERRIDES[table] ?? toDumpKey(table, pascal)] = rows.map(
+        (row) =>
+          Object.fromEntries(
+            Object.entries(row).map(([column, value]) => [
+              FIELD_KEY_OVERRIDES[column] ?? toDumpKey(column, pascal),
+              toDumpValue(column, value),
+            ])
+          )
+      );
+    }
+    return dump;
+  })();
+
+/**
+ * Copies the event database into a new temporary directory. `VACUUM INTO`
+ * reads the source in one transaction, so the copy never catches a write half
+ * done, and a copy of any size never has to fit in memory.
+ */
+export const snapshotEventDatabase = (
+  eventDb: Database,
+  eventCode: string
+): string => {
+  const directory = mkdtempSync(path.join(tmpdir(), "rms-export-"));
+  const snapshotPath = path.join(directory, `${eventCode}.db`);
+  try {
+    eventDb.run("VACUUM INTO ?1", [snapshotPath]);
+  } catch (error) {
+    rmSync(directory, { recursive: true, force: true });
+    throw error;
+  }
+  return snapshotPath;
+};
+
+/** Streams a snapshot and deletes it once the download ends or is dropped. */
+export const streamSnapshot = (
+  snapshotPath: string
+): ReadableStream<Uint8Array> => {
+  const reader = file(snapshotPath).stream().getReader();
+  const remove = () =>
+    rmSync(path.dirname(snapshotPath), { recursive: true, force: true });
+
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const chunk = await reader.read();
+        if (chunk.done) {
+          remove();
+          controller.close();
+        } else {
+          controller.enqueue(chunk.value);
+        }
+      } catch (error) {
+        remove();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+      remove();
+    },
+  });
+};
+
+type ExportBody = { json: string } | { snapshotPath: string };
+
+export const createEventExportRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  /** `?format=db` downloads a snapshot of the database file itself. */
+  routes.get(
+    "/:code/export",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    (c) => {
+      const { event, userId } = c.get("eventAccess");
+      const format = c.req.query("format") ?? "json";
+      if (format !== "json" && format !== "db") {
+        return c.json({ error: "format must be json or db." }, 400);
+      }
+
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) =>
+          success<ExportBody>(
+            format === "db"
+              ? {
+                  snapshotPath: snapshotEventDatabase(
+                    eventDb.$client,
+                    event.eventCode
+                  ),
+                }
+              : { json: JSON.stringify(exportEventDump(eventDb.$client)) }
+          )
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "EVENT_EXPORTED",
+        eventCode: event.eventCode,
+        info: format,
+        extra: { userId },
+      });
+
+      c.header(
+        "Content-Type",
+        format === "db" ? "application/vnd.sqlite3" : "application/json"
+      );
+      c.header(
+        "Content-Disposition",
+        `attachment; filename="${event.eventCode}.${format === "db" ? "db" : "db.json"}"`
+      );
+      if ("json" in result.value) {
+        return c.body(result.value.json);
+      }
+      return c.body(streamSnapshot(result.value.snapshotPath));
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+import { eventConfig } from "@rms-local/db/schema/event-db/event-state";
+import { match } from "@rms-local/db/schema/event-db/fms";
+import { file } from "bun";
+import { eq, sql } from "drizzle-orm";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { type EventImportReport, importEventDump } from "./event-import";
+import { DB_VERSION_CONFIG_KEY } from "./schema-migrations";
+
+/** FTC Live export of a `2026_2` database, GUIDs and blobs as byte maps. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+
+/** `FMSMatchId` of the fixture's first `Match` row, `{"0":173,"1":183,...}`. */
+const FIRST_FMS_MATCH_ID = "adb792aa-d6e8-45a7-abb7-718f221671c8";
+/** Its gzipped `ScoreDetails` map runs to 435 bytes. */
+const FIRST_SCORE_DETAILS_LENGTH = 435;
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+let fixture: {
+  Match: unknown[];
+  config: { key: string; value: string }[];
+  teams: unknown[];
+};
+let report: Pick<EventImportReport, "imported" | "unmapped">;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+/** Rows are imported in dump order, so the first rowid is `Match[0]`. */
+const readFirstMatch = (eventDb: EventDb) =>
+  eventDb
+    .select({
+      fmsMatchId: match.fmsMatchId,
+      scoreDetails: match.scoreDetails,
+      rowVersion: match.rowVersion,
+    })
+    .from(match)
+    .orderBy(sql`rowid`)
+    .limit(1)
+    .get();
+
+beforeEach(async () => {
+  directory = mkdtempSync(path.join(tmpdir(), "event-import-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+  fixture = await file(FIXTURE_PATH).json();
+  report = useEventDb((eventDb) => importEventDump(eventDb.$client, fixture));
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("importEventDump", () => {
+  test("maps every array of the FTC Live dump onto a table", () => {
+    expect(report.unmapped).toEqual([]);
+    expect(report.imported.teams).toBe(fixture.teams.length);
+    expect(report.imported.match).toBe(fixture.Match.length);
+  });
+
+  test("decodes 16-byte maps into UUID strings", () => {
+    const firstMatch = useEventDb(readFirstMatch);
+
+    expect(firstMatch?.fmsMatchId).toBe(FIRST_FMS_MATCH_ID);
+  });
+
+  test("stores byte maps of any other length as blobs", () => {
+    const firstMatch = useEventDb(readFirstMatch);
+    const scoreDetails = firstMatch?.scoreDetails as unknown;
+    const rowVersion = firstMatch?.rowVersion as unknown;
+
+    expect(scoreDetails).toBeInstanceOf(Uint8Array);
+    expect((scoreDetails as Uint8Array).length).toBe(
+      FIRST_SCORE_DETAILS_LENGTH
+    );
+    expect([...(scoreDetails as Uint8Array).subarray(0, 2)]).toEqual(
+      GZIP_MAGIC
+    );
+    expect(rowVersion).toBeInstanceOf(Uint8Array);
+    expect((rowVersion as Uint8Array).length).toBe(0);
+  });
+
+  test("keeps the new database's schema version over the dump's", () => {
+    const version = useEventDb((eventDb) =>
+      eventDb
+        .select({ value: eventConfig.value })
+        .from(eventConfig)
+        .where(eq(eventConfig.key, DB_VERSION_CONFIG_KEY))
+        .get()
+    );
+
+    expect(fixture.config).toContainEqual({
+      key: DB_VERSION_CONFIG_KEY,
+      value: "2026_2",
+    });
+    expect(version).toEqual({ value: "2026_3" });
+    expect(report.imported.config).toBe(fixture.config.length - 1);
+  });
+});
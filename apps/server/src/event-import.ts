@@ -0,0 +1,339 @@
+import type { Database, SQLQueryBindings } from "bun:sqlite";
+import { Hono } from "hono";
+
+import { ADMIN_ROLE } from "./authorization";
+import type { AppContext } from "./context";
+import { writeEventConfig } from "./event-config";
+import type { EventDatabaseManager } from "./event-database";
+import {
+  buildEventDetails,
+  createEventArtifacts,
+  hasExistingEvent,
+  normalizeEventCode,
+  requireGlobalRoles,
+  writeEventLog,
+} from "./events";
+import { decodeFmsGuid } from "./fms-guid";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  resolveErrorMessage,
+  success,
+} from "./request-result";
+import { DB_VERSION_CONFIG_KEY } from "./schema-migrations";
+
+const GUID_BYTE_LENGTH = 16;
+const MAX_BYTE = 255;
+
+/** Config keys FTC Live keeps the event's own details under. */
+const EVENT_CONFIG_FIELDS = {
+  text: ["name", "region"],
+  integer: ["type", "status", "start", "end"],
+} as const;
+
+export interface ImportIssue {
+  reason: string;
+  /** Zero-based index into the dump array, or null for the whole array. */
+  row: number | null;
+  source: string;
+}
+
+export interface EventImportReport {
+  eventCode: string;
+  /** Rows written per table. */
+  imported: Record<string, number>;
+  unmapped: ImportIssue[];
+}
+
+type EventDump = Record<string, unknown>;
+
+/** `qualsGameSpecific` -> `quals_game_specific`, `FMSAwardId` -> `fms_award_id`. */
+export const toSnakeCase = (value: string): string =>
+  value
+    .replace(/([a-z])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_|_$/g, "");
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+/** FTC Live writes binary columns as `{"0":163,"1":131,...}`. */
+const readByteMap = (value: Record<string, unknown>): Uint8Array | null => {
+  const bytes = Object.keys(value).map((_, index) => value[String(index)]);
+  const valid = bytes.every(
+    (byte) =>
+      typeof byte === "number" &&
+      Number.isInteger(byte) &&
+      byte >= 0 &&
+      byte <= MAX_BYTE
+  );
+  return valid ? Uint8Array.from(bytes as number[]) : null;
+};
+
+/**
+ * GUID byte maps become UUID strings; any other byte map, such as gzipped
+ * score details, is stored as a blob. Remaining objects are kept as JSON.
+ */
+const toColumnValue = (value: unknown): SQLQueryBindings => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === "boolean") {
+    return value ? 1 : 0;
+  }
+  if (typeof value === "number" || typeof value === "string") {
+    return value;
+  }
+  if (isRecord(value)) {
+    const bytes = readByteMap(value);
+    if (bytes?.length === GUID_BYTE_LENGTH) {
+      return decodeFmsGuid(value);
+    }
+    if (bytes) {
+      return bytes;
+    }
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * The new database already records the schema version it was created at and
+ * the patches it has, so the dump's copies of those rows are skipped.
+ */
+const isSchemaBookkeeping = (
+  table: string,
+  row: Record<string, unknown>,
+  appliedPatchIds: Set<string>
+): boolean =>
+  (table === "config" && row.key === DB_VERSION_CONFIG_KEY) ||
+  (table === "patches" && appliedPatchIds.has(String(row.patchId)));
+
+const readAppliedPatchIds = (eventDb: Database): Set<string> =>
+  new Set(
+    (
+      eventDb.query("SELECT patch_id FROM patches").all() as {
+        patch_id: string;
+      }[]
+    ).map((row) => row.patch_id)
+  );
+
+const readTableColumns = (eventDb: Database, table: string): Set<string> => {
+  const columns = eventDb
+    .query("SELECT name FROM pragma_table_info(?1)")
+    .all(table) as { name: string }[];
+  return new Set(columns.map((column) => column.name));
+};
+
+const importRows = (
+  eventDb: Database,
+  source: string,
+  rows: unknown[],
+  columns: Set<string>,
+  issues: ImportIssue[],
+  appliedPatchIds: Set<string>
+): number => {
+  const table = toSnakeCase(source);
+  const unknownFields = new Set<string>();
+  let imported = 0;
+
+  rows.forEach((row, index) => {
+    if (!isRecord(row)) {
+      issues.push({ source, row: index, reason: "Row is not an object." });
+      return;
+    }
+    if (isSchemaBookkeeping(table, row, appliedPatchIds)) {
+      return;
+    }
+    const fields = Object.keys(row).filter((field) => {
+      const known = columns.has(toSnakeCase(field));
+      if (!known) {
+        unknownFields.add(field);
+      }
+      return known;
+    });
+    if (fields.length === 0) {
+      issues.push({ source, row: index, reason: "Row has no known columns." });
+      return;
+    }
+
+    const placeholders = fields.map((_, position) => `?${position + 1}`);
+    try {
+      eventDb
+        .query(
+          `INSERT INTO ${table} (${fields.map(toSnakeCase).join(", ")}) VALUES (${placeholders.join(", ")})`
+        )
+        .run(...fields.map((field) => toColumnValue(row[field])));
+      imported += 1;
+    } catch (error) {
+      issues.push({ source, row: index, reason: resolveErrorMessage(error) });
+    }
+  });
+
+  for (const field of unknownFields) {
+    issues.push({
+      source,
+      row: null,
+      reason: `Field ${field} has no column in ${table}.`,
+    });
+  }
+  return imported;
+};
+
+/**
+ * Copies every camelCase array of an FTC Live dump into the snake_case table
+ * of the same name. Arrays, rows and fields with nowhere to go are reported
+ * instead of failing the import.
+ */
+export const importEventDump = (
+  eventDb: Database,
+  dump: EventDump
+): Pick<EventImportReport, "imported" | "unmapped"> => {
+  const imported: Record<string, number> = {};
+  const unmapped: ImportIssue[] = [];
+
+  eventDb.transaction(() => {
+    const appliedPatchIds = readAppliedPatchIds(eventDb);
+    for (const [source, rows] of Object.entries(dump)) {
+      if (!Array.isArray(rows)) {
+        unmapped.push({ source, row: null, reason: "Value is not an array." });
+        continue;
+      }
+      const table = toSnakeCase(source);
+      const columns = readTableColumns(eventDb, table);
+      if (columns.size === 0) {
+        unmapped.push({
+          source,
+          row: null,
+          reason: `No table named ${table}; ${rows.length} row(s) skipped.`,
+        });
+        continue;
+      }
+      imported[table] =
+        (imported[table] ?? 0) +
+        importRows(eventDb, source, rows, columns, unmapped, appliedPatchIds);
+    }
+  })();
+
+  return { imported, unmapped };
+};
+
+const readDumpConfig = (dump: EventDump): Map<string, unknown> => {
+  const rows = Array.isArray(dump.config) ? dump.config : [];
+  return new Map(
+    rows.filter(isRecord).map((row) => [String(row.key), row.value])
+  );
+};
+
+/** Event details for the core database, taken from the dump's config rows. */
+const readDumpEventDetails = (
+  config: Map<string, unknown>
+): Record<string, unknown> => {
+  const data: Record<string, unknown> = {
+    finals: config.get("finals") === "true" ? 1 : 0,
+  };
+  for (const field of EVENT_CONFIG_FIELDS.text) {
+    data[field] = config.get(field);
+  }
+  for (const field of EVENT_CONFIG_FIELDS.integer) {
+    const value = Number(config.get(field));
+    if (config.has(field) && Number.isInteger(value)) {
+      data[field] = value;
+    }
+  }
+  return data;
+};
+
+/**
+ * Creates an event and its database from an FTC Live dump. The event code is
+ * read from the dump's `code` config unless one is given.
+ */
+export const createEventFromDump = (
+  db: Database,
+  eventDatabases: EventDatabaseManager,
+  dump: unknown,
+  requestedEventCode?: string
+): RequestResult<EventImportReport> => {
+  if (!isRecord(dump)) {
+    return failure(400, "Event dump must be a JSON object.");
+  }
+
+  const config = readDumpConfig(dump);
+  const eventCode = normalizeEventCode(
+    requestedEventCode ?? config.get("code")
+  );
+  if (!eventCode) {
+    return failure(400, "eventCode is required.");
+  }
+  if (hasExistingEvent(db, eventCode)) {
+    return failure(409, "Event already exists.");
+  }
+
+  let report: Pick<EventImportReport, "imported" | "unmapped"> = {
+    imported: {},
+    unmapped: [],
+  };
+  const details = buildEventDetails(readDumpEventDetails(config), eventCode);
+  const created = createEventArtifacts(
+    db,
+    eventDatabases,
+    details,
+    (eventDb) => {
+      report = importEventDump(eventDb.$client, dump);
+      if (config.has("code")) {
+        writeEventConfig(eventDb, "code", eventCode);
+      }
+    }
+  );
+  if ("failure" in created) {
+    return created;
+  }
+
+  return success({ eventCode, ...report });
+};
+
+export const createEventImportRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  /** The code sits in the path; `/import` beside `/:code` breaks routing. */
+  routes.post(
+    "/:code/import",
+    requireGlobalRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const dump = await c.req.json().catch(() => null);
+      const result = createEventFromDump(
+        db,
+        eventDatabases,
+        dump,
+        c.req.param("code")
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      const { eventCode, imported, unmapped } = result.value;
+      writeEventLog(db, {
+        type: "EVENT_IMPORTED",
+        eventCode,
+        info: String(
+          Object.values(imported).reduce((sum, count) => sum + count, 0)
+        ),
+        extra: {
+          imported,
+          unmapped: unmapped.length,
+          userId: c.get("userAccess").userId,
+        },
+      });
+
+      return c.json(result.value, 201);
+    }
+  );
+
+  return routes;
+};
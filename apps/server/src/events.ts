@@ -0,0 +1,637 @@
+import type { Database } from "bun:sqlite";
+import type { EventDb } from "@rms-local/db/event-db";
+import { eventLog, event as eventTable } from "@rms-local/db/schema/event";
+import { asc, desc, eq, ne } from "drizzle-orm";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+import { type Context, Hono } from "hono";
+import { createMiddleware } from "hono/factory";
+
+import {
+  ADMIN_ROLE,
+  EVENT_ROLES,
+  type EventRole,
+  hasRequiredRole,
+  listUserRoles,
+  resolveSessionUserId,
+} from "./authorization";
+import type { AppContext, AuthHandler } from "./context";
+import {
+  type EventDatabaseManager,
+  resolveEventDatabasePath,
+  withEventDatabase,
+} from "./event-database";
+import {
+  failure,
+  failureResponse,
+  isConflictError,
+  type RequestResult,
+  resolveErrorMessage,
+  success,
+} from "./request-result";
+
+const EVENT_CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const ARCHIVED_EVENT_STATUS = -1;
+
+const EVENT_TEXT_FIELDS = ["name", "region"] as const;
+
+const EVENT_INTEGER_FIELDS = [
+  "type",
+  "status",
+  "finals",
+  "divisions",
+  "start",
+  "end",
+] as const;
+
+export interface EventDetails {
+  divisions: number;
+  end: number;
+  eventCode: string;
+  finals: number;
+  name: string;
+  region: string;
+  start: number;
+  status: number;
+  type: number;
+}
+
+export interface EventRecord extends EventDetails {
+  archived: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+type EventRow = typeof eventTable.$inferSelect;
+
+export interface EventLogEntry {
+  eventCode: string | null;
+  extra: Record<string, unknown>;
+  info: string | null;
+  type: string;
+}
+
+export const normalizeEventCode = (value: unknown): string | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const eventCode = value.trim();
+  if (!(eventCode && EVENT_CODE_PATTERN.test(eventCode))) {
+    return null;
+  }
+  return eventCode;
+};
+
+export const buildEventDetails = (
+  data: Record<string, unknown>,
+  eventCode: string
+): EventDetails => {
+  const now = Date.now();
+  const name =
+    typeof data.name === "string" && data.name.trim().length > 0
+      ? data.name.trim()
+      : eventCode;
+  const start = typeof data.start === "number" ? data.start : now;
+  const end = typeof data.end === "number" ? data.end : start;
+  const region =
+    typeof data.region === "string" && data.region.trim().length > 0
+      ? data.region.trim()
+      : "UNKNOWN";
+  const type = typeof data.type === "number" ? data.type : 0;
+  const status = typeof data.status === "number" ? data.status : 0;
+  const finals = typeof data.finals === "number" ? data.finals : 0;
+  const divisions = typeof data.divisions === "number" ? data.divisions : 0;
+
+  return {
+    eventCode,
+    name,
+    start,
+    end,
+    region,
+    type,
+    status,
+    finals,
+    divisions,
+  };
+};
+
+export const hasExistingEvent = (db: Database, eventCode: string): boolean =>
+  Boolean(
+    drizzle({ client: db })
+      .select({ code: eventTable.code })
+      .from(eventTable)
+      .where(eq(eventTable.code, eventCode))
+      .get()
+  );
+
+const insertEvent = (db: Database, details: EventDetails): void => {
+  drizzle({ client: db })
+    .insert(eventTable)
+    .values({
+      id: crypto.randomUUID(),
+      code: details.eventCode,
+      name: details.name,
+      type: details.type,
+      status: details.status,
+      finals: details.finals,
+      divisions: details.divisions,
+      start: new Date(details.start),
+      end: new Date(details.end),
+      region: details.region,
+    })
+    .run();
+};
+
+const insertEventLog = (
+  db: Database,
+  details: EventDetails,
+  eventDbPath: string
+): void => {
+  writeEventLog(db, {
+    type: "EVENT_CREATED",
+    eventCode: details.eventCode,
+    info: details.name,
+    extra: { dbPath: eventDbPath },
+  });
+};
+
+const toEventRecord = (row: EventRow): EventRecord => ({
+  eventCode: row.code,
+  name: row.name,
+  type: row.type,
+  status: row.status,
+  finals: row.finals,
+  divisions: row.divisions,
+  start: row.start.getTime(),
+  end: row.end.getTime(),
+  region: row.region,
+  archived: row.status === ARCHIVED_EVENT_STATUS,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+});
+
+const listEvents = (db: Database, includeArchived: boolean): EventRecord[] =>
+  drizzle({ client: db })
+    .select()
+    .from(eventTable)
+    .where(
+      includeArchived ? undefined : ne(eventTable.status, ARCHIVED_EVENT_STATUS)
+    )
+    .orderBy(desc(eventTable.start), asc(eventTable.code))
+    .all()
+    .map(toEventRecord);
+
+export const findEvent = (
+  db: Database,
+  eventCode: string
+): EventRecord | null => {
+  const row = drizzle({ client: db })
+    .select()
+    .from(eventTable)
+    .where(eq(eventTable.code, eventCode))
+    .get();
+
+  return row ? toEventRecord(row) : null;
+};
+
+const updateEvent = (db: Database, details: EventDetails): void => {
+  drizzle({ client: db })
+    .update(eventTable)
+    .set({
+      name: details.name,
+      type: details.type,
+      status: details.status,
+      finals: details.finals,
+      divisions: details.divisions,
+      start: new Date(details.start),
+      end: new Date(details.end),
+      region: details.region,
+    })
+    .where(eq(eventTable.code, details.eventCode))
+    .run();
+};
+
+const deleteEvent = (db: Database, eventCode: string): void => {
+  drizzle({ client: db })
+    .delete(eventTable)
+    .where(eq(eventTable.code, eventCode))
+    .run();
+};
+
+export const writeEventLog = (db: Database, entry: EventLogEntry): void => {
+  drizzle({ client: db })
+    .insert(eventLog)
+    .values({
+      id: crypto.randomUUID(),
+      timestamp: new Date(),
+      type: entry.type,
+      eventCode: entry.eventCode,
+      info: entry.info,
+      extra: JSON.stringify(entry.extra),
+    })
+    .run();
+};
+
+const resolveEventUpdateLogType = (
+  previous: EventDetails,
+  updated: EventDetails
+): string => {
+  const wasArchived = previous.status === ARCHIVED_EVENT_STATUS;
+  const isArchived = updated.status === ARCHIVED_EVENT_STATUS;
+  if (isArchived && !wasArchived) {
+    return "EVENT_ARCHIVED";
+  }
+  if (wasArchived && !isArchived) {
+    return "EVENT_RESTORED";
+  }
+  return "EVENT_UPDATED";
+};
+
+/** Looks up the event named in a route without checking the session. */
+export const resolveEvent = (
+  db: Database,
+  rawEventCode: string
+): RequestResult<EventRecord> => {
+  const eventCode = normalizeEventCode(rawEventCode);
+  if (!eventCode) {
+    return failure(400, "Invalid event code.");
+  }
+
+  const event = findEvent(db, eventCode);
+  if (!event) {
+    return failure(404, "Event not found.");
+  }
+
+  return success(event);
+};
+
+export interface EventAccess {
+  event: EventRecord;
+  roles: EventRole[];
+  userId: string;
+}
+
+export interface EventAccessEnv {
+  Variables: { eventAccess: EventAccess };
+}
+
+export interface UserAccessEnv {
+  Variables: { userAccess: Omit<EventAccess, "event"> };
+}
+
+/** Logs the denial and answers 403 naming the role the user lacks. */
+const denyAccess = (
+  c: Context,
+  db: Database,
+  denial: {
+    eventCode: string | null;
+    granted: EventRole[];
+    required: readonly EventRole[];
+    userId: string;
+  }
+) => {
+  writeEventLog(db, {
+    type: "ACCESS_DENIED",
+    eventCode: denial.eventCode,
+    info: `${c.req.method} ${c.req.path}`,
+    extra: {
+      granted: denial.granted,
+      required: denial.required,
+      userId: denial.userId,
+    },
+  });
+  return failureResponse(c, {
+    status: 403,
+    error: `${denial.required.join(" or ")} role required.`,
+  });
+};
+
+/**
+ * Middleware for routes on the event named by `:code`. Global roles count at
+ * every event, and ADMIN passes every check. Handlers read the caller from
+ * `c.get("eventAccess")`.
+ */
+export const requireEventRoles = (
+  auth: AuthHandler,
+  db: Database,
+  required: readonly EventRole[]
+) =>
+  createMiddleware<EventAccessEnv>(async (c, next) => {
+    const userId = await resolveSessionUserId(auth, c.req.raw);
+    if (!userId) {
+      return failureResponse(c, {
+        status: 401,
+        error: "Authentication required.",
+      });
+    }
+
+    const event = resolveEvent(db, c.req.param("code") ?? "");
+    if ("failure" in event) {
+      return failureResponse(c, event.failure);
+    }
+
+    const { eventCode } = event.value;
+    const roles = listUserRoles(db, userId, eventCode);
+    if (!hasRequiredRole(roles, required)) {
+      return denyAccess(c, db, { eventCode, granted: roles, required, userId });
+    }
+
+    c.set("eventAccess", { event: event.value, roles, userId });
+    await next();
+  });
+
+/** Like `requireEventRoles` for routes outside any event; only global roles count. */
+export const requireGlobalRoles = (
+  auth: AuthHandler,
+  db: Database,
+  required: readonly EventRole[]
+) =>
+  createMiddleware<UserAccessEnv>(async (c, next) => {
+    const userId = await resolveSessionUserId(auth, c.req.raw);
+    if (!userId) {
+      return failureResponse(c, {
+        status: 401,
+        error: "Authentication required.",
+      });
+    }
+
+    const roles = listUserRoles(db, userId, null);
+    if (!hasRequiredRole(roles, required)) {
+      return denyAccess(c, db, {
+        eventCode: null,
+        granted: roles,
+        required,
+        userId,
+      });
+    }
+
+    c.set("userAccess", { roles, userId });
+    await next();
+  });
+
+/**
+ * `populate` fills the new event database before the event is registered, so
+ * a failure leaves neither the file nor the event row behind.
+ */
+export const createEventArtifacts = (
+  db: Database,
+  eventDatabases: EventDatabaseManager,
+  details: EventDetails,
+  populate?: (eventDb: EventDb) => void
+): RequestResult<{ eventDbPath: string }> => {
+  let eventDbPath: string | null = null;
+
+  try {
+    eventDbPath = eventDatabases.create(details.eventCode);
+    if (populate) {
+      withEventDatabase(eventDatabases, details.eventCode, populate);
+    }
+    insertEvent(db, details);
+    insertEventLog(db, details, eventDbPath);
+  } catch (error) {
+    if (eventDbPath) {
+      eventDatabases.remove(details.eventCode);
+    }
+
+    const statusCode = isConflictError(error) ? 409 : 500;
+    return failure(
+      statusCode,
+      statusCode === 409
+        ? "Event already exists."
+        : "Failed to create event database.",
+      resolveErrorMessage(error)
+    );
+  }
+
+  if (!eventDbPath) {
+    return failure(500, "Failed to create event database.");
+  }
+
+  return success({ eventDbPath });
+};
+
+const parseEventUpdatePayload = (
+  payload: unknown,
+  current: EventDetails
+): RequestResult<EventDetails> => {
+  if (!payload || typeof payload !== "object") {
+    return failure(400, "Invalid request body.");
+  }
+
+  const data = payload as Record<string, unknown>;
+  if ("eventCode" in data && data.eventCode !== current.eventCode) {
+    return failure(400, "eventCode cannot be changed.");
+  }
+
+  const updated: EventDetails = { ...current };
+  for (const field of EVENT_TEXT_FIELDS) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (typeof value !== "string" || value.trim().length === 0) {
+      return failure(400, `${field} must be a non-empty string.`);
+    }
+    updated[field] = value.trim();
+  }
+
+  for (const field of EVENT_INTEGER_FIELDS) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (typeof value !== "number" || !Number.isInteger(value)) {
+      return failure(400, `${field} must be an integer.`);
+    }
+    updated[field] = value;
+  }
+
+  if (updated.end < updated.start) {
+    return failure(400, "end must not be earlier than start.");
+  }
+
+  return success(updated);
+};
+
+/**
+ * The event row and its log entry go first, in one transaction, so a failure
+ * never leaves an event pointing at a missing database.
+ */
+const deleteEventArtifacts = (
+  db: Database,
+  eventDatabases: EventDatabaseManager,
+  event: EventRecord,
+  userId: string
+): RequestResult<{ eventDbPath: string }> => {
+  const eventDbPath = resolveEventDatabasePath(
+    eventDatabases.directory,
+    event.eventCode
+  );
+
+  try {
+    db.transaction(() => {
+      deleteEvent(db, event.eventCode);
+      writeEventLog(db, {
+        type: "EVENT_DELETED",
+        eventCode: event.eventCode,
+        info: event.name,
+        extra: { dbPath: eventDbPath, userId },
+      });
+    })();
+  } catch (error) {
+    return failure(500, "Failed to delete event.", resolveErrorMessage(error));
+  }
+
+  try {
+    eventDatabases.remove(event.eventCode);
+  } catch (error) {
+    return failure(
+      500,
+      "Failed to remove event database.",
+      resolveErrorMessage(error)
+    );
+  }
+
+  return success({ eventDbPath });
+};
+
+export const createEventRoutes = ({
+  auth,
+  channel,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.post("/", requireGlobalRoles(auth, db, [ADMIN_ROLE]), async (c) => {
+    const payload = await c.req.json().catch(() => null);
+    if (!payload || typeof payload !== "object") {
+      return c.json({ error: "Invalid request body." }, 400);
+    }
+
+    const data = payload as Record<string, unknown>;
+    const eventCode = normalizeEventCode(data.eventCode);
+    if (!eventCode) {
+      return c.json({ error: "eventCode is required." }, 400);
+    }
+
+    if (hasExistingEvent(db, eventCode)) {
+      return c.json({ error: "Event already exists." }, 409);
+    }
+
+    const details = buildEventDetails(data, eventCode);
+    const eventCreationResult = createEventArtifacts(
+      db,
+      eventDatabases,
+      details
+    );
+    if ("failure" in eventCreationResult) {
+      return c.json(
+        {
+          error: eventCreationResult.failure.error,
+          details: eventCreationResult.failure.details,
+        },
+        eventCreationResult.failure.status
+      );
+    }
+
+    return c.json({
+      eventCode,
+      eventDbPath: eventCreationResult.value.eventDbPath,
+    });
+  });
+
+  routes.get("/", requireGlobalRoles(auth, db, [ADMIN_ROLE]), (c) => {
+    const includeArchived = c.req.query("includeArchived") === "true";
+    const events = listEvents(db, includeArchived);
+    writeEventLog(db, {
+      type: "EVENTS_LISTED",
+      eventCode: null,
+      info: null,
+      extra: { includeArchived, userId: c.get("userAccess").userId },
+    });
+
+    return c.json({ events });
+  });
+
+  routes.get("/:code", requireEventRoles(auth, db, EVENT_ROLES), (c) => {
+    const { event, userId } = c.get("eventAccess");
+    writeEventLog(db, {
+      type: "EVENT_VIEWED",
+      eventCode: event.eventCode,
+      info: event.name,
+      extra: { userId },
+    });
+
+    return c.json({ event });
+  });
+
+  routes.patch(
+    "/:code",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const { event, userId } = c.get("eventAccess");
+      const payload = await c.req.json().catch(() => null);
+      const updateResult = parseEventUpdatePayload(payload, event);
+      if ("failure" in updateResult) {
+        return c.json(
+          { error: updateResult.failure.error },
+          updateResult.failure.status
+        );
+      }
+
+      const updatedDetails = updateResult.value;
+      const logType = resolveEventUpdateLogType(event, updatedDetails);
+      try {
+        updateEvent(db, updatedDetails);
+        writeEventLog(db, {
+          type: logType,
+          eventCode: event.eventCode,
+          info: updatedDetails.name,
+          extra: { previous: event, userId },
+        });
+      } catch (error) {
+        return c.json(
+          {
+            error: "Failed to update event.",
+            details: resolveErrorMessage(error),
+          },
+          500
+        );
+      }
+
+      if (logType === "EVENT_ARCHIVED") {
+        channel.publish(event.eventCode, { type: "EVENT_ARCHIVED" });
+      }
+      return c.json({ event: findEvent(db, event.eventCode) });
+    }
+  );
+
+  routes.delete("/:code", requireEventRoles(auth, db, [ADMIN_ROLE]), (c) => {
+    const { event, userId } = c.get("eventAccess");
+    const deletionResult = deleteEventArtifacts(
+      db,
+      eventDatabases,
+      event,
+      userId
+    );
+    if ("failure" in deletionResult) {
+      return c.json(
+        {
+          error: deletionResult.failure.error,
+          details: deletionResult.failure.details,
+        },
+        deletionResult.failure.status
+      );
+    }
+
+    channel.publish(event.eventCode, { type: "EVENT_DELETED" });
+    return c.json({
+      eventCode: event.eventCode,
+      eventDbPath: deletionResult.value.eventDbPath,
+      deleted: true,
+    });
+  });
+
+  return routes;
+};
@@ -0,0 +1,60 @@
+const GUID_BYTE_LENGTH = 16;
+const GUID_SEGMENT_LENGTHS = [8, 4, 4, 4, 12] as const;
+const GUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isByte = (value: unknown): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= 0 &&
+  value <= 255;
+
+const formatGuidHex = (hex: string): string => {
+  const segments: string[] = [];
+  let offset = 0;
+  for (const length of GUID_SEGMENT_LENGTHS) {
+    segments.push(hex.slice(offset, offset + length));
+    offset += length;
+  }
+  return segments.join("-");
+};
+
+/**
+ * FTC-Live dumps serialize GUID columns as `{"0":163,"1":131,...}` byte maps.
+ * Accepts either that shape or an already formatted UUID string.
+ */
+export const decodeFmsGuid = (value: unknown): string | null => {
+  if (typeof value === "string") {
+    return GUID_PATTERN.test(value) ? value.toLowerCase() : null;
+  }
+
+  if (!(value && typeof value === "object")) {
+    return null;
+  }
+
+  const byteMap = value as Record<string, unknown>;
+  let hex = "";
+  for (let index = 0; index < GUID_BYTE_LENGTH; index += 1) {
+    const byte = byteMap[String(index)];
+    if (!isByte(byte)) {
+      return null;
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+
+  return formatGuidHex(hex);
+};
+
+/** Writes bytes back out in the `{"0":163,"1":131,...}` shape of a dump. */
+export const encodeFmsByteMap = (bytes: Uint8Array): Record<string, number> =>
+  Object.fromEntries(Array.from(bytes, (byte, index) => [String(index), byte]));
+
+/** Inverse of `decodeFmsGuid`; returns null for anything but a UUID string. */
+export const encodeFmsGuid = (
+  value: unknown
+): Record<string, number> | null => {
+  if (!(typeof value === "string" && GUID_PATTERN.test(value))) {
+    return null;
+  }
+  return encodeFmsByteMap(Buffer.from(value.replaceAll("-", ""), "hex"));
+};
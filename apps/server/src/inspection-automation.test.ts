@@ -0,0 +1,215 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { file } from "bun";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importEventDump } from "./event-import";
+import { type InspectionForm, readForm } from "./inspection";
+import {
+  type DeviceReport,
+  evaluateDeviceReport,
+  type ReportedDevice,
+} from "./inspection-automation";
+
+/** FTC Live export whose sizing form carries FTC Live's automation rules. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+const TEAM = 7;
+
+/** Rows of the fixture's sizing form that hold automation rules. */
+const DEVICE_ROW = 1;
+const GAMEPADS_ROW = 3;
+const SETTINGS_ROW = 5;
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+let sizing: InspectionForm;
+
+beforeAll(async () => {
+  directory = mkdtempSync(path.join(tmpdir(), "inspection-automation-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+  const fixture = await file(FIXTURE_PATH).json();
+  const form = eventDatabases.use(EVENT_CODE, (eventDb) => {
+    importEventDump(eventDb.$client, fixture);
+    return readForm(eventDb, "sizing");
+  });
+  if (!form) {
+    throw new Error("The fixture has no sizing form.");
+  }
+  sizing = form;
+});
+
+afterAll(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+const evaluateRow = (row: number, report: DeviceReport, form = sizing) =>
+  evaluateDeviceReport(form, report, TEAM).items.find(
+    (item) => item.row === row
+  );
+
+const driverStation = (device: Partial<ReportedDevice>): DeviceReport => ({
+  DS: { deviceType: "PHONE", ...device },
+});
+
+describe("evaluateDeviceReport DEVICE rule", () => {
+  test.each([
+    ["perry", "perry"],
+    ["sperry", "perry"],
+    ["perry_retail", "perry"],
+    ["james", "james"],
+    ["rjames", "james"],
+    ["nora", "nora"],
+  ])("selects the option for codename %s", (codename, answer) => {
+    expect(evaluateRow(DEVICE_ROW, driverStation({ codename }))).toEqual({
+      row: DEVICE_ROW,
+      item: 0,
+      answer,
+      passed: true,
+      explanations: [],
+    });
+  });
+
+  test("selects the unknown device option for other codenames", () => {
+    const result = evaluateRow(
+      DEVICE_ROW,
+      driverStation({ codename: "walleye", model: "Pixel 2" })
+    );
+
+    expect(result?.answer).toBe("illegal");
+    expect(result?.explanations).toEqual([
+      "Driver Station: Pixel 2 (walleye) is not a known device; check it by hand.",
+    ]);
+  });
+
+  test("asks for a manual check when an option pattern does not compile", () => {
+    const form = structuredClone(sizing);
+    const item = form.rows.find((row) => row.row === DEVICE_ROW)?.items[0];
+    for (const option of item?.options ?? []) {
+      if (option.value === "perry") {
+        option.regex = "s?(perry";
+      }
+    }
+
+    expect(
+      evaluateRow(DEVICE_ROW, driverStation({ codename: "sperry" }), form)
+    ).toEqual({
+      row: DEVICE_ROW,
+      item: 0,
+      answer: undefined,
+      passed: null,
+      explanations: [
+        "Driver Station: the form's pattern for Moto E4 is not a valid regular expression; check sperry by hand.",
+      ],
+    });
+    expect(
+      evaluateRow(DEVICE_ROW, driverStation({ codename: "nora" }), form)?.answer
+    ).toBe("nora");
+  });
+
+  test("reports a missing codename", () => {
+    expect(evaluateRow(DEVICE_ROW, driverStation({}))?.passed).toBeNull();
+  });
+});
+
+describe("evaluateDeviceReport GAMEPADS rule", () => {
+  test("passes two gamepads", () => {
+    expect(evaluateRow(GAMEPADS_ROW, driverStation({ gamepads: 2 }))).toEqual({
+      row: GAMEPADS_ROW,
+      item: 0,
+      answer: true,
+      passed: true,
+      explanations: [],
+    });
+  });
+
+  test("fails more than two gamepads", () => {
+    expect(evaluateRow(GAMEPADS_ROW, driverStation({ gamepads: 3 }))).toEqual({
+      row: GAMEPADS_ROW,
+      item: 0,
+      answer: false,
+      passed: false,
+      explanations: [
+        "Driver Station: 3 gamepads are connected; at most 2 are allowed.",
+      ],
+    });
+  });
+
+  test("ignores a report without a driver station", () => {
+    expect(
+      evaluateRow(GAMEPADS_ROW, { RC: { deviceType: "CH", gamepads: 3 } })
+    ).toMatchObject({ passed: null, explanations: [] });
+  });
+});
+
+describe("evaluateDeviceReport name and radio rules", () => {
+  const controlHub: ReportedDevice = {
+    deviceType: "CH",
+    name: `${TEAM}-RC`,
+    wifi: true,
+    bluetooth: false,
+    passwordChanged: true,
+    channel: 6,
+    localNetwork: false,
+  };
+  const driverHub: ReportedDevice = {
+    deviceType: "REV",
+    name: `${TEAM}-B-DS`,
+    wifi: true,
+    bluetooth: false,
+    localNetwork: false,
+  };
+
+  test("passes correctly named devices with the right radio settings", () => {
+    expect(
+      evaluateRow(SETTINGS_ROW, { RC: controlHub, DS: driverHub })
+    ).toEqual({
+      row: SETTINGS_ROW,
+      item: 0,
+      answer: true,
+      passed: true,
+      explanations: [],
+    });
+  });
+
+  test("explains each failing rule", () => {
+    const result = evaluateRow(SETTINGS_ROW, {
+      RC: { ...controlHub, name: "robot", bluetooth: true },
+      DS: {
+        deviceType: "PHONE",
+        name: `${TEAM}-DS`,
+        airplaneMode: true,
+        wifi: false,
+        bluetooth: false,
+        localNetwork: false,
+      },
+    });
+
+    expect(result?.passed).toBe(false);
+    expect(result?.explanations).toEqual([
+      `Robot Controller: name "robot" should be ${TEAM}-RC (optionally ${TEAM}-A-RC).`,
+      "Driver Station: Wi-Fi is off.",
+      "Robot Controller: Bluetooth is on.",
+    ]);
+  });
+
+  test("only applies rules for the reported device types", () => {
+    const result = evaluateRow(SETTINGS_ROW, {
+      DS: { deviceType: "REV", name: `${TEAM}-DS` },
+    });
+
+    expect(result?.passed).toBe(true);
+    expect(result?.explanations).toEqual([
+      "The Driver Station report does not include Bluetooth.",
+      "The Driver Station report does not include Wi-Fi.",
+      "The Driver Station report does not include the local network state.",
+    ]);
+  });
+});
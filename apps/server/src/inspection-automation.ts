@@ -0,0 +1,444 @@
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles } from "./events";
+import {
+  type AutomationRule,
+  type FormAnswer,
+  type FormItem,
+  type InspectionForm,
+  readForm,
+} from "./inspection";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { findTeam, parseTeamNumber } from "./teams";
+
+export type ReportedDeviceRole = "DS" | "RC";
+
+/** `PHONE` for Android phones, `CH` for a Control Hub, `REV` for a Driver Hub. */
+export type ReportedDeviceType = "CH" | "PHONE" | "REV";
+
+export interface ReportedDevice {
+  airplaneMode?: boolean;
+  appVersion?: string;
+  bluetooth?: boolean;
+  /** Wi-Fi channel, or null when the device is left on automatic. */
+  channel?: number | null;
+  /** Android build codename, e.g. `perry` for a Moto E4. */
+  codename?: string;
+  deviceType: ReportedDeviceType;
+  gamepads?: number;
+  localNetwork?: boolean;
+  model?: string;
+  name?: string;
+  osVersion?: string;
+  passwordChanged?: boolean;
+  wifi?: boolean;
+}
+
+export type DeviceReport = Partial<Record<ReportedDeviceRole, ReportedDevice>>;
+
+export interface AutomationItemResult {
+  /** Pre-filled answer, or undefined when no rule could be evaluated. */
+  answer?: boolean | string;
+  /** Why the item fails, or which facts the report was missing. */
+  explanations: string[];
+  item: number;
+  /** Null when none of the item's rules applied to the reported devices. */
+  passed: boolean | null;
+  row: number;
+}
+
+export interface AutomationResult {
+  answers: FormAnswer[];
+  items: AutomationItemResult[];
+}
+
+interface RuleOutcome {
+  answer?: boolean | string;
+  explanation?: string;
+  passed: boolean | null;
+}
+
+const DEVICE_TYPES = new Set<string>(["CH", "PHONE", "REV"]);
+const DEVICE_ROLE_NAMES: Record<ReportedDeviceRole, string> = {
+  DS: "Driver Station",
+  RC: "Robot Controller",
+};
+const MAX_GAMEPADS = 2;
+/** Options a reported device can never be matched to directly. */
+const NOT_SELECTED_OPTION = "";
+const UNKNOWN_DEVICE_OPTION = "illegal";
+
+/** Null when the form's `regex` for the option does not compile. */
+const optionPattern = (
+  value: string,
+  regex: string | undefined
+): RegExp | null => {
+  try {
+    return new RegExp(
+      `^(?:${regex ?? value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")})$`,
+      "i"
+    );
+  } catch {
+    return null;
+  }
+};
+
+/** Device names follow `<team>-RC` / `<team>-DS`, with an optional letter. */
+const isValidDeviceName = (
+  name: string,
+  team: number,
+  role: ReportedDeviceRole
+): boolean => new RegExp(`^${team}(-[A-Z])?-${role}$`, "i").test(name);
+
+const missing = (role: ReportedDeviceRole, fact: string): RuleOutcome => ({
+  passed: null,
+  explanation: `The ${DEVICE_ROLE_NAMES[role]} report does not include ${fact}.`,
+});
+
+const expectFlag = (
+  role: ReportedDeviceRole,
+  value: boolean | undefined,
+  expected: boolean,
+  fact: string,
+  failureText: string
+): RuleOutcome => {
+  if (value === undefined) {
+    return missing(role, fact);
+  }
+  return value === expected
+    ? { passed: true }
+    : {
+        passed: false,
+        explanation: `${DEVICE_ROLE_NAMES[role]}: ${failureText}`,
+      };
+};
+
+const evaluateDeviceModel = (
+  item: FormItem,
+  role: ReportedDeviceRole,
+  device: ReportedDevice
+): RuleOutcome => {
+  if (!device.codename) {
+    return missing(role, "the device codename");
+  }
+  const codename = device.codename;
+  const model = device.model ? `${device.model} (${codename})` : codename;
+  const invalidOptions: string[] = [];
+  const known = item.options.find((option) => {
+    if (
+      option.value === NOT_SELECTED_OPTION ||
+      option.value === UNKNOWN_DEVICE_OPTION
+    ) {
+      return false;
+    }
+    const pattern = optionPattern(option.value, option.regex);
+    if (!pattern) {
+      invalidOptions.push(option.name);
+    }
+    return pattern?.test(codename) ?? false;
+  });
+
+  if (!known && invalidOptions.length > 0) {
+    return {
+      passed: null,
+      explanation: `${DEVICE_ROLE_NAMES[role]}: the form's pattern for ${invalidOptions.join(", ")} is not a valid regular expression; check ${model} by hand.`,
+    };
+  }
+  const matched =
+    known ??
+    item.options.find((option) => option.value === UNKNOWN_DEVICE_OPTION);
+  if (!matched) {
+    return {
+      passed: false,
+      explanation: `${DEVICE_ROLE_NAMES[role]}: ${model} is not an allowed device.`,
+    };
+  }
+  return {
+    answer: matched.value,
+    passed: matched.check,
+    explanation:
+      matched.value === UNKNOWN_DEVICE_OPTION
+        ? `${DEVICE_ROLE_NAMES[role]}: ${model} is not a known device; check it by hand.`
+        : undefined,
+  };
+};
+
+const evaluateRule = (
+  rule: AutomationRule,
+  item: FormItem,
+  role: ReportedDeviceRole,
+  device: ReportedDevice,
+  team: number
+): RuleOutcome => {
+  switch (rule.type) {
+    case "DEVICE":
+      return evaluateDeviceModel(item, role, device);
+    case "GAMEPADS":
+      if (device.gamepads === undefined) {
+        return missing(role, "the gamepad count");
+      }
+      return device.gamepads <= MAX_GAMEPADS
+        ? { passed: true }
+        : {
+            passed: false,
+            explanation: `${DEVICE_ROLE_NAMES[role]}: ${device.gamepads} gamepads are connected; at most ${MAX_GAMEPADS} are allowed.`,
+          };
+    case "NAME":
+      if (!device.name) {
+        return missing(role, "the device name");
+      }
+      return isValidDeviceName(device.name, team, role)
+        ? { passed: true }
+        : {
+            passed: false,
+            explanation: `${DEVICE_ROLE_NAMES[role]}: name "${device.name}" should be ${team}-${role} (optionally ${team}-A-${role}).`,
+          };
+    case "AIRPLANE_MODE":
+      return expectFlag(
+        role,
+        device.airplaneMode,
+        true,
+        "airplane mode",
+        "airplane mode is off."
+      );
+    case "WIFI":
+      return expectFlag(role, device.wifi, true, "Wi-Fi", "Wi-Fi is off.");
+    case "BT":
+      return expectFlag(
+        role,
+        device.bluetooth,
+        false,
+        "Bluetooth",
+        "Bluetooth is on."
+      );
+    case "PW":
+      return expectFlag(
+        role,
+        device.passwordChanged,
+        true,
+        "the password state",
+        "the default Wi-Fi password has not been changed."
+      );
+    case "LOCAL_NETWORK":
+      return expectFlag(
+        role,
+        device.localNetwork,
+        false,
+        "the local network state",
+        "it is connected to a local network."
+      );
+    case "CHANNEL":
+      if (device.channel === undefined) {
+        return missing(role, "the Wi-Fi channel");
+      }
+      return device.channel === null
+        ? {
+            passed: false,
+            explanation: `${DEVICE_ROLE_NAMES[role]}: the Wi-Fi channel is on automatic; set a fixed channel.`,
+          }
+        : { passed: true };
+    default:
+      return {
+        passed: null,
+        explanation: `Rule ${rule.type} cannot be checked automatically.`,
+      };
+  }
+};
+
+const ruleApplies = (rule: AutomationRule, device: ReportedDevice): boolean =>
+  rule.deviceType === "ANY" || rule.deviceType === device.deviceType;
+
+const evaluateItem = (
+  row: number,
+  item: FormItem,
+  report: DeviceReport,
+  team: number
+): AutomationItemResult | null => {
+  if (item.automation.length === 0) {
+    return null;
+  }
+
+  const outcomes: RuleOutcome[] = [];
+  for (const rule of item.automation) {
+    const role = rule.device as ReportedDeviceRole;
+    const device = report[role];
+    if (device && ruleApplies(rule, device)) {
+      outcomes.push(evaluateRule(rule, item, role, device, team));
+    }
+  }
+
+  const evaluated = outcomes.filter((outcome) => outcome.passed !== null);
+  const passed =
+    evaluated.length === 0
+      ? null
+      : evaluated.every((outcome) => outcome.passed === true);
+  const selected = outcomes.find((outcome) => outcome.answer !== undefined);
+  const answer =
+    item.type === "SELECT" ? selected?.answer : (passed ?? undefined);
+
+  return {
+    row,
+    item: item.index,
+    answer,
+    passed,
+    explanations: outcomes.flatMap((outcome) =>
+      outcome.explanation ? [outcome.explanation] : []
+    ),
+  };
+};
+
+/**
+ * Runs the form's automation rules against a device report. Nothing is
+ * saved: the inspector reviews the pre-filled answers before saving them.
+ */
+export const evaluateDeviceReport = (
+  form: InspectionForm,
+  report: DeviceReport,
+  team: number
+): AutomationResult => {
+  const items = form.rows.flatMap((row) =>
+    row.items.flatMap((item) => {
+      const result = evaluateItem(row.row, item, report, team);
+      return result ? [result] : [];
+    })
+  );
+
+  return {
+    items,
+    answers: items.flatMap((result) =>
+      result.answer === undefined
+        ? []
+        : [{ row: result.row, item: result.item, value: result.answer }]
+    ),
+  };
+};
+
+const OPTIONAL_TEXT_FIELDS = [
+  "appVersion",
+  "codename",
+  "model",
+  "name",
+  "osVersion",
+] as const;
+const OPTIONAL_FLAG_FIELDS = [
+  "airplaneMode",
+  "bluetooth",
+  "localNetwork",
+  "passwordChanged",
+  "wifi",
+] as const;
+
+const parseReportedDevice = (
+  value: unknown,
+  role: ReportedDeviceRole
+): RequestResult<ReportedDevice> => {
+  const data = value as Record<string, unknown>;
+  if (!DEVICE_TYPES.has(String(data.deviceType))) {
+    return failure(400, `${role}.deviceType must be PHONE, CH or REV.`);
+  }
+  for (const field of OPTIONAL_TEXT_FIELDS) {
+    if (data[field] !== undefined && typeof data[field] !== "string") {
+      return failure(400, `${role}.${field} must be text.`);
+    }
+  }
+  for (const field of OPTIONAL_FLAG_FIELDS) {
+    if (data[field] !== undefined && typeof data[field] !== "boolean") {
+      return failure(400, `${role}.${field} must be true or false.`);
+    }
+  }
+  if (
+    data.gamepads !== undefined &&
+    !(Number.isInteger(data.gamepads) && (data.gamepads as number) >= 0)
+  ) {
+    return failure(400, `${role}.gamepads must be a whole number.`);
+  }
+  if (
+    data.channel !== undefined &&
+    data.channel !== null &&
+    !Number.isInteger(data.channel)
+  ) {
+    return failure(400, `${role}.channel must be a number or null.`);
+  }
+  return success(data as unknown as ReportedDevice);
+};
+
+export const parseDeviceReport = (
+  payload: unknown
+): RequestResult<DeviceReport> => {
+  if (!payload || typeof payload !== "object") {
+    return failure(400, "Invalid request body.");
+  }
+
+  const data = payload as Record<string, unknown>;
+  const report: DeviceReport = {};
+  for (const role of ["DS", "RC"] as const) {
+    if (data[role] === undefined) {
+      continue;
+    }
+    if (!data[role] || typeof data[role] !== "object") {
+      return failure(400, `${role} must be an object.`);
+    }
+    const device = parseReportedDevice(data[role], role);
+    if ("failure" in device) {
+      return device;
+    }
+    report[role] = device.value;
+  }
+  if (!(report.DS || report.RC)) {
+    return failure(400, "Report at least one of DS or RC.");
+  }
+  return success(report);
+};
+
+export const createInspectionAutomationRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.post(
+    "/:code/inspection/forms/:formId/teams/:team/device-report",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR"]),
+    async (c) => {
+      const team = parseTeamNumber(c.req.param("team"));
+      if (!team) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const report = parseDeviceReport(await c.req.json().catch(() => null));
+      if ("failure" in report) {
+        return failureResponse(c, report.failure);
+      }
+
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => {
+          const form = readForm(eventDb, c.req.param("formId"));
+          if (!form) {
+            return failure(404, "Form not found.");
+          }
+          if (!findTeam(eventDb, team)) {
+            return failure(404, "Team not found.");
+          }
+          return success(evaluateDeviceReport(form, report.value, team));
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,565 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  inspectionScheduleForm,
+  inspectionScheduleItems,
+} from "@rms-local/db/schema/event-db/inspection";
+import { asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import {
+  findMatchBlock,
+  listScheduleBlocks,
+  listScheduleMatches,
+  PRACTICE_SCHEDULE,
+  QUALIFICATION_SCHEDULE,
+} from "./match-schedule";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { listCompetingTeamNumbers } from "./teams";
+
+/** One day of the schedule form, in the event's local time. */
+export interface ScheduleDay {
+  date: string;
+  endTime: string;
+  startTime: string;
+}
+
+/** A kind of visit such as Judging, with its slot length in minutes. */
+export interface ScheduleStationType {
+  bindings: unknown[];
+  duration: number;
+  name: string;
+  stations: number;
+}
+
+export interface InspectionScheduleForm {
+  days: ScheduleDay[];
+  stations: ScheduleStationType[];
+}
+
+export interface InspectionScheduleItem {
+  date: string;
+  id: number;
+  name: string;
+  /** Minutes after local midnight. */
+  startTime: number;
+  station: number;
+  team: number;
+  totalTime: number;
+}
+
+interface GenerateOptions {
+  form: InspectionScheduleForm;
+  /** Minutes a team is given between two visits or a visit and a match. */
+  gap: number;
+  /** Minutes east of UTC, used to place match times on the local day. */
+  timeZoneOffset: number;
+}
+
+interface Interval {
+  end: number;
+  start: number;
+}
+
+const FORM_ID = 1;
+const DEFAULT_GAP_MINUTES = 10;
+const MAX_GAP_MINUTES = 120;
+const MAX_SLOT_MINUTES = 240;
+const MAX_STATIONS = 50;
+const MAX_TIME_ZONE_OFFSET = 14 * 60;
+const MILLISECONDS_PER_MINUTE = 60_000;
+const MILLISECONDS_PER_SECOND = 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+
+const padTwo = (value: number): string => String(value).padStart(2, "0");
+
+const parseTime = (value: string): number | null => {
+  const match = TIME_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= MINUTES_PER_DAY ? minutes : null;
+};
+
+const parseDate = (value: string): [number, number, number] | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = [
+    Number(match[1]),
+    Number(match[2]),
+    Number(match[3]),
+  ];
+  const parsed = new Date(Date.UTC(year, month - 1, day));
+  return parsed.getUTCMonth() === month - 1 && parsed.getUTCDate() === day
+    ? [year, month, day]
+    : null;
+};
+
+const toLocalEpoch = (
+  date: string,
+  minutes: number,
+  timeZoneOffset: number
+): number => {
+  const [year, month, day] = parseDate(date) ?? [1970, 1, 1];
+  return (
+    Date.UTC(year, month - 1, day) +
+    (minutes - timeZoneOffset) * MILLISECONDS_PER_MINUTE
+  );
+};
+
+export const readInspectionScheduleForm = (
+  eventDb: EventDb
+): InspectionScheduleForm => {
+  const row = eventDb
+    .select({ str: inspectionScheduleForm.str })
+    .from(inspectionScheduleForm)
+    .where(eq(inspectionScheduleForm.id, FORM_ID))
+    .get();
+  if (!row) {
+    return { days: [], stations: [] };
+  }
+
+  try {
+    const [days, stations] = JSON.parse(row.str) as [
+      ScheduleDay[],
+      Record<string, unknown>[],
+    ];
+    return {
+      days: days ?? [],
+      stations: (stations ?? []).map((station) => ({
+        name: String(station.name),
+        duration: Number(station.duration),
+        stations: Number(station.stations),
+        bindings: Array.isArray(station.bindings) ? station.bindings : [],
+      })),
+    };
+  } catch {
+    return { days: [], stations: [] };
+  }
+};
+
+/** FTC Live keeps the form as strings, so numbers are written back as text. */
+const writeInspectionScheduleForm = (
+  eventDb: EventDb,
+  form: InspectionScheduleForm
+): void => {
+  const str = JSON.stringify([
+    form.days,
+    form.stations.map((station) => ({
+      name: station.name,
+      duration: String(station.duration),
+      stations: String(station.stations),
+      bindings: station.bindings,
+    })),
+  ]);
+  eventDb.delete(inspectionScheduleForm).run();
+  eventDb.insert(inspectionScheduleForm).values({ id: FORM_ID, str }).run();
+};
+
+/**
+ * FTC Live stores the day of the month in `month` and the month in `day`;
+ * both are read and written that way so imported schedules line up.
+ */
+export const listInspectionScheduleItems = (
+  eventDb: EventDb
+): InspectionScheduleItem[] => {
+  const rows = eventDb
+    .select()
+    .from(inspectionScheduleItems)
+    .orderBy(
+      asc(inspectionScheduleItems.year),
+      asc(inspectionScheduleItems.day),
+      asc(inspectionScheduleItems.month),
+      asc(inspectionScheduleItems.startTime),
+      asc(inspectionScheduleItems.name),
+      asc(inspectionScheduleItems.stationNumber)
+    )
+    .all();
+  return rows.map((row) => ({
+    id: row.id,
+    team: row.team,
+    name: row.name,
+    station: row.stationNumber,
+    date: `${row.year}-${padTwo(row.day)}-${padTwo(row.month)}`,
+    startTime: row.startTime,
+    totalTime: row.totalTime,
+  }));
+};
+
+const replaceInspectionScheduleItems = (
+  eventDb: EventDb,
+  items: InspectionScheduleItem[]
+): void => {
+  eventDb.delete(inspectionScheduleItems).run();
+  for (const item of items) {
+    const [year, month, day] = parseDate(item.date) ?? [0, 0, 0];
+    eventDb
+      .insert(inspectionScheduleItems)
+      .values({
+        id: item.id,
+        team: item.team,
+        name: item.name,
+        stationNumber: item.station,
+        startTime: item.startTime,
+        totalTime: item.totalTime,
+        month: day,
+        day: month,
+        year,
+      })
+      .run();
+  }
+};
+
+/** Every practice and qualification match a team plays, as epoch intervals. */
+const listTeamMatchTimes = (eventDb: EventDb): Map<number, Interval[]> => {
+  const busy = new Map<number, Interval[]>();
+  for (const kind of [PRACTICE_SCHEDULE, QUALIFICATION_SCHEDULE]) {
+    const blocks = listScheduleBlocks(eventDb, kind);
+    for (const match of listScheduleMatches(eventDb, kind)) {
+      const block = findMatchBlock(blocks, match.scheduleStart);
+      const interval = {
+        start: match.scheduleStart,
+        end:
+          match.scheduleStart +
+          (block?.cycleTime ?? 0) * MILLISECONDS_PER_SECOND,
+      };
+      for (const slot of [...match.red, ...match.blue]) {
+        if (slot.team > 0) {
+          busy.set(slot.team, [...(busy.get(slot.team) ?? []), interval]);
+        }
+      }
+    }
+  }
+  return busy;
+};
+
+const overlaps = (a: Interval, b: Interval, gap: number): boolean =>
+  a.start < b.end + gap && b.start < a.end + gap;
+
+/**
+ * Fills each station type's slots in time order, giving every slot to the
+ * lowest-numbered team that still needs that visit and is free for it.
+ * Teams stay `gap` minutes clear of their other visits and their matches.
+ */
+export const buildInspectionSchedule = (
+  teams: number[],
+  matchTimes: Map<number, Interval[]>,
+  options: GenerateOptions
+): RequestResult<InspectionScheduleItem[]> => {
+  const gap = options.gap * MILLISECONDS_PER_MINUTE;
+  const busy = new Map(
+    teams.map((team) => [team, [...(matchTimes.get(team) ?? [])]])
+  );
+  const items: InspectionScheduleItem[] = [];
+
+  for (const type of options.form.stations) {
+    const waiting = new Set(teams);
+    for (const day of options.form.days) {
+      const dayStart = parseTime(day.startTime) ?? 0;
+      const dayEnd = parseTime(day.endTime) ?? 0;
+      for (
+        let start = dayStart;
+        start + type.duration <= dayEnd && waiting.size > 0;
+        start += type.duration
+      ) {
+        const slot = {
+          start: toLocalEpoch(day.date, start, options.timeZoneOffset),
+          end: toLocalEpoch(
+            day.date,
+            start + type.duration,
+            options.timeZoneOffset
+          ),
+        };
+        for (let station = 1; station <= type.stations; station += 1) {
+          const team = [...waiting].find(
+            (candidate) =>
+              !busy
+                .get(candidate)
+                ?.some((interval) => overlaps(interval, slot, gap))
+          );
+          if (team === undefined) {
+            break;
+          }
+          waiting.delete(team);
+          busy.get(team)?.push(slot);
+          items.push({
+            id: items.length,
+            team,
+            name: type.name,
+            station,
+            date: day.date,
+            startTime: start,
+            totalTime: type.duration,
+          });
+        }
+      }
+    }
+
+    if (waiting.size > 0) {
+      return failure(
+        400,
+        `Not enough ${type.name} slots for teams ${[...waiting].join(", ")}. Add stations or hours.`
+      );
+    }
+  }
+
+  return success(items);
+};
+
+const parseScheduleDay = (value: unknown): RequestResult<ScheduleDay> => {
+  const data = (value ?? {}) as Record<string, unknown>;
+  const date = typeof data.date === "string" ? data.date : "";
+  const startTime = typeof data.startTime === "string" ? data.startTime : "";
+  const endTime = typeof data.endTime === "string" ? data.endTime : "";
+  if (!parseDate(date)) {
+    return failure(400, "Each day needs a date as YYYY-MM-DD.");
+  }
+  const start = parseTime(startTime);
+  const end = parseTime(endTime);
+  if (start === null || end === null) {
+    return failure(400, "Each day needs a startTime and endTime as HH:MM.");
+  }
+  if (end <= start) {
+    return failure(400, `The hours on ${date} must end after they start.`);
+  }
+  return success({ date, startTime, endTime });
+};
+
+const parseStationType = (
+  value: unknown
+): RequestResult<ScheduleStationType> => {
+  const data = (value ?? {}) as Record<string, unknown>;
+  const name = typeof data.name === "string" ? data.name.trim() : "";
+  const duration = Number(data.duration);
+  const stations = Number(data.stations);
+  if (!name) {
+    return failure(400, "Each station needs a name.");
+  }
+  if (
+    !Number.isInteger(duration) ||
+    duration < 1 ||
+    duration > MAX_SLOT_MINUTES
+  ) {
+    return failure(
+      400,
+      `${name} duration must be 1 to ${MAX_SLOT_MINUTES} minutes.`
+    );
+  }
+  if (!Number.isInteger(stations) || stations < 1 || stations > MAX_STATIONS) {
+    return failure(400, `${name} needs 1 to ${MAX_STATIONS} stations.`);
+  }
+  return success({
+    name,
+    duration,
+    stations,
+    bindings: Array.isArray(data.bindings) ? data.bindings : [],
+  });
+};
+
+const parseEach = <T>(
+  values: unknown,
+  parse: (value: unknown) => RequestResult<T>,
+  label: string
+): RequestResult<T[]> => {
+  if (!Array.isArray(values) || values.length === 0) {
+    return failure(400, `${label} must be a non-empty array.`);
+  }
+  const parsed: T[] = [];
+  for (const value of values) {
+    const result = parse(value);
+    if ("failure" in result) {
+      return result;
+    }
+    parsed.push(result.value);
+  }
+  return success(parsed);
+};
+
+const parseGeneratePayload = (
+  payload: unknown
+): RequestResult<GenerateOptions> => {
+  const data = (
+    payload && typeof payload === "object" ? payload : {}
+  ) as Record<string, unknown>;
+
+  const days = parseEach(data.days, parseScheduleDay, "days");
+  if ("failure" in days) {
+    return days;
+  }
+  const stations = parseEach(data.stations, parseStationType, "stations");
+  if ("failure" in stations) {
+    return stations;
+  }
+  if (
+    new Set(stations.value.map((station) => station.name)).size !==
+    stations.value.length
+  ) {
+    return failure(400, "Station names must be unique.");
+  }
+
+  const gap = data.gap ?? DEFAULT_GAP_MINUTES;
+  if (
+    typeof gap !== "number" ||
+    !Number.isInteger(gap) ||
+    gap < 0 ||
+    gap > MAX_GAP_MINUTES
+  ) {
+    return failure(400, `gap must be 0 to ${MAX_GAP_MINUTES} minutes.`);
+  }
+  const timeZoneOffset = data.timeZoneOffset ?? 0;
+  if (
+    typeof timeZoneOffset !== "number" ||
+    !Number.isInteger(timeZoneOffset) ||
+    Math.abs(timeZoneOffset) > MAX_TIME_ZONE_OFFSET
+  ) {
+    return failure(400, "timeZoneOffset must be minutes east of UTC.");
+  }
+
+  return success({
+    form: { days: days.value, stations: stations.value },
+    gap,
+    timeZoneOffset,
+  });
+};
+
+export const generateInspectionSchedule = (
+  eventDb: EventDb,
+  payload: unknown
+): RequestResult<InspectionScheduleItem[]> => {
+  const options = parseGeneratePayload(payload);
+  if ("failure" in options) {
+    return options;
+  }
+
+  const teams = listCompetingTeamNumbers(eventDb);
+  if (teams.length === 0) {
+    return failure(400, "Add teams before scheduling inspection.");
+  }
+
+  const items = buildInspectionSchedule(
+    teams,
+    listTeamMatchTimes(eventDb),
+    options.value
+  );
+  if ("failure" in items) {
+    return items;
+  }
+
+  eventDb.transaction(() => {
+    writeInspectionScheduleForm(eventDb, options.value.form);
+    replaceInspectionScheduleItems(eventDb, items.value);
+  });
+  return items;
+};
+
+export const createInspectionScheduleRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/inspection-schedule",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR", "TSO"]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) =>
+          success({
+            form: readInspectionScheduleForm(eventDb),
+            items: listInspectionScheduleItems(eventDb),
+          })
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.post(
+    "/:code/inspection-schedule",
+    requireEventRoles(auth, db, ["LEAD_INSPECTOR"]),
+    async (c) => {
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          const items = generateInspectionSchedule(eventDb, payload);
+          if ("failure" in items) {
+            return items;
+          }
+          return success({
+            form: readInspectionScheduleForm(eventDb),
+            items: listInspectionScheduleItems(eventDb),
+          });
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "INSPECTION_SCHEDULE_GENERATED",
+        eventCode: event.eventCode,
+        info: String(result.value.items.length),
+        extra: {
+          stations: result.value.form.stations.map((station) => station.name),
+          userId,
+        },
+      });
+
+      return c.json(result.value, 201);
+    }
+  );
+
+  routes.delete(
+    "/:code/inspection-schedule",
+    requireEventRoles(auth, db, ["LEAD_INSPECTOR"]),
+    (c) => {
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) =>
+          success(
+            eventDb
+              .delete(inspectionScheduleItems)
+              .returning({ id: inspectionScheduleItems.id })
+              .all().length
+          )
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "INSPECTION_SCHEDULE_CLEARED",
+        eventCode: event.eventCode,
+        info: String(result.value),
+        extra: { userId },
+      });
+
+      return c.json({ removed: result.value });
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,573 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  formAnswers,
+  formItems,
+  formNotes,
+  formRows,
+} from "@rms-local/db/schema/event-db/inspection";
+import { status as statusTable } from "@rms-local/db/schema/event-db/teams";
+import { and, asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import { readEventConfigInteger } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { findTeam, parseTeamNumber } from "./teams";
+
+/** `status` values of the status table, in the order a team moves through them. */
+export const INSPECTION_STATUS = {
+  notStarted: 0,
+  inProgress: 1,
+  incomplete: 2,
+  passed: 3,
+} as const;
+
+/** Stage of the status table that records a team's arrival. */
+export const CHECKIN_FORM_ID = "checkin";
+
+export type InspectionStatus =
+  (typeof INSPECTION_STATUS)[keyof typeof INSPECTION_STATUS];
+
+export type FormRowType = "HEADER" | "STANDARD";
+
+/**
+ * SELECT items pass when the chosen option has `check` set; REQUIRED items
+ * must be ticked; CHECKBOX items are informational and never fail a form.
+ */
+export type FormItemType = "CHECKBOX" | "REQUIRED" | "SELECT";
+
+export interface FormOption {
+  check: boolean;
+  name: string;
+  /** Pattern for matching reported device codenames to this option. */
+  regex?: string;
+  value: string;
+}
+
+export interface AutomationRule {
+  device: string;
+  deviceType: string;
+  type: string;
+}
+
+export interface FormItem {
+  automation: AutomationRule[];
+  index: number;
+  label: string | null;
+  options: FormOption[];
+  type: FormItemType;
+}
+
+export interface FormRow {
+  columnCount: number;
+  description: string;
+  items: FormItem[];
+  row: number;
+  /** Rule references, e.g. `["R901", "R704"]` from `R901, R704`. */
+  rules: string[];
+  type: FormRowType;
+}
+
+export interface InspectionForm {
+  formId: string;
+  rows: FormRow[];
+  version: number | null;
+}
+
+export type AnswerValue = boolean | string;
+
+export interface FormAnswer {
+  item: number;
+  row: number;
+  value: AnswerValue;
+}
+
+export interface ItemReference {
+  item: number;
+  row: number;
+}
+
+export interface InspectionEvaluation {
+  /** Items that count toward passing and have no passing answer yet. */
+  failed: ItemReference[];
+  passed: boolean;
+}
+
+export interface InspectionRecord {
+  answers: FormAnswer[];
+  evaluation: InspectionEvaluation;
+  form: InspectionForm;
+  formVersion: number | null;
+  modifiedAt: number | null;
+  notes: string;
+  status: InspectionStatus;
+  team: number;
+}
+
+const FORM_ITEM_TYPES = new Set<string>(["CHECKBOX", "REQUIRED", "SELECT"]);
+
+const parseJsonArray = <T>(value: string | null): T[] => {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+const parseRules = (rule: string | null): string[] =>
+  (rule ?? "")
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0);
+
+export const formVersionKey = (formId: string): string =>
+  `form.${formId}.version`;
+
+export const listFormIds = (eventDb: EventDb): string[] =>
+  eventDb
+    .selectDistinct({ formId: formRows.formId })
+    .from(formRows)
+    .orderBy(asc(formRows.formId))
+    .all()
+    .map((row) => row.formId);
+
+export const readForm = (
+  eventDb: EventDb,
+  formId: string
+): InspectionForm | null => {
+  const rows = eventDb
+    .select()
+    .from(formRows)
+    .where(eq(formRows.formId, formId))
+    .orderBy(asc(formRows.row))
+    .all();
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const items = eventDb
+    .select()
+    .from(formItems)
+    .where(eq(formItems.formId, formId))
+    .orderBy(asc(formItems.row), asc(formItems.itemIndex))
+    .all();
+
+  return {
+    formId,
+    version: readEventConfigInteger(eventDb, formVersionKey(formId)),
+    rows: rows.map((row) => ({
+      row: row.row,
+      type: row.type === "HEADER" ? "HEADER" : "STANDARD",
+      columnCount: row.columnCount,
+      description: row.description,
+      rules: parseRules(row.rule),
+      // Header rows carry a placeholder item with no type; it is not asked.
+      items: items
+        .filter(
+          (item) => item.row === row.row && FORM_ITEM_TYPES.has(item.type ?? "")
+        )
+        .map((item) => ({
+          index: item.itemIndex,
+          label: item.label,
+          type: item.type as FormItemType,
+          options: parseJsonArray<FormOption>(item.options),
+          automation: parseJsonArray<AutomationRule>(item.automationData),
+        })),
+    })),
+  };
+};
+
+const findFormItem = (
+  form: InspectionForm,
+  row: number,
+  index: number
+): FormItem | null =>
+  form.rows
+    .find((formRow) => formRow.row === row)
+    ?.items.find((item) => item.index === index) ?? null;
+
+export const isItemSatisfied = (
+  item: FormItem,
+  value: AnswerValue | undefined
+): boolean => {
+  switch (item.type) {
+    case "SELECT":
+      return item.options.some(
+        (option) => option.check && option.value === value
+      );
+    case "REQUIRED":
+      return value === true;
+    default:
+      return true;
+  }
+};
+
+export const evaluateInspection = (
+  form: InspectionForm,
+  answers: FormAnswer[]
+): InspectionEvaluation => {
+  const values = new Map(
+    answers.map((answer) => [`${answer.row}.${answer.item}`, answer.value])
+  );
+  const failed: ItemReference[] = [];
+  for (const row of form.rows) {
+    for (const item of row.items) {
+      if (!isItemSatisfied(item, values.get(`${row.row}.${item.index}`))) {
+        failed.push({ row: row.row, item: item.index });
+      }
+    }
+  }
+  return { passed: failed.length === 0, failed };
+};
+
+/**
+ * Saving keeps a failing form in progress; finishing it marks the team
+ * incomplete so the lead inspector knows it needs another look.
+ */
+export const resolveInspectionStatus = (
+  evaluation: InspectionEvaluation,
+  answered: boolean,
+  finished: boolean
+): InspectionStatus => {
+  if (evaluation.passed) {
+    return INSPECTION_STATUS.passed;
+  }
+  if (finished) {
+    return INSPECTION_STATUS.incomplete;
+  }
+  return answered ? INSPECTION_STATUS.inProgress : INSPECTION_STATUS.notStarted;
+};
+
+export const readTeamStatus = (
+  eventDb: EventDb,
+  team: number,
+  stage: string
+): InspectionStatus => {
+  const row = eventDb
+    .select({ status: statusTable.status })
+    .from(statusTable)
+    .where(and(eq(statusTable.team, team), eq(statusTable.stage, stage)))
+    .get();
+  return (row?.status ?? INSPECTION_STATUS.notStarted) as InspectionStatus;
+};
+
+export const writeTeamStatus = (
+  eventDb: EventDb,
+  team: number,
+  stage: string,
+  status: InspectionStatus
+): void => {
+  eventDb
+    .delete(statusTable)
+    .where(and(eq(statusTable.team, team), eq(statusTable.stage, stage)))
+    .run();
+  eventDb.insert(statusTable).values({ team, stage, status }).run();
+};
+
+const readAnswers = (
+  eventDb: EventDb,
+  formId: string,
+  team: number
+): FormAnswer[] =>
+  eventDb
+    .select()
+    .from(formAnswers)
+    .where(and(eq(formAnswers.formId, formId), eq(formAnswers.team, team)))
+    .orderBy(asc(formAnswers.row), asc(formAnswers.itemIndex))
+    .all()
+    .map((row) => ({
+      row: row.row,
+      item: row.itemIndex,
+      value: JSON.parse(row.value) as AnswerValue,
+    }));
+
+export const readInspection = (
+  eventDb: EventDb,
+  form: InspectionForm,
+  team: number
+): InspectionRecord => {
+  const answers = readAnswers(eventDb, form.formId, team);
+  const notes = eventDb
+    .select()
+    .from(formNotes)
+    .where(and(eq(formNotes.formId, form.formId), eq(formNotes.team, team)))
+    .get();
+
+  return {
+    team,
+    form,
+    answers,
+    notes: notes?.notes ?? "",
+    formVersion: notes?.formVersion ?? null,
+    modifiedAt: notes?.modifiedAt ?? null,
+    status: readTeamStatus(eventDb, team, form.formId),
+    evaluation: evaluateInspection(form, answers),
+  };
+};
+
+const parseAnswer = (
+  form: InspectionForm,
+  value: unknown,
+  index: number
+): RequestResult<FormAnswer> => {
+  const data = (value ?? {}) as Record<string, unknown>;
+  const item =
+    typeof data.row === "number" && typeof data.item === "number"
+      ? findFormItem(form, data.row, data.item)
+      : null;
+  if (!item) {
+    return failure(400, `answers[${index}] does not name an item on the form.`);
+  }
+
+  const answer = data.value;
+  if (item.type === "SELECT") {
+    if (!item.options.some((option) => option.value === answer)) {
+      return failure(
+        400,
+        `answers[${index}].value must be one of the item's options.`
+      );
+    }
+  } else if (typeof answer !== "boolean") {
+    return failure(400, `answers[${index}].value must be true or false.`);
+  }
+
+  return success({
+    row: data.row as number,
+    item: item.index,
+    value: answer as AnswerValue,
+  });
+};
+
+interface InspectionPayload {
+  answers: FormAnswer[];
+  finished: boolean;
+  notes: string;
+}
+
+const parseInspectionPayload = (
+  form: InspectionForm,
+  payload: unknown
+): RequestResult<InspectionPayload> => {
+  const data = (payload ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(data.answers)) {
+    return failure(400, "answers must be an array.");
+  }
+  if (data.notes !== undefined && typeof data.notes !== "string") {
+    return failure(400, "notes must be text.");
+  }
+
+  const answers: FormAnswer[] = [];
+  for (const [index, value] of data.answers.entries()) {
+    const answer = parseAnswer(form, value, index);
+    if ("failure" in answer) {
+      return answer;
+    }
+    answers.push(answer.value);
+  }
+
+  return success({
+    answers,
+    notes: (data.notes as string | undefined)?.trim() ?? "",
+    finished: data.finished === true,
+  });
+};
+
+/**
+ * Replaces a team's answer set for one form and moves its stage in the
+ * status table. The stage is named after the form, e.g. `hardware`.
+ */
+export const saveInspection = (
+  eventDb: EventDb,
+  form: InspectionForm,
+  team: number,
+  payload: unknown,
+  modifiedBy: string,
+  modifiedAt: number
+): RequestResult<InspectionRecord> => {
+  if (!findTeam(eventDb, team)) {
+    return failure(404, "Team not found.");
+  }
+  const parsed = parseInspectionPayload(form, payload);
+  if ("failure" in parsed) {
+    return parsed;
+  }
+
+  const { answers, finished, notes } = parsed.value;
+  const status = resolveInspectionStatus(
+    evaluateInspection(form, answers),
+    answers.length > 0 || notes.length > 0,
+    finished
+  );
+
+  eventDb.transaction(() => {
+    eventDb
+      .delete(formAnswers)
+      .where(
+        and(eq(formAnswers.formId, form.formId), eq(formAnswers.team, team))
+      )
+      .run();
+    if (answers.length > 0) {
+      eventDb
+        .insert(formAnswers)
+        .values(
+          answers.map((answer) => ({
+            formId: form.formId,
+            team,
+            row: answer.row,
+            itemIndex: answer.item,
+            value: JSON.stringify(answer.value),
+          }))
+        )
+        .run();
+    }
+    const noteValues = {
+      formVersion: form.version ?? 0,
+      notes,
+      modifiedAt,
+      modifiedBy,
+    };
+    eventDb
+      .insert(formNotes)
+      .values({ formId: form.formId, team, ...noteValues })
+      .onConflictDoUpdate({
+        target: [formNotes.formId, formNotes.team],
+        set: noteValues,
+      })
+      .run();
+    writeTeamStatus(eventDb, team, form.formId, status);
+  });
+
+  return success(readInspection(eventDb, form, team));
+};
+
+const withForm = <TValue>(
+  eventDb: EventDb,
+  formId: string,
+  task: (form: InspectionForm) => RequestResult<TValue>
+): RequestResult<TValue> => {
+  const form = readForm(eventDb, formId);
+  return form ? task(form) : failure(404, "Form not found.");
+};
+
+export const createInspectionRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/inspection/forms",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR"]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) =>
+          success(
+            listFormIds(eventDb).map((formId) => ({
+              formId,
+              version: readEventConfigInteger(eventDb, formVersionKey(formId)),
+            }))
+          )
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json({ forms: result.value });
+    }
+  );
+
+  routes.get(
+    "/:code/inspection/forms/:formId",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR"]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => withForm(eventDb, c.req.param("formId"), success)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.get(
+    "/:code/inspection/forms/:formId/teams/:team",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR"]),
+    (c) => {
+      const team = parseTeamNumber(c.req.param("team"));
+      if (!team) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) =>
+          withForm(eventDb, c.req.param("formId"), (form) =>
+            findTeam(eventDb, team)
+              ? success(readInspection(eventDb, form, team))
+              : failure(404, "Team not found.")
+          )
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.put(
+    "/:code/inspection/forms/:formId/teams/:team",
+    requireEventRoles(auth, db, ["INSPECTOR", "LEAD_INSPECTOR"]),
+    async (c) => {
+      const team = parseTeamNumber(c.req.param("team"));
+      if (!team) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const formId = c.req.param("formId");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) =>
+          withForm(eventDb, formId, (form) =>
+            saveInspection(eventDb, form, team, payload, userId, Date.now())
+          )
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "INSPECTION_SAVED",
+        eventCode: event.eventCode,
+        info: `${formId}:${team}`,
+        extra: { status: result.value.status, userId },
+      });
+
+      return c.json(result.value);
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+
+import {
+  createFieldController,
+  createManualClock,
+  type FieldController,
+  type FieldSnapshot,
+  type ManualClock,
+} from "./match-control";
+
+const START_AT = 1_000_000;
+
+let clock: ManualClock;
+let changes: FieldSnapshot[];
+let controller: FieldController;
+
+const phases = () => changes.map((snapshot) => snapshot.phase);
+
+beforeEach(() => {
+  clock = createManualClock(START_AT);
+  changes = [];
+  controller = createFieldController(1, clock, (snapshot) => {
+    changes.push(snapshot);
+  });
+});
+
+describe("createFieldController", () => {
+  test("runs a match through every timed period into post", () => {
+    controller.load("quals", 3, 1);
+    clock.advance(5000);
+    controller.start();
+    clock.advance(158_000);
+
+    expect(phases()).toEqual([
+      "PRE_START",
+      "AUTO",
+      "TRANSITION",
+      "TELEOP",
+      "ENDGAME",
+      "POST",
+    ]);
+    const autoStart = START_AT + 5000;
+    expect(controller.snapshot()).toMatchObject({
+      level: "quals",
+      match: 3,
+      phase: "POST",
+      phaseEndsAt: null,
+      playNumber: 1,
+      timestamps: {
+        initialPreStart: START_AT,
+        autoStart,
+        autoEnd: autoStart + 30_000,
+        teleopStart: autoStart + 38_000,
+        teleopEnd: autoStart + 158_000,
+        postMatch: autoStart + 158_000,
+        cancel: null,
+      },
+    });
+  });
+
+  test("sets each timestamp only once its phase begins", () => {
+    controller.load("quals", 3, 1);
+    controller.start();
+
+    expect(controller.snapshot().timestamps).toMatchObject({
+      autoStart: START_AT,
+      autoEnd: null,
+      teleopStart: null,
+    });
+    expect(controller.snapshot().phaseEndsAt).toBe(START_AT + 30_000);
+
+    clock.advance(30_000);
+    expect(controller.snapshot().timestamps).toMatchObject({
+      autoEnd: START_AT + 30_000,
+      teleopStart: null,
+    });
+  });
+
+  test("aborts without reaching the later periods", () => {
+    controller.load("elims", 2, 1);
+    controller.start();
+    clock.advance(10_000);
+
+    expect(controller.abort()).toEqual({ value: controller.snapshot() });
+    clock.advance(200_000);
+
+    expect(phases()).toEqual(["PRE_START", "AUTO", "ABORTED"]);
+    expect(controller.snapshot().timestamps).toMatchObject({
+      autoStart: START_AT,
+      autoEnd: null,
+      teleopStart: null,
+      teleopEnd: null,
+      postMatch: null,
+      cancel: START_AT + 10_000,
+    });
+  });
+
+  test("replays an aborted match as the next play", () => {
+    controller.load("quals", 7, 1);
+    controller.start();
+    controller.abort();
+    clock.advance(1000);
+
+    const replay = controller.replay();
+
+    expect(replay).toEqual({
+      value: expect.objectContaining({
+        phase: "PRE_START",
+        match: 7,
+        playNumber: 2,
+        preStartCount: 2,
+        timestamps: expect.objectContaining({
+          initialPreStart: START_AT + 1000,
+          autoStart: null,
+          cancel: null,
+        }),
+      }),
+    });
+  });
+
+  test("stops the running period when disposed", () => {
+    controller.load("quals", 4, 1);
+    controller.start();
+
+    controller.dispose();
+    clock.advance(200_000);
+
+    expect(phases()).toEqual(["PRE_START", "AUTO"]);
+  });
+
+  test("refuses commands out of order", () => {
+    expect(controller.start()).toEqual({
+      failure: expect.objectContaining({ status: 409 }),
+    });
+    expect(controller.abort()).toEqual({
+      failure: expect.objectContaining({ status: 409 }),
+    });
+    expect(controller.replay()).toEqual({
+      failure: expect.objectContaining({ status: 409 }),
+    });
+
+    controller.load("quals", 1, 1);
+    controller.start();
+    expect(controller.load("quals", 2, 1)).toEqual({
+      failure: expect.objectContaining({ status: 409 }),
+    });
+    expect(controller.replay()).toEqual({
+      failure: expect.objectContaining({ status: 409 }),
+    });
+  });
+});
@@ -0,0 +1,722 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { match as fmsMatch } from "@rms-local/db/schema/event-db/fms";
+import {
+  elims,
+  elimsCommitHistory,
+  elimsData,
+  practice,
+  practiceData,
+  quals,
+  qualsCommitHistory,
+  qualsData,
+} from "@rms-local/db/schema/event-db/matches";
+import { and, eq, max } from "drizzle-orm";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import type { EventMessage, MatchLevel } from "./event-channel";
+import { readEventConfig, readEventConfigInteger } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, resolveEvent, writeEventLog } from "./events";
+import { COMMIT_HISTORY_TYPE, parseMatchNumber } from "./match-scores";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+
+export type FieldPhase =
+  | "ABORTED"
+  | "AUTO"
+  | "ENDGAME"
+  | "IDLE"
+  | "POST"
+  | "PRE_START"
+  | "TELEOP"
+  | "TRANSITION";
+
+/** Timed periods of a match, in order, starting when the match starts. */
+export const MATCH_PERIODS: readonly {
+  durationMs: number;
+  phase: FieldPhase;
+}[] = [
+  { phase: "AUTO", durationMs: 30_000 },
+  { phase: "TRANSITION", durationMs: 8000 },
+  { phase: "TELEOP", durationMs: 100_000 },
+  { phase: "ENDGAME", durationMs: 20_000 },
+];
+
+const RUNNING_PHASES = new Set<FieldPhase>(
+  MATCH_PERIODS.map((period) => period.phase)
+);
+const LOADABLE_PHASES = new Set<FieldPhase>([
+  "ABORTED",
+  "IDLE",
+  "POST",
+  "PRE_START",
+]);
+
+/** Time source for the controller; tests swap in a manual clock. */
+export interface MatchClock {
+  now: () => number;
+  /** Runs `task` after `delayMs` and returns a function that cancels it. */
+  schedule: (delayMs: number, task: () => void) => () => void;
+}
+
+export const systemClock: MatchClock = {
+  now: () => Date.now(),
+  schedule: (delayMs, task) => {
+    const timer = setTimeout(task, delayMs);
+    return () => clearTimeout(timer);
+  },
+};
+
+export interface ManualClock extends MatchClock {
+  /** Moves time forward, running every task that falls due on the way. */
+  advance: (ms: number) => void;
+}
+
+export const createManualClock = (startAt = 0): ManualClock => {
+  let now = startAt;
+  let nextId = 0;
+  const tasks = new Map<number, { at: number; task: () => void }>();
+
+  return {
+    now: () => now,
+    schedule: (delayMs, task) => {
+      const id = nextId++;
+      tasks.set(id, { at: now + delayMs, task });
+      return () => {
+        tasks.delete(id);
+      };
+    },
+    advance: (ms) => {
+      const target = now + ms;
+      const nextDue = () => {
+        let next: [number, { at: number; task: () => void }] | null = null;
+        for (const entry of tasks) {
+          if (entry[1].at <= target && (!next || entry[1].at < next[1].at)) {
+            next = entry;
+          }
+        }
+        return next;
+      };
+
+      for (let due = nextDue(); due; due = nextDue()) {
+        const [id, { at, task }] = due;
+        tasks.delete(id);
+        now = at;
+        task();
+      }
+      now = target;
+    },
+  };
+};
+
+export interface FieldTimestamps {
+  autoEnd: number | null;
+  autoStart: number | null;
+  cancel: number | null;
+  finalPreStart: number | null;
+  initialPreStart: number | null;
+  postMatch: number | null;
+  teleopEnd: number | null;
+  teleopStart: number | null;
+}
+
+export interface FieldSnapshot {
+  field: number;
+  level: MatchLevel | null;
+  match: number | null;
+  phase: FieldPhase;
+  /** When the current timed period ends, or null outside a running match. */
+  phaseEndsAt: number | null;
+  phaseStartedAt: number | null;
+  playNumber: number;
+  preStartCount: number;
+  timestamps: FieldTimestamps;
+}
+
+const EMPTY_TIMESTAMPS: FieldTimestamps = {
+  autoEnd: null,
+  autoStart: null,
+  cancel: null,
+  finalPreStart: null,
+  initialPreStart: null,
+  postMatch: null,
+  teleopEnd: null,
+  teleopStart: null,
+};
+
+/** A field with nothing loaded, as a new controller starts out. */
+export const createIdleSnapshot = (field: number): FieldSnapshot => ({
+  field,
+  level: null,
+  match: null,
+  phase: "IDLE",
+  phaseEndsAt: null,
+  phaseStartedAt: null,
+  playNumber: 0,
+  preStartCount: 0,
+  timestamps: { ...EMPTY_TIMESTAMPS },
+});
+
+export interface FieldController {
+  abort: () => RequestResult<FieldSnapshot>;
+  /** Cancels the pending period timer; the controller is not used after. */
+  dispose: () => void;
+  load: (
+    level: MatchLevel,
+    match: number,
+    playNumber: number
+  ) => RequestResult<FieldSnapshot>;
+  replay: () => RequestResult<FieldSnapshot>;
+  snapshot: () => FieldSnapshot;
+  start: () => RequestResult<FieldSnapshot>;
+}
+
+/**
+ * Drives one field through pre-start, the timed match periods and post.
+ * `onChange` sees every phase change, including the ones made by the clock.
+ */
+export const createFieldController = (
+  field: number,
+  clock: MatchClock,
+  onChange: (snapshot: FieldSnapshot) => void
+): FieldController => {
+  let state = createIdleSnapshot(field);
+  let cancelTimer: (() => void) | null = null;
+
+  const update = (changes: Partial<FieldSnapshot>): FieldSnapshot => {
+    state = { ...state, ...changes };
+    onChange(state);
+    return state;
+  };
+
+  const runPeriod = (index: number): void => {
+    const period = MATCH_PERIODS[index];
+    const now = clock.now();
+    if (!period) {
+      cancelTimer = null;
+      update({
+        phase: "POST",
+        phaseStartedAt: now,
+        phaseEndsAt: null,
+        timestamps: { ...state.timestamps, teleopEnd: now, postMatch: now },
+      });
+      return;
+    }
+
+    const timestamps = { ...state.timestamps };
+    if (period.phase === "TRANSITION") {
+      timestamps.autoEnd = now;
+    } else if (period.phase === "TELEOP") {
+      timestamps.teleopStart = now;
+    }
+    cancelTimer = clock.schedule(period.durationMs, () => runPeriod(index + 1));
+    update({
+      phase: period.phase,
+      phaseStartedAt: now,
+      phaseEndsAt: now + period.durationMs,
+      timestamps,
+    });
+  };
+
+  const preStart = (
+    level: MatchLevel,
+    match: number,
+    playNumber: number,
+    preStartCount: number
+  ): FieldSnapshot => {
+    const now = clock.now();
+    return update({
+      level,
+      match,
+      phase: "PRE_START",
+      phaseStartedAt: now,
+      phaseEndsAt: null,
+      playNumber,
+      preStartCount,
+      timestamps: {
+        ...EMPTY_TIMESTAMPS,
+        initialPreStart: now,
+        finalPreStart: now,
+      },
+    });
+  };
+
+  return {
+    snapshot: () => state,
+    dispose: () => {
+      cancelTimer?.();
+      cancelTimer = null;
+    },
+    load: (level, match, playNumber) => {
+      if (!LOADABLE_PHASES.has(state.phase)) {
+        return failure(409, "Abort the running match before loading another.");
+      }
+      return success(preStart(level, match, playNumber, 1));
+    },
+    start: () => {
+      if (state.phase !== "PRE_START") {
+        return failure(409, "Load a match before starting it.");
+      }
+      state = {
+        ...state,
+        timestamps: { ...state.timestamps, autoStart: clock.now() },
+      };
+      runPeriod(0);
+      return success(state);
+    },
+    abort: () => {
+      if (!RUNNING_PHASES.has(state.phase)) {
+        return failure(409, "No match is running on this field.");
+      }
+      cancelTimer?.();
+      cancelTimer = null;
+      const now = clock.now();
+      return success(
+        update({
+          phase: "ABORTED",
+          phaseStartedAt: now,
+          phaseEndsAt: null,
+          timestamps: { ...state.timestamps, cancel: now },
+        })
+      );
+    },
+    replay: () => {
+      if (
+        !(state.phase === "ABORTED" || state.phase === "POST") ||
+        state.level === null ||
+        state.match === null
+      ) {
+        return failure(
+          409,
+          "Only an aborted or finished match can be replayed."
+        );
+      }
+      return success(
+        preStart(
+          state.level,
+          state.match,
+          state.playNumber + 1,
+          state.preStartCount + 1
+        )
+      );
+    },
+  };
+};
+
+interface LevelTables {
+  commitHistoryTable:
+    | typeof elimsCommitHistory
+    | typeof qualsCommitHistory
+    | null;
+  dataTable: typeof elimsData | typeof practiceData | typeof qualsData;
+  matchesTable: typeof elims | typeof practice | typeof quals;
+}
+
+const LEVEL_TABLES: Record<MatchLevel, LevelTables> = {
+  practice: {
+    commitHistoryTable: null,
+    dataTable: practiceData,
+    matchesTable: practice,
+  },
+  quals: {
+    commitHistoryTable: qualsCommitHistory,
+    dataTable: qualsData,
+    matchesTable: quals,
+  },
+  elims: {
+    commitHistoryTable: elimsCommitHistory,
+    dataTable: elimsData,
+    matchesTable: elims,
+  },
+};
+
+const FIELD_TYPE = 1;
+const EMPTY_ROW_VERSION = "00000000-0000-0000-0000-000000000000";
+const RECORDED_BY = "RMS Match Control";
+
+/**
+ * FTC Live's match table needs `auto_end_time` and `teleop_start_time` when
+ * the play starts; they stay empty until the field reaches those phases.
+ */
+const UNREACHED_PHASE_TIME = "";
+
+const toIsoTime = (value: number | null): string | null =>
+  value === null ? null : new Date(value).toISOString();
+
+type PhaseTimeColumn =
+  | "autoEndTime"
+  | "cancelMatchTime"
+  | "postMatchTime"
+  | "teleopEndTime"
+  | "teleopStartTime";
+
+/** Columns of the FMS match row set when the field enters each phase. */
+const PHASE_TIME_COLUMNS: Partial<
+  Record<
+    FieldPhase,
+    [column: PhaseTimeColumn, timestamp: keyof FieldTimestamps][]
+  >
+> = {
+  TRANSITION: [["autoEndTime", "autoEnd"]],
+  TELEOP: [["teleopStartTime", "teleopStart"]],
+  POST: [
+    ["teleopEndTime", "teleopEnd"],
+    ["postMatchTime", "postMatch"],
+  ],
+  ABORTED: [["cancelMatchTime", "cancel"]],
+};
+
+const findMatchIds = (eventDb: EventDb, level: MatchLevel, match: number) => {
+  const { dataTable, matchesTable } = LEVEL_TABLES[level];
+  return (
+    eventDb
+      .select({
+        fmsMatchId: dataTable.fmsMatchId,
+        fmsScheduleDetailId: dataTable.fmsScheduleDetailId,
+        randomization: dataTable.randomization,
+      })
+      .from(matchesTable)
+      .innerJoin(dataTable, eq(dataTable.match, matchesTable.match))
+      .where(eq(matchesTable.match, match))
+      .get() ?? null
+  );
+};
+
+const countPlays = (eventDb: EventDb, fmsMatchId: string): number => {
+  const row = eventDb
+    .select({ plays: max(fmsMatch.playNumber) })
+    .from(fmsMatch)
+    .where(eq(fmsMatch.fmsMatchId, fmsMatchId))
+    .get();
+  return row?.plays ?? 0;
+};
+
+/**
+ * Writes the snapshot's play to the data and FMS tables. Each timestamp is
+ * recorded when the field actually reaches its phase, so an aborted play
+ * keeps only the ones it got to.
+ */
+const recordFieldSnapshot = (
+  eventDb: EventDb,
+  snapshot: FieldSnapshot
+): void => {
+  const { level, match } = snapshot;
+  if (level === null || match === null) {
+    return;
+  }
+  const ids = findMatchIds(eventDb, level, match);
+  if (!ids) {
+    return;
+  }
+
+  const tables = LEVEL_TABLES[level];
+  const { timestamps } = snapshot;
+  const now = new Date().toISOString();
+
+  if (snapshot.phase === "AUTO" && timestamps.autoStart !== null) {
+    const autoStart = timestamps.autoStart;
+    const autoStartTime = toIsoTime(autoStart) ?? UNREACHED_PHASE_TIME;
+    eventDb.transaction(() => {
+      eventDb
+        .update(tables.dataTable)
+        .set({ start: autoStart })
+        .where(eq(tables.dataTable.match, match))
+        .run();
+      if (tables.commitHistoryTable) {
+        eventDb
+          .insert(tables.commitHistoryTable)
+          .values({
+            match,
+            ts: autoStart,
+            start: autoStart,
+            random: ids.randomization,
+            type: COMMIT_HISTORY_TYPE.started,
+          })
+          .run();
+      }
+      eventDb
+        .insert(fmsMatch)
+        .values({
+          fmsMatchId: ids.fmsMatchId,
+          fmsScheduleDetailId: ids.fmsScheduleDetailId,
+          playNumber: snapshot.playNumber,
+          fieldType: FIELD_TYPE,
+          initialPreStartTime: toIsoTime(timestamps.initialPreStart),
+          finalPreStartTime: toIsoTime(timestamps.finalPreStart),
+          preStartCount: snapshot.preStartCount,
+          autoStartTime,
+          autoEndTime: UNREACHED_PHASE_TIME,
+          teleopStartTime: UNREACHED_PHASE_TIME,
+          scoreKeeperCommitTime: autoStartTime,
+          redScore: 0,
+          blueScore: 0,
+          redPenalty: 0,
+          bluePenalty: 0,
+          redAutoScore: 0,
+          blueAutoScore: 0,
+          scoreDetails: "",
+          headRefReview: 0,
+          createdOn: now,
+          createdBy: RECORDED_BY,
+          modifiedOn: now,
+          modifiedBy: RECORDED_BY,
+          fmsEventId: readEventConfig(eventDb, "FMSEventId"),
+          rowVersion: EMPTY_ROW_VERSION,
+        })
+        .run();
+    });
+    return;
+  }
+
+  const columns = PHASE_TIME_COLUMNS[snapshot.phase];
+  if (columns) {
+    const phaseTimes = Object.fromEntries(
+      columns.map(([column, timestamp]) => [
+        column,
+        toIsoTime(timestamps[timestamp]) ?? UNREACHED_PHASE_TIME,
+      ])
+    );
+    eventDb
+      .update(fmsMatch)
+      .set({ ...phaseTimes, modifiedOn: now, modifiedBy: RECORDED_BY })
+      .where(
+        and(
+          eq(fmsMatch.fmsMatchId, ids.fmsMatchId),
+          eq(fmsMatch.playNumber, snapshot.playNumber)
+        )
+      )
+      .run();
+  }
+};
+
+const MATCH_LEVELS = new Set<string>(Object.keys(LEVEL_TABLES));
+
+const parseLoadPayload = (
+  payload: unknown
+): RequestResult<{ level: MatchLevel; match: number }> => {
+  const data = (payload ?? {}) as { level?: unknown; match?: unknown };
+  if (typeof data.level !== "string" || !MATCH_LEVELS.has(data.level)) {
+    return failure(400, "level must be practice, quals or elims.");
+  }
+  const match = parseMatchNumber(String(data.match ?? ""));
+  if (!match) {
+    return failure(400, "match must be a positive match number.");
+  }
+  return success({ level: data.level as MatchLevel, match });
+};
+
+type FieldCommand = "abort" | "load" | "replay" | "start";
+
+const COMMAND_LOG_TYPES: Record<FieldCommand, string> = {
+  load: "MATCH_LOADED",
+  start: "MATCH_STARTED",
+  abort: "MATCH_ABORTED",
+  replay: "MATCH_REPLAY_LOADED",
+};
+
+const toCommandMessage = (
+  command: FieldCommand,
+  snapshot: FieldSnapshot
+): EventMessage | null => {
+  if (snapshot.level === null || snapshot.match === null) {
+    return null;
+  }
+  const target = {
+    field: snapshot.field,
+    level: snapshot.level,
+    match: snapshot.match,
+  };
+  if (command === "start") {
+    return {
+      ...target,
+      type: "MATCH_STARTED",
+      startedAt: snapshot.timestamps.autoStart ?? snapshot.phaseStartedAt ?? 0,
+    };
+  }
+  return {
+    ...target,
+    type: command === "abort" ? "MATCH_ABORTED" : "MATCH_LOADED",
+  };
+};
+
+/** Messages after which an event's fields are not driven any more. */
+const CLOSING_MESSAGES = new Set<EventMessage["type"]>([
+  "EVENT_ARCHIVED",
+  "EVENT_DELETED",
+]);
+
+interface EventFields {
+  controllers: Map<number, FieldController>;
+  unsubscribe: () => void;
+}
+
+/**
+ * Scorekeeper commands for the match controllers. Controllers are created by
+ * the first command sent to a field and disposed with their timers when the
+ * event is archived or deleted; `dispose` stops the rest at shutdown.
+ */
+export const createMatchControlRoutes = (
+  { auth, channel, db, eventDatabases }: AppContext,
+  clock: MatchClock = systemClock
+) => {
+  const routes = new Hono();
+  const eventFields = new Map<string, EventFields>();
+
+  const publishSnapshot = (eventCode: string, snapshot: FieldSnapshot) => {
+    runEventDatabaseTask(eventDatabases, eventCode, (eventDb) => {
+      recordFieldSnapshot(eventDb, snapshot);
+      return success(true);
+    });
+    channel.publish(eventCode, {
+      type: "MATCH_PHASE_CHANGED",
+      field: snapshot.field,
+      snapshot,
+    });
+  };
+
+  const disposeEvent = (eventCode: string): void => {
+    const fields = eventFields.get(eventCode);
+    eventFields.delete(eventCode);
+    fields?.unsubscribe();
+    for (const controller of fields?.controllers.values() ?? []) {
+      controller.dispose();
+    }
+  };
+
+  const getEventFields = (eventCode: string): EventFields => {
+    let fields = eventFields.get(eventCode);
+    if (!fields) {
+      fields = {
+        controllers: new Map(),
+        unsubscribe: channel.subscribe(eventCode, (envelope) => {
+          if (CLOSING_MESSAGES.has(envelope.type)) {
+            disposeEvent(eventCode);
+          }
+        }),
+      };
+      eventFields.set(eventCode, fields);
+    }
+    return fields;
+  };
+
+  const getController = (eventCode: string, field: number) => {
+    const { controllers } = getEventFields(eventCode);
+    let controller = controllers.get(field);
+    if (!controller) {
+      controller = createFieldController(field, clock, (snapshot) =>
+        publishSnapshot(eventCode, snapshot)
+      );
+      controllers.set(field, controller);
+    }
+    return controller;
+  };
+
+  /** Reads a field without creating its controller. */
+  const readSnapshot = (eventCode: string, field: number): FieldSnapshot =>
+    eventFields.get(eventCode)?.controllers.get(field)?.snapshot() ??
+    createIdleSnapshot(field);
+
+  const readFieldCount = (eventCode: string): number => {
+    const result = runEventDatabaseTask(eventDatabases, eventCode, (eventDb) =>
+      success(readEventConfigInteger(eventDb, "fieldCount") ?? 1)
+    );
+    return "value" in result ? Math.max(result.value, 1) : 1;
+  };
+
+  // Snapshots are public for the same reason the live channel is: displays
+  // pick up a running clock here after a reload, without signing in.
+  routes.get("/:code/fields", (c) => {
+    const event = resolveEvent(db, c.req.param("code"));
+    if ("failure" in event) {
+      return failureResponse(c, event.failure);
+    }
+
+    const { eventCode } = event.value;
+    const fieldCount = readFieldCount(eventCode);
+    return c.json({
+      fields: Array.from({ length: fieldCount }, (_, index) =>
+        readSnapshot(eventCode, index + 1)
+      ),
+    });
+  });
+
+  const registerCommand = (
+    command: FieldCommand,
+    run: (
+      controller: FieldController,
+      eventCode: string,
+      payload: unknown
+    ) => RequestResult<FieldSnapshot>
+  ) => {
+    routes.post(
+      `/:code/fields/:field/${command}` as const,
+      requireEventRoles(auth, db, ["TSO"]),
+      async (c) => {
+        const { event, userId } = c.get("eventAccess");
+        const field = Number.parseInt(c.req.param("field"), 10);
+        if (!(field >= 1 && field <= readFieldCount(event.eventCode))) {
+          return c.json({ error: "Field not found." }, 404);
+        }
+
+        const payload = await c.req.json().catch(() => null);
+        const result = run(
+          getController(event.eventCode, field),
+          event.eventCode,
+          payload
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        const snapshot = result.value;
+        const message = toCommandMessage(command, snapshot);
+        if (message) {
+          channel.publish(event.eventCode, message);
+        }
+
+        writeEventLog(db, {
+          type: COMMAND_LOG_TYPES[command],
+          eventCode: event.eventCode,
+          info: `${snapshot.level} ${snapshot.match}`,
+          extra: { field, playNumber: snapshot.playNumber, userId },
+        });
+
+        return c.json(snapshot);
+      }
+    );
+  };
+
+  registerCommand("load", (controller, eventCode, payload) => {
+    const parsed = parseLoadPayload(payload);
+    if ("failure" in parsed) {
+      return parsed;
+    }
+    const { level, match } = parsed.value;
+    const plays = runEventDatabaseTask(eventDatabases, eventCode, (eventDb) => {
+      const ids = findMatchIds(eventDb, level, match);
+      return ids
+        ? success(countPlays(eventDb, ids.fmsMatchId))
+        : failure(404, "Match not found.");
+    });
+    if ("failure" in plays) {
+      return plays;
+    }
+    return controller.load(level, match, plays.value + 1);
+  });
+  registerCommand("start", (controller) => controller.start());
+  registerCommand("abort", (controller) => controller.abort());
+  registerCommand("replay", (controller) => controller.replay());
+
+  const dispose = (): void => {
+    for (const eventCode of [...eventFields.keys()]) {
+      disposeEvent(eventCode);
+    }
+  };
+
+  return { routes, dispose };
+};
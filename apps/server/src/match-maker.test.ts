@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  countQualificationMatches,
+  type GeneratedMatch,
+  generateQualificationMatches,
+  type MatchMakerOptions,
+} from "./match-maker";
+
+const SEED = 20_260_219;
+
+const listTeams = (count: number): number[] =>
+  Array.from({ length: count }, (_, index) => 1000 + index * 7);
+
+const options = (
+  teamCount: number,
+  overrides: Partial<MatchMakerOptions> = {}
+): MatchMakerOptions => ({
+  teams: listTeams(teamCount),
+  matchesPerTeam: 5,
+  fieldCount: 2,
+  seed: SEED,
+  ...overrides,
+});
+
+const listSlots = (match: GeneratedMatch) => [...match.red, ...match.blue];
+
+/** Matches each team plays, split into scored and surrogate appearances. */
+const countAppearances = (matches: GeneratedMatch[]) => {
+  const counts = new Map<number, { scored: number; surrogate: number }>();
+  for (const slot of matches.flatMap(listSlots)) {
+    const count = counts.get(slot.team) ?? { scored: 0, surrogate: 0 };
+    if (slot.surrogate) {
+      count.surrogate += 1;
+    } else {
+      count.scored += 1;
+    }
+    counts.set(slot.team, count);
+  }
+  return counts;
+};
+
+describe("generateQualificationMatches", () => {
+  test("builds the same schedule from the same seed", () => {
+    const first = generateQualificationMatches(options(16));
+
+    expect(generateQualificationMatches(options(16))).toEqual(first);
+    expect(
+      generateQualificationMatches(options(16, { seed: SEED + 1 }))
+    ).not.toEqual(first);
+  });
+
+  test("never puts a team in a match twice", () => {
+    for (const teamCount of [4, 5, 9, 16, 23]) {
+      const matches = generateQualificationMatches(options(teamCount));
+
+      for (const match of matches) {
+        const teams = listSlots(match).map((slot) => slot.team);
+        expect(new Set(teams).size).toBe(teams.length);
+      }
+    }
+  });
+
+  test("gives every team the requested number of scored matches", () => {
+    const matches = generateQualificationMatches(options(16));
+    const counts = countAppearances(matches);
+
+    expect(matches).toHaveLength(countQualificationMatches(16, 5));
+    expect(matches.map((match) => match.match)).toEqual(
+      matches.map((_, index) => index + 1)
+    );
+    expect([...counts.keys()].sort((a, b) => a - b)).toEqual(listTeams(16));
+    for (const count of counts.values()) {
+      expect(count).toEqual({ scored: 5, surrogate: 0 });
+    }
+  });
+
+  test("flags surrogate appearances when the teams do not divide evenly", () => {
+    // 10 teams x 5 matches = 50 slots, so 13 matches leave 2 slots over.
+    const matches = generateQualificationMatches(options(10));
+    const counts = [...countAppearances(matches).values()];
+
+    expect(matches).toHaveLength(13);
+    expect(counts.every((count) => count.scored === 5)).toBe(true);
+    expect(counts.filter((count) => count.surrogate === 1)).toHaveLength(2);
+    expect(counts.every((count) => count.surrogate <= 1)).toBe(true);
+  });
+
+  test("fills a fixed match count with surrogates", () => {
+    const matches = generateQualificationMatches(options(6, { matchCount: 4 }));
+    const counts = [...countAppearances(matches).values()];
+
+    expect(matches).toHaveLength(4);
+    expect(counts.every((count) => count.scored === 2)).toBe(true);
+    expect(counts.reduce((total, count) => total + count.surrogate, 0)).toBe(4);
+  });
+
+  test("refuses fewer teams than a match needs", () => {
+    expect(() =>
+      generateQualificationMatches(options(3, { teams: [1, 2, 3, 3] }))
+    ).toThrow("At least 4 teams are required to build a schedule.");
+  });
+});
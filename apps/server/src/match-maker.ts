@@ -0,0 +1,349 @@
+const SLOTS_PER_MATCH = 4;
+const ALLIANCE_SIZE = 2;
+const OPTIMIZATION_ITERATIONS = 20_000;
+const INITIAL_TEMPERATURE = 20;
+const FINAL_TEMPERATURE = 0.05;
+const DUPLICATE_TEAM_COST = 100_000;
+const SHORT_GAP_COST = 60;
+const PARTNER_REPEAT_COST = 25;
+const OPPONENT_REPEAT_COST = 6;
+const COLOR_IMBALANCE_COST = 2;
+/** Surrogate appearances are played as a team's third match when possible. */
+const SURROGATE_ROUND_INDEX = 2;
+const UINT32_RANGE = 4_294_967_296;
+
+export interface MatchMakerOptions {
+  fieldCount: number;
+  /** Fixed number of matches to fill; defaults to just enough for matchesPerTeam. */
+  matchCount?: number;
+  matchesPerTeam: number;
+  seed: number;
+  teams: number[];
+}
+
+export interface MatchSlot {
+  surrogate: boolean;
+  team: number;
+}
+
+export interface GeneratedMatch {
+  blue: [MatchSlot, MatchSlot];
+  match: number;
+  red: [MatchSlot, MatchSlot];
+}
+
+interface Appearance {
+  surrogate: boolean;
+  teamIndex: number;
+}
+
+interface RoundRange {
+  end: number;
+  start: number;
+}
+
+type RandomSource = () => number;
+
+/** Mulberry32: small, fast and fully determined by the 32-bit seed. */
+// biome-ignore-start lint/suspicious/noBitwiseOperators: 32-bit integer mixing is the algorithm
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d_2b_79_f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / UINT32_RANGE;
+  };
+};
+// biome-ignore-end lint/suspicious/noBitwiseOperators: 32-bit integer mixing is the algorithm
+
+export const createMatchMakerSeed = (): number =>
+  Math.floor(Math.random() * UINT32_RANGE);
+
+const randomIndex = (random: RandomSource, length: number): number =>
+  Math.floor(random() * length);
+
+const shuffle = <TValue>(values: TValue[], random: RandomSource): TValue[] => {
+  const shuffled = [...values];
+  for (let index = shuffled.length - 1; index > 0; index -= 1) {
+    const swapIndex = randomIndex(random, index + 1);
+    const current = shuffled[index] as TValue;
+    shuffled[index] = shuffled[swapIndex] as TValue;
+    shuffled[swapIndex] = current;
+  }
+  return shuffled;
+};
+
+export const countQualificationMatches = (
+  teamCount: number,
+  matchesPerTeam: number
+): number => Math.ceil((teamCount * matchesPerTeam) / SLOTS_PER_MATCH);
+
+/**
+ * Smallest number of matches a team should sit out between appearances:
+ * enough to walk to another field, but never more than a round allows.
+ */
+const resolveMinimumGap = (teamCount: number, fieldCount: number): number => {
+  const matchesPerRound = Math.floor(teamCount / SLOTS_PER_MATCH);
+  const desiredGap = Math.max(fieldCount, Math.ceil(matchesPerRound / 2), 1);
+  return Math.min(desiredGap, Math.max(1, matchesPerRound - 1));
+};
+
+const buildInitialAppearances = (
+  teamCount: number,
+  matchCount: number,
+  random: RandomSource
+): { appearances: Appearance[]; rounds: RoundRange[] } => {
+  const teamIndexes = Array.from({ length: teamCount }, (_, index) => index);
+  const totalSlots = matchCount * SLOTS_PER_MATCH;
+  const matchesPerTeam = Math.floor(totalSlots / teamCount);
+  const surrogateCount = totalSlots - teamCount * matchesPerTeam;
+  const surrogateTeams = shuffle(teamIndexes, random).slice(0, surrogateCount);
+  const surrogateRound = Math.min(SURROGATE_ROUND_INDEX, matchesPerTeam);
+
+  const appearances: Appearance[] = [];
+  const rounds: RoundRange[] = [];
+  const pushRound = (round: Appearance[]): void => {
+    rounds.push({
+      start: appearances.length,
+      end: appearances.length + round.length,
+    });
+    appearances.push(...round);
+  };
+
+  for (let round = 0; round < matchesPerTeam; round += 1) {
+    if (round === surrogateRound && surrogateTeams.length > 0) {
+      pushRound(
+        surrogateTeams.map((teamIndex) => ({ teamIndex, surrogate: true }))
+      );
+    }
+    pushRound(
+      shuffle(teamIndexes, random).map((teamIndex) => ({
+        teamIndex,
+        surrogate: false,
+      }))
+    );
+  }
+  if (surrogateRound === matchesPerTeam && surrogateTeams.length > 0) {
+    pushRound(
+      surrogateTeams.map((teamIndex) => ({ teamIndex, surrogate: true }))
+    );
+  }
+
+  return { appearances, rounds };
+};
+
+const countPair = (
+  counts: Uint16Array,
+  teamCount: number,
+  first: number,
+  second: number
+): number => {
+  const key =
+    first < second ? first * teamCount + second : second * teamCount + first;
+  counts[key] = (counts[key] ?? 0) + 1;
+  return counts[key] ?? 0;
+};
+
+const teamAt = (appearances: Appearance[], position: number): number =>
+  appearances[position]?.teamIndex ?? -1;
+
+const scoreMatchPairs = (
+  appearances: Appearance[],
+  offset: number,
+  teamCount: number,
+  partners: Uint16Array,
+  opponents: Uint16Array
+): number => {
+  const teams = [0, 1, 2, 3].map((slot) => teamAt(appearances, offset + slot));
+  let cost = 0;
+  for (let first = 0; first < SLOTS_PER_MATCH; first += 1) {
+    for (let second = first + 1; second < SLOTS_PER_MATCH; second += 1) {
+      const firstTeam = teams[first] ?? -1;
+      const secondTeam = teams[second] ?? -1;
+      if (firstTeam === secondTeam) {
+        cost += DUPLICATE_TEAM_COST;
+        continue;
+      }
+      const sameAlliance =
+        Math.floor(first / ALLIANCE_SIZE) ===
+        Math.floor(second / ALLIANCE_SIZE);
+      const repeats = sameAlliance
+        ? countPair(partners, teamCount, firstTeam, secondTeam)
+        : countPair(opponents, teamCount, firstTeam, secondTeam);
+      cost +=
+        (repeats - 1) *
+        (sameAlliance ? PARTNER_REPEAT_COST : OPPONENT_REPEAT_COST);
+    }
+  }
+  return cost;
+};
+
+const scoreSchedule = (
+  appearances: Appearance[],
+  teamCount: number,
+  minimumGap: number
+): number => {
+  const partners = new Uint16Array(teamCount * teamCount);
+  const opponents = new Uint16Array(teamCount * teamCount);
+  const lastMatch = new Int32Array(teamCount).fill(-1);
+  const colorBalance = new Int32Array(teamCount);
+  let cost = 0;
+
+  for (let offset = 0; offset < appearances.length; offset += SLOTS_PER_MATCH) {
+    const matchIndex = offset / SLOTS_PER_MATCH;
+    cost += scoreMatchPairs(
+      appearances,
+      offset,
+      teamCount,
+      partners,
+      opponents
+    );
+
+    for (let slot = 0; slot < SLOTS_PER_MATCH; slot += 1) {
+      const teamIndex = teamAt(appearances, offset + slot);
+      const previousMatch = lastMatch[teamIndex] ?? -1;
+      const gap = matchIndex - previousMatch;
+      if (previousMatch >= 0 && gap > 0 && gap <= minimumGap) {
+        cost += SHORT_GAP_COST * (minimumGap - gap + 1) ** 2;
+      }
+      lastMatch[teamIndex] = matchIndex;
+      colorBalance[teamIndex] =
+        (colorBalance[teamIndex] ?? 0) + (slot < ALLIANCE_SIZE ? 1 : -1);
+    }
+  }
+
+  for (const balance of colorBalance) {
+    cost += COLOR_IMBALANCE_COST * balance * balance;
+  }
+
+  return cost;
+};
+
+const swapAppearances = (
+  appearances: Appearance[],
+  first: number,
+  second: number
+): void => {
+  const current = appearances[first] as Appearance;
+  appearances[first] = appearances[second] as Appearance;
+  appearances[second] = current;
+};
+
+const pickSwap = (
+  rounds: RoundRange[],
+  random: RandomSource
+): [number, number] | null => {
+  const round = rounds[randomIndex(random, rounds.length)];
+  if (!round || round.end - round.start < 2) {
+    return null;
+  }
+  const length = round.end - round.start;
+  const first = round.start + randomIndex(random, length);
+  const second = round.start + randomIndex(random, length);
+  return first === second ? null : [first, second];
+};
+
+/**
+ * Simulated annealing over swaps inside a round, so every team keeps exactly
+ * one appearance per round while partners, opponents, spacing and red/blue
+ * balance improve. The iteration count is fixed to keep runs reproducible.
+ */
+const optimizeAppearances = (
+  appearances: Appearance[],
+  rounds: RoundRange[],
+  teamCount: number,
+  minimumGap: number,
+  random: RandomSource
+): void => {
+  let currentCost = scoreSchedule(appearances, teamCount, minimumGap);
+  const cooling =
+    (FINAL_TEMPERATURE / INITIAL_TEMPERATURE) ** (1 / OPTIMIZATION_ITERATIONS);
+  let temperature = INITIAL_TEMPERATURE;
+
+  for (
+    let iteration = 0;
+    iteration < OPTIMIZATION_ITERATIONS && currentCost > 0;
+    iteration += 1
+  ) {
+    temperature *= cooling;
+    const swap = pickSwap(rounds, random);
+    if (!swap) {
+      continue;
+    }
+
+    swapAppearances(appearances, swap[0], swap[1]);
+    const candidateCost = scoreSchedule(appearances, teamCount, minimumGap);
+    const delta = candidateCost - currentCost;
+    if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+      currentCost = candidateCost;
+    } else {
+      swapAppearances(appearances, swap[0], swap[1]);
+    }
+  }
+};
+
+const toMatchSlot = (
+  appearances: Appearance[],
+  position: number,
+  teams: number[]
+): MatchSlot => {
+  const appearance = appearances[position] as Appearance;
+  return {
+    team: teams[appearance.teamIndex] as number,
+    surrogate: appearance.surrogate,
+  };
+};
+
+/**
+ * Builds a balanced 2v2 qualification schedule. The same team list, options
+ * and seed always produce the same schedule.
+ */
+export const generateQualificationMatches = (
+  options: MatchMakerOptions
+): GeneratedMatch[] => {
+  const teams = [...new Set(options.teams)].sort((a, b) => a - b);
+  if (teams.length < SLOTS_PER_MATCH) {
+    throw new Error(
+      `At least ${SLOTS_PER_MATCH} teams are required to build a schedule.`
+    );
+  }
+
+  const matchCount =
+    options.matchCount ??
+    countQualificationMatches(teams.length, options.matchesPerTeam);
+  if (matchCount < 1) {
+    throw new Error("At least one match is required to build a schedule.");
+  }
+
+  const random = createSeededRandom(options.seed);
+  const { appearances, rounds } = buildInitialAppearances(
+    teams.length,
+    matchCount,
+    random
+  );
+  optimizeAppearances(
+    appearances,
+    rounds,
+    teams.length,
+    resolveMinimumGap(teams.length, options.fieldCount),
+    random
+  );
+
+  const matches: GeneratedMatch[] = [];
+  for (let offset = 0; offset < appearances.length; offset += SLOTS_PER_MATCH) {
+    matches.push({
+      match: matches.length + 1,
+      red: [
+        toMatchSlot(appearances, offset, teams),
+        toMatchSlot(appearances, offset + 1, teams),
+      ],
+      blue: [
+        toMatchSlot(appearances, offset + 2, teams),
+        toMatchSlot(appearances, offset + 3, teams),
+      ],
+    });
+  }
+  return matches;
+};
@@ -0,0 +1,857 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  practice,
+  practiceData,
+  quals,
+  qualsData,
+  qualsResults,
+} from "@rms-local/db/schema/event-db/matches";
+import {
+  blocks as blockTable,
+  matchSchedule,
+  practiceBlocks,
+  practiceMatchSchedule,
+} from "@rms-local/db/schema/event-db/schedule";
+import { asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+
+import { EVENT_ROLES } from "./authorization";
+import type { AppContext } from "./context";
+import { readEventConfigInteger, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import {
+  CHECKIN_FORM_ID,
+  INSPECTION_STATUS,
+  readTeamStatus,
+} from "./inspection";
+import {
+  createMatchMakerSeed,
+  type GeneratedMatch,
+  generateQualificationMatches,
+  type MatchSlot,
+} from "./match-maker";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  resolveErrorMessage,
+  success,
+} from "./request-result";
+import { listCompetingTeamNumbers } from "./teams";
+
+const MATCH_BLOCK_TYPE = "MATCH";
+const BLOCK_TYPE_PATTERN = /^[A-Z_]+$/;
+const MILLISECONDS_PER_SECOND = 1000;
+const DEFAULT_MATCHES_PER_TEAM = 5;
+const DEFAULT_FIELD_COUNT = 1;
+const TEAMS_PER_MATCH = 4;
+const MAX_MATCHES_PER_TEAM = 20;
+const MAX_FIELD_COUNT = 8;
+const MAX_SEED = 4_294_967_295;
+
+/** `type` values written to the *_match_schedule tables. */
+export const SCHEDULE_ENTRY_TYPE = {
+  match: 0,
+  break: 1,
+} as const;
+
+/** `status` values of the *_data tables. */
+export const MATCH_STATUS = {
+  scheduled: 0,
+  committed: 6,
+} as const;
+
+const UNSET_TIMESTAMP = -1;
+const UNSET_RANDOMIZATION = -1;
+
+export interface ScheduleBlock {
+  cycleTime: number;
+  end: number;
+  label: string | null;
+  start: number;
+  type: string;
+}
+
+export interface ScheduleMatch {
+  blue: [MatchSlot, MatchSlot];
+  label: string;
+  match: number;
+  red: [MatchSlot, MatchSlot];
+  scheduleStart: number;
+  /** When the field started the match, or -1 while it has not been played. */
+  start: number;
+  status: number;
+}
+
+interface ScheduleEntry {
+  end: number;
+  label: string;
+  start: number;
+  type: number;
+}
+
+/** Tables and config names for one tournament level that uses the match maker. */
+export interface ScheduleKind {
+  blocksTable: typeof blockTable | typeof practiceBlocks;
+  configKeys: {
+    matchesPerTeam: string;
+    runTime: string;
+    seed: string;
+  };
+  dataTable: typeof practiceData | typeof qualsData;
+  /**
+   * Practice fills every slot of its blocks and may leave teams out, so extra
+   * appearances are plain practice rather than surrogates.
+   */
+  fillsBlocks: boolean;
+  label: string;
+  logPrefix: string;
+  matchesTable: typeof practice | typeof quals;
+  path: string;
+  resultsTable: typeof qualsResults | null;
+  scheduleTable: typeof matchSchedule | typeof practiceMatchSchedule;
+}
+
+export const QUALIFICATION_SCHEDULE: ScheduleKind = {
+  blocksTable: blockTable,
+  configKeys: {
+    matchesPerTeam: "matchesPerTeam",
+    runTime: "matchMakerRunTime",
+    seed: "matchMakerSeed",
+  },
+  dataTable: qualsData,
+  fillsBlocks: false,
+  label: "Qualification",
+  logPrefix: "QUALS",
+  matchesTable: quals,
+  path: "quals",
+  resultsTable: qualsResults,
+  scheduleTable: matchSchedule,
+};
+
+export const PRACTICE_SCHEDULE: ScheduleKind = {
+  blocksTable: practiceBlocks,
+  configKeys: {
+    matchesPerTeam: "practiceMatchesPerTeam",
+    runTime: "practiceMatchMakerRunTime",
+    seed: "practiceMatchMakerSeed",
+  },
+  dataTable: practiceData,
+  fillsBlocks: true,
+  label: "Practice",
+  logPrefix: "PRACTICE",
+  matchesTable: practice,
+  path: "practice",
+  resultsTable: null,
+  scheduleTable: practiceMatchSchedule,
+};
+
+interface GenerateScheduleOptions {
+  excludedTeams: number[];
+  fieldCount: number;
+  matchesPerTeam: number;
+  seed: number;
+}
+
+export const listScheduleBlocks = (
+  eventDb: EventDb,
+  kind: ScheduleKind
+): ScheduleBlock[] => {
+  const table = kind.blocksTable;
+  return eventDb
+    .select({
+      start: table.start,
+      end: table.end,
+      type: table.type,
+      cycleTime: table.cycleTime,
+      label: table.label,
+    })
+    .from(table)
+    .orderBy(asc(table.start))
+    .all();
+};
+
+const toMatchSlot = (team: number, surrogate: number): MatchSlot => ({
+  team,
+  surrogate: surrogate === 1,
+});
+
+export const listScheduleMatches = (
+  eventDb: EventDb,
+  kind: ScheduleKind
+): ScheduleMatch[] => {
+  const { dataTable: data, matchesTable: matches } = kind;
+  const rows = eventDb
+    .select({
+      match: matches.match,
+      red1: matches.red1,
+      red1s: matches.red1s,
+      red2: matches.red2,
+      red2s: matches.red2s,
+      blue1: matches.blue1,
+      blue1s: matches.blue1s,
+      blue2: matches.blue2,
+      blue2s: matches.blue2s,
+      status: data.status,
+      start: data.start,
+      scheduleStart: data.scheduleStart,
+    })
+    .from(matches)
+    .leftJoin(data, eq(data.match, matches.match))
+    .orderBy(asc(matches.match))
+    .all();
+  return rows.map((row) => ({
+    match: row.match,
+    label: `${kind.label} ${row.match}`,
+    scheduleStart: row.scheduleStart ?? UNSET_TIMESTAMP,
+    start: row.start ?? UNSET_TIMESTAMP,
+    status: row.status ?? MATCH_STATUS.scheduled,
+    red: [toMatchSlot(row.red1, row.red1s), toMatchSlot(row.red2, row.red2s)],
+    blue: [
+      toMatchSlot(row.blue1, row.blue1s),
+      toMatchSlot(row.blue2, row.blue2s),
+    ],
+  }));
+};
+
+export interface MatchEstimate extends ScheduleMatch {
+  estimatedStart: number;
+}
+
+export interface ScheduleProgress {
+  /**
+   * How far the next match's estimate is past its scheduled start, in
+   * milliseconds. Negative when the event is running ahead.
+   */
+  offset: number;
+  remaining: MatchEstimate[];
+}
+
+export const isMatchPlayed = (match: ScheduleMatch): boolean =>
+  match.start !== UNSET_TIMESTAMP || match.status === MATCH_STATUS.committed;
+
+export const findMatchBlock = (
+  blocks: ScheduleBlock[],
+  time: number
+): ScheduleBlock | null =>
+  blocks.find(
+    (block) =>
+      block.type === MATCH_BLOCK_TYPE && block.start <= time && time < block.end
+  ) ?? null;
+
+/**
+ * Estimates when the unplayed matches will start. Matches follow the last
+ * started one at their block's cycle time, so a late or early field carries
+ * through the block; a new block never starts before its scheduled time
+ * because breaks such as lunch do not move earlier.
+ */
+export const estimateRemainingMatches = (
+  matches: ScheduleMatch[],
+  blocks: ScheduleBlock[],
+  now: number
+): ScheduleProgress => {
+  const last = matches
+    .filter((match) => match.start !== UNSET_TIMESTAMP)
+    .at(-1);
+  let cursor = last?.start ?? null;
+  let cursorBlock = last ? findMatchBlock(blocks, last.scheduleStart) : null;
+
+  const remaining: MatchEstimate[] = [];
+  for (const match of matches) {
+    if (isMatchPlayed(match)) {
+      continue;
+    }
+
+    const block = findMatchBlock(blocks, match.scheduleStart);
+    let estimatedStart = match.scheduleStart;
+    if (cursor !== null) {
+      estimatedStart =
+        cursor + (cursorBlock?.cycleTime ?? 0) * MILLISECONDS_PER_SECOND;
+      if (block !== cursorBlock) {
+        estimatedStart = Math.max(estimatedStart, match.scheduleStart);
+      }
+    }
+    if (remaining.length === 0) {
+      estimatedStart = Math.max(estimatedStart, now);
+    }
+
+    remaining.push({ ...match, estimatedStart });
+    cursor = estimatedStart;
+    cursorBlock = block;
+  }
+
+  const next = remaining[0];
+  return {
+    offset: next ? next.estimatedStart - next.scheduleStart : 0,
+    remaining,
+  };
+};
+
+const parseScheduleBlock = (
+  value: unknown,
+  index: number
+): RequestResult<ScheduleBlock> => {
+  if (!value || typeof value !== "object") {
+    return failure(400, `blocks[${index}] must be an object.`);
+  }
+
+  const data = value as Record<string, unknown>;
+  const type = typeof data.type === "string" ? data.type : MATCH_BLOCK_TYPE;
+  if (!BLOCK_TYPE_PATTERN.test(type)) {
+    return failure(400, `blocks[${index}].type must be an upper-case name.`);
+  }
+  if (
+    !(Number.isInteger(data.start) && Number.isInteger(data.end)) ||
+    (data.end as number) <= (data.start as number)
+  ) {
+    return failure(400, `blocks[${index}] must end after it starts.`);
+  }
+
+  const cycleTime = data.cycleTime ?? 0;
+  if (
+    typeof cycleTime !== "number" ||
+    !Number.isInteger(cycleTime) ||
+    cycleTime < 0 ||
+    (type === MATCH_BLOCK_TYPE && cycleTime === 0)
+  ) {
+    return failure(
+      400,
+      `blocks[${index}].cycleTime must be a positive number of seconds.`
+    );
+  }
+
+  const label =
+    typeof data.label === "string" && data.label.trim().length > 0
+      ? data.label.trim()
+      : null;
+
+  return success({
+    start: data.start as number,
+    end: data.end as number,
+    type,
+    cycleTime,
+    label,
+  });
+};
+
+export const parseScheduleBlocksPayload = (
+  payload: unknown
+): RequestResult<ScheduleBlock[]> => {
+  const blocks = (payload as { blocks?: unknown } | null)?.blocks;
+  if (!Array.isArray(blocks)) {
+    return failure(400, "blocks must be an array.");
+  }
+
+  const parsed: ScheduleBlock[] = [];
+  for (const [index, value] of blocks.entries()) {
+    const result = parseScheduleBlock(value, index);
+    if ("failure" in result) {
+      return result;
+    }
+    parsed.push(result.value);
+  }
+
+  parsed.sort((a, b) => a.start - b.start);
+  for (let index = 1; index < parsed.length; index += 1) {
+    const previous = parsed[index - 1] as ScheduleBlock;
+    const current = parsed[index] as ScheduleBlock;
+    if (current.start < previous.end) {
+      return failure(400, "blocks must not overlap.");
+    }
+  }
+
+  return success(parsed);
+};
+
+export const replaceScheduleBlocks = (
+  eventDb: EventDb,
+  kind: ScheduleKind,
+  blocks: ScheduleBlock[]
+): void => {
+  eventDb.transaction(() => {
+    eventDb.delete(kind.blocksTable).run();
+    if (blocks.length > 0) {
+      eventDb.insert(kind.blocksTable).values(blocks).run();
+    }
+  });
+};
+
+export const countBlockMatchSlots = (block: ScheduleBlock): number =>
+  block.type === MATCH_BLOCK_TYPE
+    ? Math.floor(
+        (block.end - block.start) / (block.cycleTime * MILLISECONDS_PER_SECOND)
+      )
+    : 0;
+
+/**
+ * Lays matches out back to back inside the MATCH blocks and keeps every other
+ * block as a break entry. Returns null when the blocks cannot fit them all.
+ */
+export const buildScheduleEntries = (
+  blocks: ScheduleBlock[],
+  matchCount: number,
+  label: string
+): ScheduleEntry[] | null => {
+  const entries: ScheduleEntry[] = [];
+  let scheduled = 0;
+
+  for (const block of blocks) {
+    if (block.type !== MATCH_BLOCK_TYPE) {
+      entries.push({
+        start: block.start,
+        end: block.end,
+        type: SCHEDULE_ENTRY_TYPE.break,
+        label: block.label ?? block.type,
+      });
+      continue;
+    }
+
+    const cycle = block.cycleTime * MILLISECONDS_PER_SECOND;
+    const slots = Math.min(countBlockMatchSlots(block), matchCount - scheduled);
+    for (let slot = 0; slot < slots; slot += 1) {
+      scheduled += 1;
+      const start = block.start + slot * cycle;
+      entries.push({
+        start,
+        end: start + cycle,
+        type: SCHEDULE_ENTRY_TYPE.match,
+        label: `${label} ${scheduled}`,
+      });
+    }
+  }
+
+  return scheduled === matchCount ? entries : null;
+};
+
+const hasCommittedResults = (eventDb: EventDb, kind: ScheduleKind): boolean =>
+  kind.resultsTable !== null &&
+  Boolean(
+    eventDb
+      .select({ match: kind.resultsTable.match })
+      .from(kind.resultsTable)
+      .get()
+  );
+
+export const persistGeneratedSchedule = (
+  eventDb: EventDb,
+  kind: ScheduleKind,
+  matches: GeneratedMatch[],
+  entries: ScheduleEntry[]
+): void => {
+  const matchStarts = entries
+    .filter((entry) => entry.type === SCHEDULE_ENTRY_TYPE.match)
+    .map((entry) => entry.start);
+
+  eventDb.transaction(() => {
+    eventDb.delete(kind.matchesTable).run();
+    eventDb.delete(kind.dataTable).run();
+    eventDb.delete(kind.scheduleTable).run();
+
+    for (const [index, match] of matches.entries()) {
+      const [red1, red2] = match.red;
+      const [blue1, blue2] = match.blue;
+      eventDb
+        .insert(kind.matchesTable)
+        .values({
+          match: match.match,
+          red1: red1.team,
+          red1s: red1.surrogate ? 1 : 0,
+          red2: red2.team,
+          red2s: red2.surrogate ? 1 : 0,
+          blue1: blue1.team,
+          blue1s: blue1.surrogate ? 1 : 0,
+          blue2: blue2.team,
+          blue2s: blue2.surrogate ? 1 : 0,
+        })
+        .run();
+      eventDb
+        .insert(kind.dataTable)
+        .values({
+          match: match.match,
+          status: MATCH_STATUS.scheduled,
+          randomization: UNSET_RANDOMIZATION,
+          start: UNSET_TIMESTAMP,
+          scheduleStart: matchStarts[index] ?? UNSET_TIMESTAMP,
+          postedTime: UNSET_TIMESTAMP,
+          fmsMatchId: crypto.randomUUID(),
+          fmsScheduleDetailId: crypto.randomUUID(),
+        })
+        .run();
+    }
+
+    if (entries.length > 0) {
+      eventDb.insert(kind.scheduleTable).values(entries).run();
+    }
+  });
+};
+
+export const clearSchedule = (
+  eventDb: EventDb,
+  kind: ScheduleKind
+): RequestResult<number> => {
+  if (hasCommittedResults(eventDb, kind)) {
+    return failure(
+      409,
+      `${kind.label} results are already committed; the schedule is locked.`
+    );
+  }
+
+  const removed = eventDb.transaction(() => {
+    const removedMatches = eventDb
+      .delete(kind.matchesTable)
+      .returning({ match: kind.matchesTable.match })
+      .all();
+    eventDb.delete(kind.dataTable).run();
+    eventDb.delete(kind.scheduleTable).run();
+    return removedMatches.length;
+  });
+  return success(removed);
+};
+
+const parseBoundedInteger = (
+  value: unknown,
+  fallback: number,
+  minimum: number,
+  maximum: number
+): number | null => {
+  const candidate = value ?? fallback;
+  if (
+    typeof candidate !== "number" ||
+    !Number.isInteger(candidate) ||
+    candidate < minimum ||
+    candidate > maximum
+  ) {
+    return null;
+  }
+  return candidate;
+};
+
+const parseExcludedTeams = (
+  value: unknown,
+  kind: ScheduleKind,
+  defaultTeams: number[]
+): RequestResult<number[]> => {
+  if (value === undefined) {
+    return success(defaultTeams);
+  }
+  if (!kind.fillsBlocks) {
+    return failure(
+      400,
+      `Teams cannot be left out of the ${kind.label.toLowerCase()} schedule.`
+    );
+  }
+  if (
+    !(
+      Array.isArray(value) &&
+      value.every((team) => Number.isInteger(team) && team > 0)
+    )
+  ) {
+    return failure(400, "excludedTeams must be an array of team numbers.");
+  }
+  return success(value as number[]);
+};
+
+const parseGenerateSchedulePayload = (
+  payload: unknown,
+  kind: ScheduleKind,
+  defaults: GenerateScheduleOptions
+): RequestResult<GenerateScheduleOptions> => {
+  const data = (
+    payload && typeof payload === "object" ? payload : {}
+  ) as Record<string, unknown>;
+
+  const matchesPerTeam = parseBoundedInteger(
+    data.matchesPerTeam,
+    defaults.matchesPerTeam,
+    1,
+    MAX_MATCHES_PER_TEAM
+  );
+  if (!matchesPerTeam) {
+    return failure(
+      400,
+      `matchesPerTeam must be an integer between 1 and ${MAX_MATCHES_PER_TEAM}.`
+    );
+  }
+
+  const fieldCount = parseBoundedInteger(
+    data.fieldCount,
+    defaults.fieldCount,
+    1,
+    MAX_FIELD_COUNT
+  );
+  if (!fieldCount) {
+    return failure(
+      400,
+      `fieldCount must be an integer between 1 and ${MAX_FIELD_COUNT}.`
+    );
+  }
+
+  const seed = parseBoundedInteger(data.seed, defaults.seed, 0, MAX_SEED);
+  if (seed === null) {
+    return failure(400, `seed must be an integer between 0 and ${MAX_SEED}.`);
+  }
+
+  const excludedTeams = parseExcludedTeams(
+    data.excludedTeams,
+    kind,
+    defaults.excludedTeams
+  );
+  if ("failure" in excludedTeams) {
+    return excludedTeams;
+  }
+
+  return success({
+    excludedTeams: excludedTeams.value,
+    matchesPerTeam,
+    fieldCount,
+    seed,
+  });
+};
+
+const listTeamsNotCheckedIn = (eventDb: EventDb): number[] =>
+  listCompetingTeamNumbers(eventDb).filter(
+    (team) =>
+      readTeamStatus(eventDb, team, CHECKIN_FORM_ID) !==
+      INSPECTION_STATUS.passed
+  );
+
+/** Practice leaves out teams that have not checked in unless told otherwise. */
+export const readScheduleDefaults = (
+  eventDb: EventDb,
+  kind: ScheduleKind
+): GenerateScheduleOptions => ({
+  excludedTeams: kind.fillsBlocks ? listTeamsNotCheckedIn(eventDb) : [],
+  matchesPerTeam:
+    readEventConfigInteger(eventDb, kind.configKeys.matchesPerTeam) ??
+    DEFAULT_MATCHES_PER_TEAM,
+  fieldCount:
+    readEventConfigInteger(eventDb, "fieldCount") ?? DEFAULT_FIELD_COUNT,
+  seed: createMatchMakerSeed(),
+});
+
+const withoutSurrogates = (match: GeneratedMatch): GeneratedMatch => ({
+  ...match,
+  red: [
+    { ...match.red[0], surrogate: false },
+    { ...match.red[1], surrogate: false },
+  ],
+  blue: [
+    { ...match.blue[0], surrogate: false },
+    { ...match.blue[1], surrogate: false },
+  ],
+});
+
+/**
+ * Runs the match maker for `teams` and replaces the stored schedule of the
+ * given kind. Config keys record the inputs so the run can be reproduced.
+ */
+export const generateSchedule = (
+  eventDb: EventDb,
+  kind: ScheduleKind,
+  teams: number[],
+  options: GenerateScheduleOptions
+): RequestResult<{ matches: ScheduleMatch[]; matchesPerTeam: number }> => {
+  if (hasCommittedResults(eventDb, kind)) {
+    return failure(
+      409,
+      `${kind.label} results are already committed; the schedule is locked.`
+    );
+  }
+
+  const excluded = new Set(options.excludedTeams);
+  const scheduledTeams = teams.filter((team) => !excluded.has(team));
+  const blocks = listScheduleBlocks(eventDb, kind);
+  const matchCount = kind.fillsBlocks
+    ? blocks.reduce((total, block) => total + countBlockMatchSlots(block), 0)
+    : undefined;
+  if (matchCount === 0) {
+    return failure(400, `${kind.label} blocks have no room for matches.`);
+  }
+
+  let matches: GeneratedMatch[];
+  try {
+    matches = generateQualificationMatches({
+      fieldCount: options.fieldCount,
+      matchCount,
+      matchesPerTeam: options.matchesPerTeam,
+      seed: options.seed,
+      teams: scheduledTeams,
+    });
+  } catch (error) {
+    return failure(400, resolveErrorMessage(error));
+  }
+  if (kind.fillsBlocks) {
+    matches = matches.map(withoutSurrogates);
+  }
+
+  const entries = buildScheduleEntries(blocks, matches.length, kind.label);
+  if (!entries) {
+    return failure(
+      400,
+      `Schedule blocks do not have room for ${matches.length} matches.`
+    );
+  }
+
+  const matchesPerTeam = kind.fillsBlocks
+    ? Math.floor((matches.length * TEAMS_PER_MATCH) / scheduledTeams.length)
+    : options.matchesPerTeam;
+
+  persistGeneratedSchedule(eventDb, kind, matches, entries);
+  writeEventConfig(
+    eventDb,
+    kind.configKeys.matchesPerTeam,
+    String(matchesPerTeam)
+  );
+  writeEventConfig(eventDb, kind.configKeys.seed, String(options.seed));
+  writeEventConfig(eventDb, kind.configKeys.runTime, String(Date.now()));
+  writeEventConfig(eventDb, "fieldCount", String(options.fieldCount));
+
+  return success({
+    matches: listScheduleMatches(eventDb, kind),
+    matchesPerTeam,
+  });
+};
+
+const readScheduleSummary = (eventDb: EventDb, kind: ScheduleKind) => ({
+  blocks: listScheduleBlocks(eventDb, kind),
+  matches: listScheduleMatches(eventDb, kind),
+  matchesPerTeam: readEventConfigInteger(
+    eventDb,
+    kind.configKeys.matchesPerTeam
+  ),
+  seed: readEventConfigInteger(eventDb, kind.configKeys.seed),
+  runTime: readEventConfigInteger(eventDb, kind.configKeys.runTime),
+  fieldCount: readEventConfigInteger(eventDb, "fieldCount"),
+});
+
+const registerScheduleRoutes = (
+  routes: Hono,
+  { auth, db, eventDatabases }: AppContext,
+  kind: ScheduleKind
+): void => {
+  const schedulePath = `/:code/schedule/${kind.path}` as const;
+
+  routes.get(schedulePath, requireEventRoles(auth, db, EVENT_ROLES), (c) => {
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      c.get("eventAccess").event.eventCode,
+      (eventDb) => success(readScheduleSummary(eventDb, kind))
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json(result.value);
+  });
+
+  routes.put(
+    `${schedulePath}/blocks`,
+    requireEventRoles(auth, db, ["TSO"]),
+    async (c) => {
+      const parsed = parseScheduleBlocksPayload(
+        await c.req.json().catch(() => null)
+      );
+      if ("failure" in parsed) {
+        return failureResponse(c, parsed.failure);
+      }
+
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          replaceScheduleBlocks(eventDb, kind, parsed.value);
+          return success(listScheduleBlocks(eventDb, kind));
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: `${kind.logPrefix}_BLOCKS_UPDATED`,
+        eventCode: event.eventCode,
+        info: String(parsed.value.length),
+        extra: { userId },
+      });
+
+      return c.json({ blocks: result.value });
+    }
+  );
+
+  routes.post(schedulePath, requireEventRoles(auth, db, ["TSO"]), async (c) => {
+    const payload = await c.req.json().catch(() => null);
+    const { event, userId } = c.get("eventAccess");
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.eventCode,
+      (eventDb) => {
+        const options = parseGenerateSchedulePayload(
+          payload,
+          kind,
+          readScheduleDefaults(eventDb, kind)
+        );
+        if ("failure" in options) {
+          return options;
+        }
+        const generated = generateSchedule(
+          eventDb,
+          kind,
+          listCompetingTeamNumbers(eventDb),
+          options.value
+        );
+        if ("failure" in generated) {
+          return generated;
+        }
+        return success({ ...options.value, ...generated.value });
+      }
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    writeEventLog(db, {
+      type: `${kind.logPrefix}_SCHEDULE_GENERATED`,
+      eventCode: event.eventCode,
+      info: String(result.value.matches.length),
+      extra: {
+        excludedTeams: result.value.excludedTeams,
+        fieldCount: result.value.fieldCount,
+        matchesPerTeam: result.value.matchesPerTeam,
+        seed: result.value.seed,
+        userId,
+      },
+    });
+
+    return c.json(result.value, 201);
+  });
+
+  routes.delete(schedulePath, requireEventRoles(auth, db, ["TSO"]), (c) => {
+    const { event, userId } = c.get("eventAccess");
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.eventCode,
+      (eventDb) => clearSchedule(eventDb, kind)
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    writeEventLog(db, {
+      type: `${kind.logPrefix}_SCHEDULE_CLEARED`,
+      eventCode: event.eventCode,
+      info: String(result.value),
+      extra: { userId },
+    });
+
+    return c.json({ removed: result.value });
+  });
+};
+
+export const createScheduleRoutes = (context: AppContext) => {
+  const routes = new Hono();
+  registerScheduleRoutes(routes, context, QUALIFICATION_SCHEDULE);
+  registerScheduleRoutes(routes, context, PRACTICE_SCHEDULE);
+  return routes;
+};
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+import { elimsData, elimsResults } from "@rms-local/db/schema/event-db/matches";
+import {
+  type AllianceScoreSheet,
+  validateAllianceScoreSheet,
+} from "@rms-local/scoring";
+import { file } from "bun";
+import { eq } from "drizzle-orm";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importEventDump } from "./event-import";
+import { MATCH_STATUS } from "./match-schedule";
+import {
+  commitMatchScore,
+  ELIMS_SCORE_LEVEL,
+  QUALS_SCORE_LEVEL,
+  readMatchScore,
+  submitMatchScore,
+} from "./match-scores";
+
+/** FTC Live export with every qualification match and playoffs 1-2 committed. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+const UNPLAYED_ELIMS_MATCH = 3;
+const SUBMITTED_AT = 1_771_468_000_000;
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+const sheet = (overrides: Partial<AllianceScoreSheet>): AllianceScoreSheet => {
+  const result = validateAllianceScoreSheet({});
+  if (!("sheet" in result)) {
+    throw new Error("An empty score sheet must validate.");
+  }
+  return { ...result.sheet, ...overrides };
+};
+
+const sheets = {
+  red: sheet({ robot1Auto: true, teleopClassifiedArtifacts: 4 }),
+  blue: sheet({ teleopOverflowArtifacts: 2 }),
+};
+
+const readElimsState = (eventDb: EventDb) => ({
+  results: eventDb
+    .select({
+      redScore: elimsResults.redScore,
+      blueScore: elimsResults.blueScore,
+    })
+    .from(elimsResults)
+    .where(eq(elimsResults.match, UNPLAYED_ELIMS_MATCH))
+    .all(),
+  status: eventDb
+    .select({ status: elimsData.status })
+    .from(elimsData)
+    .where(eq(elimsData.match, UNPLAYED_ELIMS_MATCH))
+    .get(),
+});
+
+beforeEach(async () => {
+  directory = mkdtempSync(path.join(tmpdir(), "match-scores-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+  const fixture = await file(FIXTURE_PATH).json();
+  useEventDb((eventDb) => importEventDump(eventDb.$client, fixture));
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("submitMatchScore", () => {
+  test("stores the sheets without committing them", () => {
+    useEventDb((eventDb) => {
+      const submitted = submitMatchScore(
+        eventDb,
+        ELIMS_SCORE_LEVEL,
+        UNPLAYED_ELIMS_MATCH,
+        sheets,
+        SUBMITTED_AT
+      );
+
+      expect(submitted).toEqual({
+        value: expect.objectContaining({
+          committed: false,
+          match: UNPLAYED_ELIMS_MATCH,
+        }),
+      });
+      expect(
+        readMatchScore(eventDb, ELIMS_SCORE_LEVEL, UNPLAYED_ELIMS_MATCH)
+      ).toEqual({
+        value: expect.objectContaining({ committed: false, ...sheets }),
+      });
+      expect(readElimsState(eventDb)).toEqual({
+        results: [],
+        status: { status: MATCH_STATUS.scheduled },
+      });
+    });
+  });
+
+  test("commits the submitted sheets once the head referee accepts them", () => {
+    useEventDb((eventDb) => {
+      submitMatchScore(
+        eventDb,
+        ELIMS_SCORE_LEVEL,
+        UNPLAYED_ELIMS_MATCH,
+        sheets,
+        SUBMITTED_AT
+      );
+      const committed = commitMatchScore(
+        eventDb,
+        ELIMS_SCORE_LEVEL,
+        UNPLAYED_ELIMS_MATCH,
+        sheets,
+        SUBMITTED_AT + 1000
+      );
+      if (!("value" in committed)) {
+        throw new Error("The submitted score must commit.");
+      }
+
+      expect(committed.value.committed).toBe(true);
+      expect(readElimsState(eventDb)).toEqual({
+        results: [
+          {
+            redScore: committed.value.score.red.score,
+            blueScore: committed.value.score.blue.score,
+          },
+        ],
+        status: { status: MATCH_STATUS.committed },
+      });
+    });
+  });
+
+  test("refuses to replace a committed score", () => {
+    useEventDb((eventDb) => {
+      const before = readMatchScore(eventDb, QUALS_SCORE_LEVEL, 1);
+
+      expect(
+        submitMatchScore(eventDb, QUALS_SCORE_LEVEL, 1, sheets, SUBMITTED_AT)
+      ).toEqual({
+        failure: expect.objectContaining({ status: 409 }),
+      });
+      expect(readMatchScore(eventDb, QUALS_SCORE_LEVEL, 1)).toEqual(before);
+    });
+  });
+
+  test("reports an unknown match", () => {
+    useEventDb((eventDb) => {
+      expect(
+        submitMatchScore(eventDb, QUALS_SCORE_LEVEL, 999, sheets, SUBMITTED_AT)
+      ).toEqual({
+        failure: expect.objectContaining({ status: 404 }),
+      });
+    });
+  });
+});
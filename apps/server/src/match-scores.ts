@@ -0,0 +1,763 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  elims,
+  elimsCommitHistory,
+  elimsData,
+  elimsGameSpecific,
+  elimsGameSpecificHistory,
+  elimsResults,
+  elimsScores,
+  elimsScoresHistory,
+  quals,
+  qualsCommitHistory,
+  qualsData,
+  qualsGameSpecific,
+  qualsGameSpecificHistory,
+  qualsResults,
+  qualsScores,
+  qualsScoresHistory,
+} from "@rms-local/db/schema/event-db/matches";
+import {
+  ALLIANCE,
+  type AllianceScoreSheet,
+  computeMatchScore,
+  type MatchScore,
+  validateAllianceScoreSheet,
+} from "@rms-local/scoring";
+import { asc, eq } from "drizzle-orm";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import type { EventMessage, MatchLevel } from "./event-channel";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { MATCH_STATUS } from "./match-schedule";
+import {
+  advanceBracket,
+  checkPlayoffCommit,
+  decidePlayoffWinner,
+} from "./playoff-bracket";
+import { recomputeRankings } from "./rankings";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+
+/** `type` values of the *_commit_history tables. */
+export const COMMIT_HISTORY_TYPE = {
+  started: 0,
+  committed: 6,
+} as const;
+
+const UNSET_TIMESTAMP = -1;
+const UNSET_RANDOMIZATION = -1;
+
+type GameSpecificRow = Omit<
+  typeof qualsGameSpecific.$inferInsert,
+  "alliance" | "match"
+>;
+type ScoreRow =
+  | Omit<typeof elimsScores.$inferInsert, "alliance" | "match">
+  | Omit<typeof qualsScores.$inferInsert, "alliance" | "match">;
+
+/**
+ * Where a tournament level keeps its scores, and how its score rows map to
+ * the alliance score sheet.
+ */
+export interface ScoreLevel {
+  commitHistoryTable: typeof elimsCommitHistory | typeof qualsCommitHistory;
+  dataTable: typeof elimsData | typeof qualsData;
+  fromScoreRow: (row: Record<string, number>) => ScoreSheetPenalties;
+  gameSpecificHistoryTable:
+    | typeof elimsGameSpecificHistory
+    | typeof qualsGameSpecificHistory;
+  gameSpecificTable: typeof elimsGameSpecific | typeof qualsGameSpecific;
+  logType: string;
+  matchesTable: typeof elims | typeof quals;
+  path: MatchLevel;
+  resultsTable: typeof elimsResults | typeof qualsResults;
+  scoresHistoryTable: typeof elimsScoresHistory | typeof qualsScoresHistory;
+  scoresTable: typeof elimsScores | typeof qualsScores;
+  submitLogType: string;
+  toScoreRow: (sheet: AllianceScoreSheet) => ScoreRow;
+}
+
+type ScoreSheetPenalties = Pick<
+  AllianceScoreSheet,
+  | "adjust"
+  | "card1"
+  | "card2"
+  | "dq1"
+  | "dq2"
+  | "major"
+  | "minor"
+  | "noshow1"
+  | "noshow2"
+>;
+
+export const QUALS_SCORE_LEVEL: ScoreLevel = {
+  commitHistoryTable: qualsCommitHistory,
+  dataTable: qualsData,
+  gameSpecificHistoryTable: qualsGameSpecificHistory,
+  gameSpecificTable: qualsGameSpecific,
+  logType: "QUALS_SCORE_COMMITTED",
+  matchesTable: quals,
+  path: "quals",
+  resultsTable: qualsResults,
+  scoresHistoryTable: qualsScoresHistory,
+  scoresTable: qualsScores,
+  submitLogType: "QUALS_SCORE_SUBMITTED",
+  toScoreRow: (sheet) => ({
+    card1: sheet.card1,
+    card2: sheet.card2,
+    dq1: Number(sheet.dq1),
+    dq2: Number(sheet.dq2),
+    noshow1: Number(sheet.noshow1),
+    noshow2: Number(sheet.noshow2),
+    major: sheet.major,
+    minor: sheet.minor,
+    adjust: sheet.adjust,
+  }),
+  fromScoreRow: (row) => ({
+    card1: Number(row.card1),
+    card2: Number(row.card2),
+    dq1: row.dq1 === 1,
+    dq2: row.dq2 === 1,
+    noshow1: row.noshow1 === 1,
+    noshow2: row.noshow2 === 1,
+    major: Number(row.major),
+    minor: Number(row.minor),
+    adjust: Number(row.adjust),
+  }),
+};
+
+/** Playoff cards and disqualifications apply to the whole alliance. */
+export const ELIMS_SCORE_LEVEL: ScoreLevel = {
+  commitHistoryTable: elimsCommitHistory,
+  dataTable: elimsData,
+  gameSpecificHistoryTable: elimsGameSpecificHistory,
+  gameSpecificTable: elimsGameSpecific,
+  logType: "ELIMS_SCORE_COMMITTED",
+  matchesTable: elims,
+  path: "elims",
+  resultsTable: elimsResults,
+  scoresHistoryTable: elimsScoresHistory,
+  scoresTable: elimsScores,
+  submitLogType: "ELIMS_SCORE_SUBMITTED",
+  toScoreRow: (sheet) => ({
+    card: Math.max(sheet.card1, sheet.card2),
+    dq: Number(sheet.dq1 || sheet.dq2),
+    noshow1: Number(sheet.noshow1),
+    noshow2: Number(sheet.noshow2),
+    noshow3: 0,
+    major: sheet.major,
+    minor: sheet.minor,
+    adjust: sheet.adjust,
+  }),
+  fromScoreRow: (row) => ({
+    card1: Number(row.card),
+    card2: Number(row.card),
+    dq1: row.dq === 1,
+    dq2: row.dq === 1,
+    noshow1: row.noshow1 === 1,
+    noshow2: row.noshow2 === 1,
+    major: Number(row.major),
+    minor: Number(row.minor),
+    adjust: Number(row.adjust),
+  }),
+};
+
+export interface MatchScoreRecord {
+  blue: AllianceScoreSheet;
+  /** False while the score is only submitted for the head referee. */
+  committed: boolean;
+  match: number;
+  red: AllianceScoreSheet;
+  score: MatchScore;
+}
+
+const toGameSpecificRow = (sheet: AllianceScoreSheet): GameSpecificRow => ({
+  autoClassifiedArtifacts: sheet.autoClassifiedArtifacts,
+  autoOverflowArtifacts: sheet.autoOverflowArtifacts,
+  autoClassifierState: sheet.autoClassifierState,
+  robot1auto: Number(sheet.robot1Auto),
+  robot2auto: Number(sheet.robot2Auto),
+  teleopClassifiedArtifacts: sheet.teleopClassifiedArtifacts,
+  teleopOverflowArtifacts: sheet.teleopOverflowArtifacts,
+  teleopDepotArtifacts: sheet.teleopDepotArtifacts,
+  teleopClassifierState: sheet.teleopClassifierState,
+  robot1teleop: sheet.robot1Teleop,
+  robot2teleop: sheet.robot2Teleop,
+  violations: JSON.stringify(sheet.violations),
+  ownMajor: sheet.ownMajor,
+  ownMinor: sheet.ownMinor,
+  otherMajor: sheet.otherMajor,
+  otherMinor: sheet.otherMinor,
+  hrMajor: sheet.hrMajor,
+  hrMinor: sheet.hrMinor,
+});
+
+const parseViolations = (value: unknown): string[] => {
+  try {
+    const parsed = JSON.parse(String(value)) as unknown;
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+const toScoreSheet = (
+  level: ScoreLevel,
+  gameSpecific: GameSpecificRow,
+  score: Record<string, number>
+): AllianceScoreSheet => ({
+  autoClassifiedArtifacts: gameSpecific.autoClassifiedArtifacts,
+  autoOverflowArtifacts: gameSpecific.autoOverflowArtifacts,
+  autoClassifierState: gameSpecific.autoClassifierState,
+  robot1Auto: gameSpecific.robot1auto === 1,
+  robot2Auto: gameSpecific.robot2auto === 1,
+  teleopClassifiedArtifacts: gameSpecific.teleopClassifiedArtifacts,
+  teleopOverflowArtifacts: gameSpecific.teleopOverflowArtifacts,
+  teleopDepotArtifacts: gameSpecific.teleopDepotArtifacts,
+  teleopClassifierState: gameSpecific.teleopClassifierState,
+  robot1Teleop: gameSpecific.robot1teleop,
+  robot2Teleop: gameSpecific.robot2teleop,
+  violations: parseViolations(gameSpecific.violations),
+  ownMajor: gameSpecific.ownMajor,
+  ownMinor: gameSpecific.ownMinor,
+  otherMajor: gameSpecific.otherMajor,
+  otherMinor: gameSpecific.otherMinor,
+  hrMajor: gameSpecific.hrMajor,
+  hrMinor: gameSpecific.hrMinor,
+  ...level.fromScoreRow(score),
+});
+
+const findLevelMatch = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number
+) =>
+  eventDb
+    .select({
+      match: level.matchesTable.match,
+      randomization: level.dataTable.randomization,
+    })
+    .from(level.matchesTable)
+    .leftJoin(
+      level.dataTable,
+      eq(level.dataTable.match, level.matchesTable.match)
+    )
+    .where(eq(level.matchesTable.match, matchNumber))
+    .get() ?? null;
+
+export const parseMatchNumber = (value: string | undefined): number | null => {
+  const matchNumber = Number.parseInt(value ?? "", 10);
+  return Number.isInteger(matchNumber) && matchNumber > 0 ? matchNumber : null;
+};
+
+const parseScorePayload = (
+  payload: unknown
+): RequestResult<{ blue: AllianceScoreSheet; red: AllianceScoreSheet }> => {
+  const data = (payload ?? {}) as Record<string, unknown>;
+  const sheets: Partial<Record<"blue" | "red", AllianceScoreSheet>> = {};
+
+  for (const alliance of ["red", "blue"] as const) {
+    const result = validateAllianceScoreSheet(data[alliance]);
+    if ("errors" in result) {
+      return failure(
+        400,
+        `Invalid ${alliance} score sheet.`,
+        result.errors
+          .map(({ field, message }) =>
+            field ? `${alliance}.${field} ${message}` : `${alliance} ${message}`
+          )
+          .join(" ")
+      );
+    }
+    sheets[alliance] = result.sheet;
+  }
+
+  return success(
+    sheets as { blue: AllianceScoreSheet; red: AllianceScoreSheet }
+  );
+};
+
+/**
+ * Replaces the score sheets stored for a match and appends the snapshot to
+ * the history tables. Runs inside the caller's transaction.
+ */
+const storeScoreSheets = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number,
+  sheets: { blue: AllianceScoreSheet; red: AllianceScoreSheet },
+  storedAt: number
+): void => {
+  for (const table of [level.gameSpecificTable, level.scoresTable]) {
+    eventDb.delete(table).where(eq(table.match, matchNumber)).run();
+  }
+
+  for (const [alliance, sheet] of [
+    [ALLIANCE.red, sheets.red],
+    [ALLIANCE.blue, sheets.blue],
+  ] as const) {
+    const gameSpecific = {
+      match: matchNumber,
+      alliance,
+      ...toGameSpecificRow(sheet),
+    };
+    const scores = { match: matchNumber, alliance, ...level.toScoreRow(sheet) };
+    eventDb.insert(level.gameSpecificTable).values(gameSpecific).run();
+    eventDb.insert(level.scoresTable).values(scores).run();
+    eventDb
+      .insert(level.gameSpecificHistoryTable)
+      .values({ ...gameSpecific, ts: storedAt })
+      .run();
+    eventDb
+      .insert(level.scoresHistoryTable)
+      .values({ ...scores, ts: storedAt })
+      .run();
+  }
+};
+
+const isScoreCommitted = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number
+): boolean =>
+  eventDb
+    .select({ match: level.resultsTable.match })
+    .from(level.resultsTable)
+    .where(eq(level.resultsTable.match, matchNumber))
+    .get() !== undefined;
+
+/**
+ * Stores a referee's score sheets for the head referee to review. Nothing is
+ * committed, so rankings and the bracket are untouched, and a committed
+ * score can only be changed by committing again.
+ */
+export const submitMatchScore = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number,
+  sheets: { blue: AllianceScoreSheet; red: AllianceScoreSheet },
+  submittedAt: number
+): RequestResult<MatchScoreRecord> => {
+  const match = findLevelMatch(eventDb, level, matchNumber);
+  if (!match) {
+    return failure(404, "Match not found.");
+  }
+  if (isScoreCommitted(eventDb, level, matchNumber)) {
+    return failure(409, "Match score is already committed.");
+  }
+
+  eventDb.transaction(() => {
+    storeScoreSheets(eventDb, level, matchNumber, sheets, submittedAt);
+  });
+
+  return success({
+    match: matchNumber,
+    committed: false,
+    red: sheets.red,
+    blue: sheets.blue,
+    score: computeMatchScore(
+      sheets.red,
+      sheets.blue,
+      match.randomization ?? UNSET_RANDOMIZATION
+    ),
+  });
+};
+
+/**
+ * Replaces the committed score of a match and appends the snapshot to the
+ * history tables in a single transaction.
+ */
+export const commitMatchScore = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number,
+  sheets: { blue: AllianceScoreSheet; red: AllianceScoreSheet },
+  committedAt: number
+): RequestResult<MatchScoreRecord> => {
+  const match = findLevelMatch(eventDb, level, matchNumber);
+  if (!match) {
+    return failure(404, "Match not found.");
+  }
+
+  const randomization = match.randomization ?? UNSET_RANDOMIZATION;
+  const score = computeMatchScore(sheets.red, sheets.blue, randomization);
+
+  eventDb.transaction(() => {
+    storeScoreSheets(eventDb, level, matchNumber, sheets, committedAt);
+    eventDb
+      .delete(level.resultsTable)
+      .where(eq(level.resultsTable.match, matchNumber))
+      .run();
+    eventDb
+      .insert(level.resultsTable)
+      .values({
+        match: matchNumber,
+        redScore: score.red.score,
+        blueScore: score.blue.score,
+        redPenaltyCommitted: score.red.penaltyCommitted,
+        bluePenaltyCommitted: score.blue.penaltyCommitted,
+      })
+      .run();
+    eventDb
+      .insert(level.commitHistoryTable)
+      .values({
+        match: matchNumber,
+        ts: committedAt,
+        start: UNSET_TIMESTAMP,
+        random: randomization,
+        type: COMMIT_HISTORY_TYPE.committed,
+      })
+      .run();
+    eventDb
+      .update(level.dataTable)
+      .set({ status: MATCH_STATUS.committed })
+      .where(eq(level.dataTable.match, matchNumber))
+      .run();
+  });
+
+  return success({
+    match: matchNumber,
+    committed: true,
+    red: sheets.red,
+    blue: sheets.blue,
+    score,
+  });
+};
+
+export const readMatchScore = (
+  eventDb: EventDb,
+  level: ScoreLevel,
+  matchNumber: number
+): RequestResult<MatchScoreRecord> => {
+  const match = findLevelMatch(eventDb, level, matchNumber);
+  if (!match) {
+    return failure(404, "Match not found.");
+  }
+
+  const gameSpecificRows = eventDb
+    .select()
+    .from(level.gameSpecificTable)
+    .where(eq(level.gameSpecificTable.match, matchNumber))
+    .all();
+  const scoreRows = eventDb
+    .select()
+    .from(level.scoresTable)
+    .where(eq(level.scoresTable.match, matchNumber))
+    .all();
+
+  const readSheet = (alliance: number): AllianceScoreSheet | null => {
+    const gameSpecific = gameSpecificRows.find(
+      (row) => row.alliance === alliance
+    );
+    const score = scoreRows.find((row) => row.alliance === alliance);
+    return gameSpecific && score
+      ? toScoreSheet(level, gameSpecific, score)
+      : null;
+  };
+
+  const red = readSheet(ALLIANCE.red);
+  const blue = readSheet(ALLIANCE.blue);
+  if (!(red && blue)) {
+    return failure(404, "Match has no score.");
+  }
+
+  return success({
+    match: matchNumber,
+    committed: isScoreCommitted(eventDb, level, matchNumber),
+    red,
+    blue,
+    score: computeMatchScore(
+      red,
+      blue,
+      match.randomization ?? UNSET_RANDOMIZATION
+    ),
+  });
+};
+
+export const listCommittedScores = (
+  eventDb: EventDb,
+  level: ScoreLevel
+): MatchScoreRecord[] => {
+  const rows = eventDb
+    .select({ match: level.resultsTable.match })
+    .from(level.resultsTable)
+    .orderBy(asc(level.resultsTable.match))
+    .all();
+  return rows.flatMap((row) => {
+    const record = readMatchScore(eventDb, level, row.match);
+    return "value" in record ? [record.value] : [];
+  });
+};
+
+/**
+ * Work that has to happen around a commit at a given tournament level.
+ * `afterCommit` returns any extra messages to publish on the event channel.
+ */
+interface CommitHooks {
+  afterCommit: (eventDb: EventDb, committedAt: number) => EventMessage[];
+  beforeCommit?: (
+    eventDb: EventDb,
+    record: Omit<MatchScoreRecord, "committed">
+  ) => RequestResult<true>;
+}
+
+const QUALS_COMMIT_HOOKS: CommitHooks = {
+  afterCommit: (eventDb, committedAt) => {
+    recomputeRankings(
+      eventDb,
+      listCommittedScores(eventDb, QUALS_SCORE_LEVEL),
+      committedAt
+    );
+    return [{ type: "RANKINGS_CHANGED" }];
+  },
+};
+
+const ELIMS_COMMIT_HOOKS: CommitHooks = {
+  beforeCommit: (eventDb, { blue, match, red, score }) =>
+    checkPlayoffCommit(
+      eventDb,
+      match,
+      decidePlayoffWinner({
+        redTotal: score.red.total,
+        blueTotal: score.blue.total,
+        redDq: red.dq1 || red.dq2,
+        blueDq: blue.dq1 || blue.dq2,
+      })
+    ),
+  afterCommit: (eventDb) => {
+    advanceBracket(eventDb);
+    return [];
+  },
+};
+
+export const createMatchScoreRoutes = ({
+  auth,
+  channel,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  const registerScoreRoutes = (level: ScoreLevel, hooks: CommitHooks) => {
+    const path = `/:code/matches/${level.path}/:number/score` as const;
+
+    routes.get(
+      path,
+      requireEventRoles(auth, db, ["REFEREE", "HEAD_REFEREE", "TSO"]),
+      (c) => {
+        const matchNumber = parseMatchNumber(c.req.param("number"));
+        if (!matchNumber) {
+          return c.json({ error: "Invalid match number." }, 400);
+        }
+
+        const result = runEventDatabaseTask(
+          eventDatabases,
+          c.get("eventAccess").event.eventCode,
+          (eventDb) => readMatchScore(eventDb, level, matchNumber)
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        return c.json(result.value);
+      }
+    );
+
+    /** Stores a referee's sheets; only a head referee commits them. */
+    routes.post(
+      `${path}/submit`,
+      requireEventRoles(auth, db, ["REFEREE", "HEAD_REFEREE"]),
+      async (c) => {
+        const matchNumber = parseMatchNumber(c.req.param("number"));
+        if (!matchNumber) {
+          return c.json({ error: "Invalid match number." }, 400);
+        }
+
+        const parsed = parseScorePayload(await c.req.json().catch(() => null));
+        if ("failure" in parsed) {
+          return failureResponse(c, parsed.failure);
+        }
+
+        const { event, userId } = c.get("eventAccess");
+        const result = runEventDatabaseTask(
+          eventDatabases,
+          event.eventCode,
+          (eventDb) =>
+            submitMatchScore(
+              eventDb,
+              level,
+              matchNumber,
+              parsed.value,
+              Date.now()
+            )
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        const { score } = result.value;
+        writeEventLog(db, {
+          type: level.submitLogType,
+          eventCode: event.eventCode,
+          info: String(matchNumber),
+          extra: {
+            blueScore: score.blue.total,
+            redScore: score.red.total,
+            userId,
+          },
+        });
+        channel.publish(event.eventCode, {
+          type: "SCORE_SUBMITTED",
+          level: level.path,
+          match: matchNumber,
+        });
+
+        return c.json(result.value);
+      }
+    );
+
+    routes.put(
+      path,
+      requireEventRoles(auth, db, ["HEAD_REFEREE"]),
+      async (c) => {
+        const matchNumber = parseMatchNumber(c.req.param("number"));
+        if (!matchNumber) {
+          return c.json({ error: "Invalid match number." }, 400);
+        }
+
+        const parsed = parseScorePayload(await c.req.json().catch(() => null));
+        if ("failure" in parsed) {
+          return failureResponse(c, parsed.failure);
+        }
+
+        const { event, userId } = c.get("eventAccess");
+        const result = runEventDatabaseTask(
+          eventDatabases,
+          event.eventCode,
+          (eventDb) => {
+            const match = findLevelMatch(eventDb, level, matchNumber);
+            if (match && hooks.beforeCommit) {
+              const allowed = hooks.beforeCommit(eventDb, {
+                ...parsed.value,
+                match: matchNumber,
+                score: computeMatchScore(
+                  parsed.value.red,
+                  parsed.value.blue,
+                  match.randomization ?? UNSET_RANDOMIZATION
+                ),
+              });
+              if ("failure" in allowed) {
+                return allowed;
+              }
+            }
+
+            const committedAt = Date.now();
+            const committed = commitMatchScore(
+              eventDb,
+              level,
+              matchNumber,
+              parsed.value,
+              committedAt
+            );
+            if ("failure" in committed) {
+              return committed;
+            }
+            return success({
+              record: committed.value,
+              messages: hooks.afterCommit(eventDb, committedAt),
+            });
+          }
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        const { messages, record } = result.value;
+        const { score } = record;
+        writeEventLog(db, {
+          type: level.logType,
+          eventCode: event.eventCode,
+          info: String(matchNumber),
+          extra: {
+            blueScore: score.blue.total,
+            redScore: score.red.total,
+            userId,
+          },
+        });
+        channel.publish(event.eventCode, {
+          type: "SCORE_COMMITTED",
+          level: level.path,
+          match: matchNumber,
+          red: score.red,
+          blue: score.blue,
+        });
+        for (const message of messages) {
+          channel.publish(event.eventCode, message);
+        }
+
+        return c.json(record);
+      }
+    );
+
+    /** Broadcasts an in-progress score sheet without storing it. */
+    routes.post(
+      `${path}/live`,
+      requireEventRoles(auth, db, ["REFEREE", "HEAD_REFEREE"]),
+      async (c) => {
+        const matchNumber = parseMatchNumber(c.req.param("number"));
+        if (!matchNumber) {
+          return c.json({ error: "Invalid match number." }, 400);
+        }
+
+        const parsed = parseScorePayload(await c.req.json().catch(() => null));
+        if ("failure" in parsed) {
+          return failureResponse(c, parsed.failure);
+        }
+
+        const { event } = c.get("eventAccess");
+        const result = runEventDatabaseTask(
+          eventDatabases,
+          event.eventCode,
+          (eventDb) => {
+            const match = findLevelMatch(eventDb, level, matchNumber);
+            if (!match) {
+              return failure(404, "Match not found.");
+            }
+            return success(
+              computeMatchScore(
+                parsed.value.red,
+                parsed.value.blue,
+                match.randomization ?? UNSET_RANDOMIZATION
+              )
+            );
+          }
+        );
+        if ("failure" in result) {
+          return failureResponse(c, result.failure);
+        }
+
+        channel.publish(event.eventCode, {
+          type: "SCORE_UPDATED",
+          level: level.path,
+          match: matchNumber,
+          red: result.value.red,
+          blue: result.value.blue,
+        });
+
+        return c.json({ match: matchNumber, score: result.value });
+      }
+    );
+  };
+
+  registerScoreRoutes(QUALS_SCORE_LEVEL, QUALS_COMMIT_HOOKS);
+  registerScoreRoutes(ELIMS_SCORE_LEVEL, ELIMS_COMMIT_HOOKS);
+
+  return routes;
+};
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+import { elims, elimsResults } from "@rms-local/db/schema/event-db/matches";
+import { file } from "bun";
+import { asc } from "drizzle-orm";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importEventDump } from "./event-import";
+import {
+  advanceBracket,
+  checkPlayoffCommit,
+  readBracket,
+} from "./playoff-bracket";
+
+/** FTC Live export with elims 1-4 scheduled and 1-2 committed. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+
+const fixture = await file(FIXTURE_PATH).json();
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+const listElims = (eventDb: EventDb) =>
+  eventDb.select().from(elims).orderBy(asc(elims.match)).all();
+
+/** Commits a result the way the score routes do for a playoff match. */
+const commitResult = (
+  eventDb: EventDb,
+  match: number,
+  redScore: number,
+  blueScore: number
+): void => {
+  const check = checkPlayoffCommit(
+    eventDb,
+    match,
+    redScore > blueScore ? "red" : "blue"
+  );
+  if ("failure" in check) {
+    throw new Error(check.failure.error);
+  }
+  eventDb
+    .insert(elimsResults)
+    .values({
+      match,
+      redScore,
+      blueScore,
+      redPenaltyCommitted: 0,
+      bluePenaltyCommitted: 0,
+    })
+    .run();
+  advanceBracket(eventDb);
+};
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "playoff-bracket-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+  useEventDb((eventDb) => importEventDump(eventDb.$client, fixture));
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("an imported FTC Live bracket", () => {
+  test("places matches by their FTC Live numbers", () => {
+    const bracket = useEventDb(readBracket);
+
+    expect(bracket.generated).toBe(true);
+    expect(
+      bracket.nodes.map((node) => [
+        node.key,
+        node.matches.map((match) => match.match),
+        node.winner,
+      ])
+    ).toEqual([
+      ["M1", [1], 4],
+      ["M2", [2], 3],
+      ["M3", [3], null],
+      ["M4", [4], null],
+      ["M5", [], null],
+      ["F", [], null],
+    ]);
+  });
+
+  test("advances without rescheduling the imported matches", () => {
+    useEventDb((eventDb) => {
+      commitResult(eventDb, 3, 120, 90);
+      expect(listElims(eventDb)).toEqual(fixture.elims);
+
+      commitResult(eventDb, 4, 150, 100);
+      expect(listElims(eventDb)).toEqual([
+        ...fixture.elims,
+        { match: 5, red: 3, blue: 1 },
+      ]);
+
+      commitResult(eventDb, 5, 80, 110);
+      expect(listElims(eventDb)).toEqual([
+        ...fixture.elims,
+        { match: 5, red: 3, blue: 1 },
+        { match: 6, red: 4, blue: 1 },
+        { match: 7, red: 4, blue: 1 },
+      ]);
+      expect(readBracket(eventDb).nodes.at(-1)?.matches).toHaveLength(2);
+    });
+  });
+});
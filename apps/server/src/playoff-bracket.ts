@@ -0,0 +1,614 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { eventConfig } from "@rms-local/db/schema/event-db/event-state";
+import {
+  elims,
+  elimsData,
+  elimsResults,
+  elimsScores,
+} from "@rms-local/db/schema/event-db/matches";
+import { alliances as allianceTable } from "@rms-local/db/schema/event-db/schedule";
+import { ALLIANCE } from "@rms-local/scoring";
+import { and, asc, eq, max } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { Hono } from "hono";
+
+import { type PlayoffFormat, readPlayoffFormat } from "./alliance-selection";
+import { EVENT_ROLES } from "./authorization";
+import type { AppContext } from "./context";
+import { readEventConfig, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { MATCH_STATUS } from "./match-schedule";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+
+const BRACKET_CONFIG_KEY = "playoff.bracket";
+const UNSET_TIMESTAMP = -1;
+const UNSET_RANDOMIZATION = -1;
+const FINALS_WINS_NEEDED = 2;
+
+export type BracketSide = "blue" | "red";
+export type MatchWinner = BracketSide | "tie";
+
+export type AllianceSource =
+  | { kind: "seed"; seed: number }
+  | { kind: "loser" | "winner"; slot: string };
+
+export interface BracketSlot {
+  blue: AllianceSource;
+  bracket: "finals" | "lower" | "upper";
+  key: string;
+  label: string;
+  red: AllianceSource;
+  /** Finals are best-of-3; every other slot is decided by one match. */
+  winsNeeded: number;
+}
+
+export interface PlayoffMatch {
+  blue: number;
+  match: number;
+  red: number;
+  slot: string;
+  /** Null until the match has a committed result. */
+  winner: MatchWinner | null;
+}
+
+export interface BracketNode extends BracketSlot {
+  blueAlliance: number | null;
+  blueWins: number;
+  loser: number | null;
+  matches: PlayoffMatch[];
+  redAlliance: number | null;
+  redWins: number;
+  winner: number | null;
+}
+
+export interface BracketState {
+  champion: number | null;
+  /** Committed matches whose alliances no longer follow from the results. */
+  conflicts: number[];
+  nodes: BracketNode[];
+  /** Matches to schedule next, in bracket order. */
+  pending: { blue: number; red: number; slot: string }[];
+  /** Unplayed matches that are no longer needed. */
+  surplus: number[];
+  /** Unplayed matches whose alliances changed after a result was edited. */
+  updates: { blue: number; match: number; red: number }[];
+}
+
+export interface PlayoffOutcome {
+  blueDq: boolean;
+  blueTotal: number;
+  redDq: boolean;
+  redTotal: number;
+}
+
+const seed = (value: number): AllianceSource => ({ kind: "seed", seed: value });
+const winnerOf = (slot: string): AllianceSource => ({ kind: "winner", slot });
+const loserOf = (slot: string): AllianceSource => ({ kind: "loser", slot });
+
+const bracketMatch = (
+  key: string,
+  bracket: "lower" | "upper",
+  red: AllianceSource,
+  blue: AllianceSource
+): BracketSlot => ({
+  key,
+  label: `Match ${key.slice(1)}`,
+  bracket,
+  red,
+  blue,
+  winsNeeded: 1,
+});
+
+const finals = (red: AllianceSource, blue: AllianceSource): BracketSlot => ({
+  key: "F",
+  label: "Finals",
+  bracket: "finals",
+  red,
+  blue,
+  winsNeeded: FINALS_WINS_NEEDED,
+});
+
+const FOUR_ALLIANCE_BRACKET: BracketSlot[] = [
+  bracketMatch("M1", "upper", seed(1), seed(4)),
+  bracketMatch("M2", "upper", seed(2), seed(3)),
+  bracketMatch("M3", "lower", loserOf("M1"), loserOf("M2")),
+  bracketMatch("M4", "upper", winnerOf("M1"), winnerOf("M2")),
+  bracketMatch("M5", "lower", loserOf("M4"), winnerOf("M3")),
+  finals(winnerOf("M4"), winnerOf("M5")),
+];
+
+/**
+ * Alliances 1 and 2 skip the first round. Lower bracket pairings cross the
+ * rounds so no two alliances meet twice before the lower final.
+ */
+const SIX_ALLIANCE_BRACKET: BracketSlot[] = [
+  bracketMatch("M1", "upper", seed(3), seed(6)),
+  bracketMatch("M2", "upper", seed(4), seed(5)),
+  bracketMatch("M3", "upper", seed(1), winnerOf("M2")),
+  bracketMatch("M4", "upper", seed(2), winnerOf("M1")),
+  bracketMatch("M5", "lower", loserOf("M3"), loserOf("M1")),
+  bracketMatch("M6", "lower", loserOf("M4"), loserOf("M2")),
+  bracketMatch("M7", "lower", winnerOf("M5"), winnerOf("M6")),
+  bracketMatch("M8", "upper", winnerOf("M3"), winnerOf("M4")),
+  bracketMatch("M9", "lower", loserOf("M8"), winnerOf("M7")),
+  finals(winnerOf("M8"), winnerOf("M9")),
+];
+
+/** Slots are listed so every source precedes the slot that consumes it. */
+export const getBracketSlots = (
+  allianceCount: number
+): BracketSlot[] | null => {
+  if (allianceCount === 4) {
+    return FOUR_ALLIANCE_BRACKET;
+  }
+  if (allianceCount === 6) {
+    return SIX_ALLIANCE_BRACKET;
+  }
+  return null;
+};
+
+/**
+ * A disqualified alliance loses; otherwise the higher total (fouls included)
+ * wins. Ties are replayed.
+ */
+export const decidePlayoffWinner = (outcome: PlayoffOutcome): MatchWinner => {
+  if (outcome.redDq !== outcome.blueDq) {
+    return outcome.redDq ? "blue" : "red";
+  }
+  if (outcome.redDq || outcome.redTotal === outcome.blueTotal) {
+    return "tie";
+  }
+  return outcome.redTotal > outcome.blueTotal ? "red" : "blue";
+};
+
+const recordWin = (node: BracketNode, winner: MatchWinner): void => {
+  if (winner === "red") {
+    node.redWins += 1;
+  } else if (winner === "blue") {
+    node.blueWins += 1;
+  }
+  if (node.redWins >= node.winsNeeded) {
+    node.winner = node.redAlliance;
+    node.loser = node.blueAlliance;
+  } else if (node.blueWins >= node.winsNeeded) {
+    node.winner = node.blueAlliance;
+    node.loser = node.redAlliance;
+  }
+};
+
+/**
+ * Counts the results of a seated node, then decides what happens to its
+ * unplayed matches and how many more it needs.
+ */
+const settleNode = (
+  node: BracketNode,
+  red: number,
+  blue: number,
+  state: BracketState
+): void => {
+  const isSeated = (match: PlayoffMatch) =>
+    match.red === red && match.blue === blue;
+
+  for (const match of node.matches) {
+    if (match.winner === null) {
+      continue;
+    }
+    if (isSeated(match) && node.winner === null) {
+      recordWin(node, match.winner);
+    } else {
+      state.conflicts.push(match.match);
+    }
+  }
+
+  const unplayed = node.matches.filter((match) => match.winner === null);
+  if (node.winner !== null) {
+    state.surplus.push(...unplayed.map((match) => match.match));
+    return;
+  }
+
+  for (const match of unplayed) {
+    if (!isSeated(match)) {
+      state.updates.push({ match: match.match, red, blue });
+    }
+  }
+  const needed =
+    node.winsNeeded - Math.max(node.redWins, node.blueWins) - unplayed.length;
+  for (let index = 0; index < needed; index++) {
+    state.pending.push({ slot: node.key, red, blue });
+  }
+};
+
+/**
+ * Walks the bracket in slot order, seating alliances from earlier results
+ * and working out which matches still have to be scheduled.
+ */
+export const resolveBracket = (
+  slots: BracketSlot[],
+  matches: PlayoffMatch[]
+): BracketState => {
+  const nodes = new Map<string, BracketNode>();
+  const state: BracketState = {
+    champion: null,
+    conflicts: [],
+    nodes: [],
+    pending: [],
+    surplus: [],
+    updates: [],
+  };
+
+  const resolveSource = (source: AllianceSource): number | null => {
+    if (source.kind === "seed") {
+      return source.seed;
+    }
+    const node = nodes.get(source.slot);
+    return (source.kind === "winner" ? node?.winner : node?.loser) ?? null;
+  };
+
+  for (const slot of slots) {
+    const node: BracketNode = {
+      ...slot,
+      redAlliance: resolveSource(slot.red),
+      blueAlliance: resolveSource(slot.blue),
+      matches: matches
+        .filter((match) => match.slot === slot.key)
+        .sort((a, b) => a.match - b.match),
+      redWins: 0,
+      blueWins: 0,
+      winner: null,
+      loser: null,
+    };
+    nodes.set(slot.key, node);
+    state.nodes.push(node);
+
+    if (node.redAlliance === null || node.blueAlliance === null) {
+      for (const match of node.matches) {
+        (match.winner === null ? state.surplus : state.conflicts).push(
+          match.match
+        );
+      }
+    } else {
+      settleNode(node, node.redAlliance, node.blueAlliance, state);
+    }
+  }
+
+  state.champion = state.nodes.at(-1)?.winner ?? null;
+  return state;
+};
+
+const readBracketAssignments = (eventDb: EventDb): Record<string, string> => {
+  try {
+    const parsed = JSON.parse(
+      readEventConfig(eventDb, BRACKET_CONFIG_KEY) ?? "{}"
+    ) as unknown;
+    return parsed && typeof parsed === "object"
+      ? (parsed as Record<string, string>)
+      : {};
+  } catch {
+    return {};
+  }
+};
+
+const redScores = alias(elimsScores, "red_scores");
+const blueScores = alias(elimsScores, "blue_scores");
+
+const readPlayoffWinners = (eventDb: EventDb): Map<number, MatchWinner> => {
+  const rows = eventDb
+    .select({
+      match: elimsResults.match,
+      redScore: elimsResults.redScore,
+      blueScore: elimsResults.blueScore,
+      redPenaltyCommitted: elimsResults.redPenaltyCommitted,
+      bluePenaltyCommitted: elimsResults.bluePenaltyCommitted,
+      redDq: redScores.dq,
+      blueDq: blueScores.dq,
+    })
+    .from(elimsResults)
+    .leftJoin(
+      redScores,
+      and(
+        eq(redScores.match, elimsResults.match),
+        eq(redScores.alliance, ALLIANCE.red)
+      )
+    )
+    .leftJoin(
+      blueScores,
+      and(
+        eq(blueScores.match, elimsResults.match),
+        eq(blueScores.alliance, ALLIANCE.blue)
+      )
+    )
+    .all();
+  return new Map(
+    rows.map((row) => [
+      row.match,
+      decidePlayoffWinner({
+        redTotal: row.redScore + row.bluePenaltyCommitted,
+        blueTotal: row.blueScore + row.redPenaltyCommitted,
+        redDq: row.redDq === 1,
+        blueDq: row.blueDq === 1,
+      }),
+    ])
+  );
+};
+
+/**
+ * FTC Live numbers playoff matches in bracket order: match n plays the nth
+ * slot and every match from the finals on plays the finals. Brackets without
+ * a recorded assignment, such as imported ones, follow that numbering.
+ */
+const resolveNumberedSlot = (
+  slots: BracketSlot[],
+  matchNumber: number
+): string => slots[Math.min(matchNumber, slots.length) - 1]?.key ?? "";
+
+const listPlayoffMatches = (
+  eventDb: EventDb,
+  slots: BracketSlot[]
+): PlayoffMatch[] => {
+  const assignments = readBracketAssignments(eventDb);
+  const winners = readPlayoffWinners(eventDb);
+  const rows = eventDb
+    .select({ match: elims.match, red: elims.red, blue: elims.blue })
+    .from(elims)
+    .orderBy(asc(elims.match))
+    .all();
+  return rows.map((row) => ({
+    ...row,
+    slot:
+      assignments[String(row.match)] ?? resolveNumberedSlot(slots, row.match),
+    winner: winners.get(row.match) ?? null,
+  }));
+};
+
+const readAllianceTeams = (eventDb: EventDb): Map<number, number[]> => {
+  const rows = eventDb
+    .select()
+    .from(allianceTable)
+    .orderBy(asc(allianceTable.rank))
+    .all();
+  return new Map(
+    rows.map((row) => [
+      row.rank,
+      [row.team1, row.team2, row.team3].filter((team) => team > 0),
+    ])
+  );
+};
+
+const readBracketSlots = (
+  format: PlayoffFormat
+): RequestResult<BracketSlot[]> => {
+  const slots =
+    format.structure === "DOUBLE_ELIMINATION"
+      ? getBracketSlots(format.allianceCount)
+      : null;
+  if (!slots) {
+    return failure(
+      400,
+      "Only 4 or 6 alliance double-elimination playoffs are supported."
+    );
+  }
+  return success(slots);
+};
+
+/** Writes the planned match changes and the match-to-slot assignments. */
+const applyBracketState = (eventDb: EventDb, state: BracketState): void => {
+  const assignments = readBracketAssignments(eventDb);
+  const lastMatch = eventDb
+    .select({ last: max(elims.match) })
+    .from(elims)
+    .get();
+  let nextMatch = (lastMatch?.last ?? 0) + 1;
+
+  eventDb.transaction(() => {
+    for (const match of state.surplus) {
+      eventDb.delete(elims).where(eq(elims.match, match)).run();
+      eventDb.delete(elimsData).where(eq(elimsData.match, match)).run();
+      delete assignments[String(match)];
+    }
+    for (const update of state.updates) {
+      eventDb
+        .update(elims)
+        .set({ red: update.red, blue: update.blue })
+        .where(eq(elims.match, update.match))
+        .run();
+    }
+
+    for (const match of state.pending) {
+      eventDb
+        .insert(elims)
+        .values({ match: nextMatch, red: match.red, blue: match.blue })
+        .run();
+      eventDb
+        .insert(elimsData)
+        .values({
+          match: nextMatch,
+          status: MATCH_STATUS.scheduled,
+          randomization: UNSET_RANDOMIZATION,
+          start: UNSET_TIMESTAMP,
+          postedTime: UNSET_TIMESTAMP,
+          fmsMatchId: crypto.randomUUID(),
+          fmsScheduleDetailId: crypto.randomUUID(),
+        })
+        .run();
+      assignments[String(nextMatch)] = match.slot;
+      nextMatch += 1;
+    }
+
+    writeEventConfig(eventDb, BRACKET_CONFIG_KEY, JSON.stringify(assignments));
+  });
+};
+
+/**
+ * Refuses a playoff result that would reseat an alliance in a match that
+ * already has a committed result.
+ */
+export const checkPlayoffCommit = (
+  eventDb: EventDb,
+  matchNumber: number,
+  winner: MatchWinner
+): RequestResult<true> => {
+  const slots = readBracketSlots(readPlayoffFormat(eventDb));
+  if ("failure" in slots) {
+    return slots;
+  }
+  const matches = listPlayoffMatches(eventDb, slots.value).map((match) =>
+    match.match === matchNumber ? { ...match, winner } : match
+  );
+  const { conflicts } = resolveBracket(slots.value, matches);
+  if (conflicts.length > 0) {
+    return failure(
+      409,
+      "This result changes alliances in playoff matches that already have results.",
+      `Matches: ${conflicts.join(", ")}`
+    );
+  }
+  return success(true);
+};
+
+/** Seats alliances in the next playoff matches after a committed result. */
+export const advanceBracket = (eventDb: EventDb): void => {
+  const slots = readBracketSlots(readPlayoffFormat(eventDb));
+  if ("value" in slots) {
+    applyBracketState(
+      eventDb,
+      resolveBracket(slots.value, listPlayoffMatches(eventDb, slots.value))
+    );
+  }
+};
+
+export const readBracket = (eventDb: EventDb) => {
+  const format = readPlayoffFormat(eventDb);
+  const slots = readBracketSlots(format);
+  const state =
+    "value" in slots
+      ? resolveBracket(slots.value, listPlayoffMatches(eventDb, slots.value))
+      : null;
+  const alliances = readAllianceTeams(eventDb);
+
+  return {
+    structure: format.structure,
+    allianceCount: format.allianceCount,
+    alliances: [...alliances].map(([rank, teams]) => ({ rank, teams })),
+    startTime: readEventConfig(eventDb, "playoff.startTime"),
+    generated: state?.nodes.some((node) => node.matches.length > 0) ?? false,
+    champion: state?.champion ?? null,
+    nodes: state?.nodes ?? [],
+  };
+};
+
+export const generateBracket = (
+  eventDb: EventDb
+): RequestResult<ReturnType<typeof readBracket>> => {
+  const format = readPlayoffFormat(eventDb);
+  const slots = readBracketSlots(format);
+  if ("failure" in slots) {
+    return slots;
+  }
+
+  if (readAllianceTeams(eventDb).size < format.allianceCount) {
+    return failure(409, "Finalize alliance selection first.");
+  }
+  if (listPlayoffMatches(eventDb, slots.value).length > 0) {
+    return failure(409, "The playoff bracket has already been generated.");
+  }
+
+  applyBracketState(eventDb, resolveBracket(slots.value, []));
+  return success(readBracket(eventDb));
+};
+
+export const clearBracket = (
+  eventDb: EventDb
+): RequestResult<ReturnType<typeof readBracket>> => {
+  const committed = eventDb
+    .select({ match: elimsResults.match })
+    .from(elimsResults)
+    .get();
+  if (committed) {
+    return failure(409, "Playoff matches already have committed results.");
+  }
+
+  eventDb.transaction(() => {
+    eventDb.delete(elims).run();
+    eventDb.delete(elimsData).run();
+    eventDb
+      .delete(eventConfig)
+      .where(eq(eventConfig.key, BRACKET_CONFIG_KEY))
+      .run();
+  });
+  return success(readBracket(eventDb));
+};
+
+export const createPlayoffBracketRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/bracket",
+    requireEventRoles(auth, db, EVENT_ROLES),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => success(readBracket(eventDb))
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.post("/:code/bracket", requireEventRoles(auth, db, ["TSO"]), (c) => {
+    const { event, userId } = c.get("eventAccess");
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.eventCode,
+      generateBracket
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    writeEventLog(db, {
+      type: "PLAYOFF_BRACKET_GENERATED",
+      eventCode: event.eventCode,
+      info: `${result.value.structure}:${result.value.allianceCount}`,
+      extra: { userId },
+    });
+
+    return c.json(result.value, 201);
+  });
+
+  routes.delete("/:code/bracket", requireEventRoles(auth, db, ["TSO"]), (c) => {
+    const { event, userId } = c.get("eventAccess");
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      event.eventCode,
+      clearBracket
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    writeEventLog(db, {
+      type: "PLAYOFF_BRACKET_CLEARED",
+      eventCode: event.eventCode,
+      info: `${result.value.structure}:${result.value.allianceCount}`,
+      extra: { userId },
+    });
+
+    return c.json(result.value);
+  });
+
+  return routes;
+};
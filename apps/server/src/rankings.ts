@@ -0,0 +1,461 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import {
+  teamRanking,
+  team as teamTable,
+} from "@rms-local/db/schema/event-db/fms";
+import {
+  type AllianceScoreBreakdown,
+  type AllianceScoreSheet,
+  computeBonusRankingPoints,
+  countBonusRankingPoints,
+  RESULT_RANKING_POINTS,
+} from "@rms-local/scoring";
+import { asc, eq, getTableColumns } from "drizzle-orm";
+import { Hono } from "hono";
+
+import { EVENT_ROLES } from "./authorization";
+import type { AppContext } from "./context";
+import { readEventConfig, writeEventConfig } from "./event-config";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles } from "./events";
+import {
+  listScheduleMatches,
+  QUALIFICATION_SCHEDULE,
+  type ScheduleMatch,
+} from "./match-schedule";
+import type { MatchScoreRecord } from "./match-scores";
+import { failureResponse, success } from "./request-result";
+import { listCompetingTeamNumbers } from "./teams";
+
+const RANK_ACCUMULATOR = "2026V1";
+const MATCH_EVALUATOR = "Local2026V1";
+const DROP_LOWEST_AFTER_KEY = "rankDropLowestAfter";
+const FMS_EVENT_ID_KEY = "FMSEventId";
+const NOT_DISQUALIFIED = -1;
+const RANDOM_TIEBREAKER_RANGE = 1_000_000;
+const SORT_ORDER_DECIMALS = 4;
+
+type MatchOutcome = "loss" | "tie" | "win";
+
+/** One team's appearance in a committed qualification match. */
+export interface RankingAppearance {
+  auto: number;
+  disqualified: boolean;
+  endgame: number;
+  match: number;
+  noShow: boolean;
+  outcome: MatchOutcome;
+  rankingPoints: number;
+  score: number;
+  surrogate: boolean;
+  team: number;
+}
+
+export interface TeamRankingStats {
+  averageAuto: number;
+  averageEndgame: number;
+  averageScore: number;
+  disqualifiedMatches: number;
+  losses: number;
+  matchesCounted: number;
+  matchesPlayed: number;
+  random: number;
+  rank: number;
+  rankingScore: number;
+  team: number;
+  ties: number;
+  topScores: [number, number];
+  wins: number;
+}
+
+export interface RankingOptions {
+  /** Drop each team's lowest scoring match once it has played this many; 0 disables. */
+  dropLowestAfter: number;
+  randomFor: (team: number) => number;
+}
+
+export interface RankingRecord {
+  disqualified: number;
+  losses: number;
+  matchesCounted: number;
+  matchesPlayed: number;
+  nameShort: string;
+  rank: number;
+  rankChange: number;
+  rankingScore: string;
+  sortOrders: string[];
+  team: number;
+  ties: number;
+  wins: number;
+}
+
+const average = (values: number[]): number =>
+  values.length > 0
+    ? values.reduce((total, value) => total + value, 0) / values.length
+    : 0;
+
+const resolveOutcome = (own: number, opponent: number): MatchOutcome => {
+  if (own > opponent) {
+    return "win";
+  }
+  return own < opponent ? "loss" : "tie";
+};
+
+const buildAllianceAppearances = (
+  match: ScheduleMatch,
+  alliance: "blue" | "red",
+  sheet: AllianceScoreSheet,
+  breakdown: AllianceScoreBreakdown,
+  opponent: AllianceScoreBreakdown
+): RankingAppearance[] => {
+  const outcome = resolveOutcome(breakdown.total, opponent.total);
+  const earned =
+    RESULT_RANKING_POINTS[outcome] +
+    countBonusRankingPoints(computeBonusRankingPoints(sheet, breakdown));
+  const stations = [
+    {
+      slot: match[alliance][0],
+      disqualified: sheet.dq1,
+      noShow: sheet.noshow1,
+    },
+    {
+      slot: match[alliance][1],
+      disqualified: sheet.dq2,
+      noShow: sheet.noshow2,
+    },
+  ];
+
+  return stations.map(({ slot, disqualified, noShow }) => ({
+    match: match.match,
+    team: slot.team,
+    surrogate: slot.surrogate,
+    disqualified,
+    noShow,
+    outcome: disqualified ? "loss" : outcome,
+    rankingPoints: disqualified || noShow ? 0 : earned,
+    score: breakdown.score,
+    auto: breakdown.auto,
+    endgame: breakdown.endgame,
+  }));
+};
+
+/** Turns committed scores into per-team appearances for the ranker. */
+export const buildRankingAppearances = (
+  schedule: ScheduleMatch[],
+  scores: MatchScoreRecord[]
+): RankingAppearance[] => {
+  const scheduleByMatch = new Map(
+    schedule.map((match) => [match.match, match])
+  );
+
+  return scores.flatMap((record) => {
+    const match = scheduleByMatch.get(record.match);
+    if (!match) {
+      return [];
+    }
+    return [
+      ...buildAllianceAppearances(
+        match,
+        "red",
+        record.red,
+        record.score.red,
+        record.score.blue
+      ),
+      ...buildAllianceAppearances(
+        match,
+        "blue",
+        record.blue,
+        record.score.blue,
+        record.score.red
+      ),
+    ];
+  });
+};
+
+const dropLowestAppearance = (
+  appearances: RankingAppearance[],
+  dropLowestAfter: number
+): RankingAppearance[] => {
+  if (dropLowestAfter <= 0 || appearances.length < dropLowestAfter) {
+    return appearances;
+  }
+  const lowest = appearances.reduce((current, candidate) =>
+    candidate.score < current.score ||
+    (candidate.score === current.score &&
+      candidate.rankingPoints < current.rankingPoints)
+      ? candidate
+      : current
+  );
+  return appearances.filter((appearance) => appearance !== lowest);
+};
+
+const summarizeTeam = (
+  team: number,
+  appearances: RankingAppearance[],
+  options: RankingOptions
+): TeamRankingStats => {
+  const played = appearances.filter((appearance) => !appearance.surrogate);
+  const counted = dropLowestAppearance(played, options.dropLowestAfter);
+  const scores = counted
+    .map((appearance) => appearance.score)
+    .sort((a, b) => b - a);
+
+  return {
+    team,
+    rank: 0,
+    wins: played.filter((appearance) => appearance.outcome === "win").length,
+    losses: played.filter((appearance) => appearance.outcome === "loss").length,
+    ties: played.filter((appearance) => appearance.outcome === "tie").length,
+    matchesPlayed: played.length,
+    matchesCounted: counted.length,
+    disqualifiedMatches: played.filter((appearance) => appearance.disqualified)
+      .length,
+    rankingScore: average(
+      counted.map((appearance) => appearance.rankingPoints)
+    ),
+    averageScore: average(scores),
+    averageEndgame: average(counted.map((appearance) => appearance.endgame)),
+    averageAuto: average(counted.map((appearance) => appearance.auto)),
+    topScores: [scores[0] ?? 0, scores[1] ?? 0],
+    random: options.randomFor(team),
+  };
+};
+
+const compareTeams = (a: TeamRankingStats, b: TeamRankingStats): number =>
+  b.rankingScore - a.rankingScore ||
+  b.averageScore - a.averageScore ||
+  b.averageEndgame - a.averageEndgame ||
+  b.averageAuto - a.averageAuto ||
+  b.topScores[0] - a.topScores[0] ||
+  b.topScores[1] - a.topScores[1] ||
+  b.random - a.random ||
+  a.team - b.team;
+
+/**
+ * Ranks teams by average ranking points, then average match points, base
+ * points, auto points, their two best scores and finally a random draw.
+ * Surrogate appearances never count.
+ */
+export const calculateRankings = (
+  teams: number[],
+  appearances: RankingAppearance[],
+  options: RankingOptions
+): TeamRankingStats[] => {
+  const byTeam = new Map<number, RankingAppearance[]>(
+    teams.map((team) => [team, []])
+  );
+  for (const appearance of appearances) {
+    byTeam.get(appearance.team)?.push(appearance);
+  }
+
+  return [...byTeam.entries()]
+    .map(([team, teamAppearances]) =>
+      summarizeTeam(team, teamAppearances, options)
+    )
+    .sort(compareTeams)
+    .map((stats, index) => ({ ...stats, rank: index + 1 }));
+};
+
+/** Decimal text as FTC Live stores it: whole numbers keep one decimal place. */
+const formatDecimal = (value: number): string =>
+  Number.isInteger(value) ? value.toFixed(1) : String(value);
+
+const formatSortOrder = (value: number): string =>
+  value.toFixed(SORT_ORDER_DECIMALS);
+
+type SortOrders = [string, string, string, string, string, string];
+
+export const formatSortOrders = (stats: TeamRankingStats): SortOrders => [
+  formatSortOrder(stats.rankingScore),
+  formatSortOrder(stats.averageScore),
+  formatSortOrder(stats.averageEndgame),
+  formatSortOrder(stats.averageAuto),
+  formatSortOrder(stats.random),
+  `${stats.topScores[0]}.${stats.topScores[1]}`,
+];
+
+export const ensureFmsEventId = (eventDb: EventDb): string => {
+  const existing = readEventConfig(eventDb, FMS_EVENT_ID_KEY);
+  if (existing) {
+    return existing;
+  }
+  const created = crypto.randomUUID();
+  writeEventConfig(eventDb, FMS_EVENT_ID_KEY, created);
+  return created;
+};
+
+const readTeamRankingRows = (eventDb: EventDb) =>
+  eventDb
+    .select({
+      ...getTableColumns(teamRanking),
+      teamNumber: teamTable.teamNumber,
+      teamNameShort: teamTable.teamNameShort,
+    })
+    .from(teamRanking)
+    .leftJoin(teamTable, eq(teamTable.fmsTeamId, teamRanking.fmsTeamId))
+    .orderBy(asc(teamRanking.ranking))
+    .all();
+
+const readFmsTeamIds = (eventDb: EventDb): Map<number, string> => {
+  const rows = eventDb
+    .select({
+      teamNumber: teamTable.teamNumber,
+      fmsTeamId: teamTable.fmsTeamId,
+    })
+    .from(teamTable)
+    .all();
+  return new Map(rows.map((row) => [row.teamNumber, row.fmsTeamId]));
+};
+
+const readDropLowestAfter = (eventDb: EventDb): number => {
+  const value = Number.parseInt(
+    readEventConfig(eventDb, DROP_LOWEST_AFTER_KEY) ?? "",
+    10
+  );
+  return Number.isInteger(value) && value > 0 ? value : 0;
+};
+
+/**
+ * Rebuilds `team_ranking` from every committed qualification score. Random
+ * tiebreakers survive recomputation so a team keeps its draw all event.
+ */
+export const recomputeRankings = (
+  eventDb: EventDb,
+  scores: MatchScoreRecord[],
+  modifiedAt: number
+): TeamRankingStats[] => {
+  const previousRows = readTeamRankingRows(eventDb);
+  const previousRank = new Map<number, number>();
+  const previousRandom = new Map<number, number>();
+  for (const row of previousRows) {
+    if (row.teamNumber !== null) {
+      previousRank.set(row.teamNumber, row.ranking);
+      previousRandom.set(row.teamNumber, Number(row.sortOrder5));
+    }
+  }
+
+  const appearances = buildRankingAppearances(
+    listScheduleMatches(eventDb, QUALIFICATION_SCHEDULE),
+    scores
+  );
+  const rankings = calculateRankings(
+    listCompetingTeamNumbers(eventDb),
+    appearances,
+    {
+      dropLowestAfter: readDropLowestAfter(eventDb),
+      randomFor: (team) =>
+        previousRandom.get(team) ?? Math.random() * RANDOM_TIEBREAKER_RANGE,
+    }
+  );
+
+  const fmsEventId = ensureFmsEventId(eventDb);
+  const fmsTeamIds = readFmsTeamIds(eventDb);
+  const modifiedOn = new Date(modifiedAt).toISOString();
+
+  eventDb.transaction(() => {
+    eventDb.delete(teamRanking).run();
+    for (const stats of rankings) {
+      const previous = previousRank.get(stats.team);
+      const [
+        sortOrder1,
+        sortOrder2,
+        sortOrder3,
+        sortOrder4,
+        sortOrder5,
+        sortOrder6,
+      ] = formatSortOrders(stats);
+      eventDb
+        .insert(teamRanking)
+        .values({
+          fmsEventId,
+          fmsTeamId: fmsTeamIds.get(stats.team) ?? String(stats.team),
+          ranking: stats.rank,
+          rankChange: previous === undefined ? 0 : previous - stats.rank,
+          wins: stats.wins,
+          losses: stats.losses,
+          ties: stats.ties,
+          qualifyingScore: formatDecimal(stats.rankingScore),
+          pointsScoredTotal: stats.rankingScore,
+          pointsScoredAverage: formatDecimal(
+            stats.matchesCounted > 0
+              ? stats.rankingScore / stats.matchesCounted
+              : 0
+          ),
+          pointsScoredAverageChange: 0,
+          matchesPlayed: stats.matchesPlayed,
+          matchesCounted: stats.matchesCounted,
+          disqualified:
+            stats.disqualifiedMatches > 0
+              ? stats.disqualifiedMatches
+              : NOT_DISQUALIFIED,
+          sortOrder1,
+          sortOrder2,
+          sortOrder3,
+          sortOrder4,
+          sortOrder5,
+          sortOrder6,
+          modifiedOn,
+        })
+        .run();
+    }
+
+    if (!readEventConfig(eventDb, "RANK_ACCUMULATOR")) {
+      writeEventConfig(eventDb, "RANK_ACCUMULATOR", RANK_ACCUMULATOR);
+    }
+    if (!readEventConfig(eventDb, "MATCH_EVALUATOR")) {
+      writeEventConfig(eventDb, "MATCH_EVALUATOR", MATCH_EVALUATOR);
+    }
+  });
+
+  return rankings;
+};
+
+export const listRankings = (eventDb: EventDb): RankingRecord[] =>
+  readTeamRankingRows(eventDb).map((row) => ({
+    rank: row.ranking,
+    rankChange: row.rankChange,
+    team: row.teamNumber ?? 0,
+    nameShort: row.teamNameShort ?? "",
+    wins: row.wins,
+    losses: row.losses,
+    ties: row.ties,
+    rankingScore: row.qualifyingScore,
+    sortOrders: [
+      row.sortOrder1,
+      row.sortOrder2,
+      row.sortOrder3,
+      row.sortOrder4,
+      row.sortOrder5,
+      row.sortOrder6,
+    ],
+    matchesPlayed: row.matchesPlayed,
+    matchesCounted: row.matchesCounted,
+    disqualified: row.disqualified,
+  }));
+
+export const createRankingRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/rankings",
+    requireEventRoles(auth, db, EVENT_ROLES),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => success(listRankings(eventDb))
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json({ rankings: result.value });
+    }
+  );
+
+  return routes;
+};
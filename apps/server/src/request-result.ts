@@ -0,0 +1,63 @@
+import type { Context } from "hono";
+
+export const resolveErrorMessage = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+
+  if (typeof error === "string") {
+    return error;
+  }
+
+  if (error && typeof error === "object") {
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === "string") {
+      return message;
+    }
+  }
+
+  return "Unknown error.";
+};
+
+export const isConflictError = (error: unknown): boolean => {
+  const message = resolveErrorMessage(error).toLowerCase();
+  return (
+    message.includes("unique constraint") ||
+    message.includes("already exists") ||
+    message.includes("already taken")
+  );
+};
+
+export type FailureStatus = 400 | 401 | 403 | 404 | 409 | 500 | 503;
+
+export interface RequestFailure {
+  details?: string;
+  error: string;
+  status: FailureStatus;
+}
+
+export type RequestResult<TValue> =
+  | { failure: RequestFailure }
+  | { value: TValue };
+
+export const failure = (
+  status: FailureStatus,
+  error: string,
+  details?: string
+): RequestResult<never> => ({
+  failure: {
+    status,
+    error,
+    details,
+  },
+});
+
+export const success = <TValue>(value: TValue): RequestResult<TValue> => ({
+  value,
+});
+
+export const failureResponse = (c: Context, requestFailure: RequestFailure) =>
+  c.json(
+    { error: requestFailure.error, details: requestFailure.details },
+    requestFailure.status
+  );
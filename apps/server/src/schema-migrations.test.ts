@@ -0,0 +1,198 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { file } from "bun";
+
+import {
+  createEventDatabaseManager,
+  EVENT_MIGRATIONS,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importEventDump } from "./event-import";
+import { type MigrationPlan, migrateDatabase } from "./schema-migrations";
+
+/** FTC Live export of a `2026_2` database with FTC Live's patches 01-02. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+const EVENT_CODE = "1234";
+
+/** The event plan with one more patch, as the next schema change would be. */
+const NEXT_PLAN: MigrationPlan = {
+  ...EVENT_MIGRATIONS,
+  patches: [
+    ...EVENT_MIGRATIONS.patches,
+    {
+      id: "04_addTeamPronunciation",
+      version: 4,
+      statements: ["ALTER TABLE teams ADD COLUMN pronunciation TEXT"],
+    },
+  ],
+};
+
+const EVENT_PATCH_IDS = EVENT_MIGRATIONS.patches.map((patch) => patch.id);
+
+/** Tables the event patches add; event databases from before them lack these. */
+const PATCHED_TABLES = [
+  "advancement_points",
+  "practice_randomization_history",
+  "quals_randomization_history",
+  "elims_randomization_history",
+  "form_answers",
+  "form_notes",
+];
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+/** Migrations run on the raw connection underneath the Drizzle instance. */
+const useEventDb = <TValue>(task: (eventDb: Database) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, (eventDb) => task(eventDb.$client));
+
+const readVersion = (eventDb: Database) =>
+  eventDb.query("SELECT value FROM config WHERE key = 'db.version'").get();
+
+const listPatchIds = (eventDb: Database) =>
+  eventDb
+    .query("SELECT patch_id FROM patches ORDER BY db_version")
+    .all()
+    .map((row) => (row as { patch_id: string }).patch_id);
+
+const hasColumn = (eventDb: Database, table: string, column: string) =>
+  Boolean(
+    eventDb
+      .query("SELECT name FROM pragma_table_info(?1) WHERE name = ?2")
+      .get(table, column)
+  );
+
+const listMissingTables = (eventDb: Database) =>
+  PATCHED_TABLES.filter(
+    (table) =>
+      !eventDb
+        .query(
+          "SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?1"
+        )
+        .get(table)
+  );
+
+const reopen = (): void => {
+  eventDatabases.close();
+  eventDatabases = createEventDatabaseManager(directory);
+};
+
+/** Stamps the event database, then reopens it the way the server does. */
+const reopenAtVersion = (version: string): void => {
+  useEventDb((eventDb) =>
+    eventDb
+      .query("UPDATE config SET value = ?1 WHERE key = 'db.version'")
+      .run(version)
+  );
+  reopen();
+};
+
+/**
+ * Takes the event database back to the schema it had before the patches:
+ * no patch rows and none of the tables they add. `version` is the stamp it
+ * is left with, or null for no stamp at all.
+ */
+const rewindToLegacySchema = (version: string | null): void => {
+  useEventDb((eventDb) => {
+    for (const table of [...PATCHED_TABLES, "patches"]) {
+      eventDb.exec(`DROP TABLE ${table}`);
+    }
+    eventDb.exec("DELETE FROM config WHERE key = 'db.version'");
+    if (version) {
+      eventDb
+        .query("INSERT INTO config (key, value) VALUES ('db.version', ?1)")
+        .run(version);
+    }
+  });
+  reopen();
+};
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "schema-migrations-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("migrateDatabase", () => {
+  test("creates event databases at the latest version with every patch recorded", () => {
+    useEventDb((eventDb) => {
+      expect(readVersion(eventDb)).toEqual({ value: "2026_3" });
+      expect(listPatchIds(eventDb)).toEqual(EVENT_PATCH_IDS);
+      expect(listMissingTables(eventDb)).toEqual([]);
+    });
+  });
+
+  test("adds the patched tables to an event database created before versioning", () => {
+    rewindToLegacySchema(null);
+
+    useEventDb((eventDb) => {
+      expect(listMissingTables(eventDb)).toEqual([]);
+      expect(readVersion(eventDb)).toEqual({ value: "2026_3" });
+      expect(listPatchIds(eventDb)).toEqual(EVENT_PATCH_IDS);
+    });
+  });
+
+  test("adds the patched tables to a database stamped without its patches", () => {
+    rewindToLegacySchema("2026_2");
+
+    useEventDb((eventDb) => {
+      expect(listMissingTables(eventDb)).toEqual([]);
+      expect(listPatchIds(eventDb)).toEqual(EVENT_PATCH_IDS);
+    });
+  });
+
+  test("applies a later patch to a new database exactly once", () => {
+    useEventDb((eventDb) => {
+      migrateDatabase(eventDb, NEXT_PLAN);
+      migrateDatabase(eventDb, NEXT_PLAN);
+
+      expect(readVersion(eventDb)).toEqual({ value: "2026_4" });
+      expect(listPatchIds(eventDb)).toEqual([
+        ...EVENT_PATCH_IDS,
+        "04_addTeamPronunciation",
+      ]);
+      expect(hasColumn(eventDb, "teams", "pronunciation")).toBe(true);
+    });
+  });
+
+  test("keeps one record of each patch when importing the FTC Live event", async () => {
+    const fixture = await file(FIXTURE_PATH).json();
+
+    useEventDb((eventDb) => {
+      importEventDump(eventDb, fixture);
+      expect(readVersion(eventDb)).toEqual({ value: "2026_3" });
+      expect(listPatchIds(eventDb)).toEqual(EVENT_PATCH_IDS);
+
+      migrateDatabase(eventDb, NEXT_PLAN);
+
+      expect(readVersion(eventDb)).toEqual({ value: "2026_4" });
+      expect(
+        eventDb.query("SELECT COUNT(*) AS teams FROM teams").get()
+      ).toEqual({ teams: fixture.teams.length });
+    });
+  });
+
+  test("refuses to open a database newer than the server", () => {
+    reopenAtVersion("2026_4");
+
+    expect(() => useEventDb(readVersion)).toThrow(
+      "Database schema 2026_4 is newer than this server supports (2026_3)."
+    );
+  });
+
+  test("refuses to open a database from another season", () => {
+    reopenAtVersion("2025_2");
+
+    expect(() => useEventDb(readVersion)).toThrow(
+      "Database schema 2025_2 is not a 2026 schema this server can open."
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import type { Database } from "bun:sqlite";
+import { createSchemaSql } from "@rms-local/db/ddl";
+import { patches } from "@rms-local/db/schema/event-db/event-state";
+
+export const DB_VERSION_CONFIG_KEY = "db.version";
+
+/** FTC Live's shape: `patch` holds the statements as a JSON array. */
+const PATCHES_TABLE_SQL = createSchemaSql({ patches });
+
+const VERSION_NUMBER_PATTERN = /^\d+$/;
+
+export interface SchemaPatch {
+  id: string;
+  statements: string[];
+  version: number;
+}
+
+export interface MigrationPlan {
+  /** Version of a database that has no `db.version` row. */
+  baselineVersion: number;
+  /** Changes made after the baseline, each with a higher version. */
+  patches: SchemaPatch[];
+  /** `db.version` is written as `<prefix>_<version>`, e.g. `2026_2`. */
+  versionPrefix: string;
+}
+
+/** Throws for a version written by a different schema line. */
+const parseDbVersion = (value: string | null, plan: MigrationPlan): number => {
+  if (value === null) {
+    return plan.baselineVersion;
+  }
+  const separator = value.lastIndexOf("_");
+  const version = value.slice(separator + 1);
+  if (
+    separator < 0 ||
+    value.slice(0, separator) !== plan.versionPrefix ||
+    !VERSION_NUMBER_PATTERN.test(version)
+  ) {
+    throw new Error(
+      `Database schema ${value} is not a ${plan.versionPrefix} schema this server can open.`
+    );
+  }
+  return Number(version);
+};
+
+const readDbVersion = (db: Database): string | null => {
+  const row = db
+    .query("SELECT value FROM config WHERE key = ?1")
+    .get(DB_VERSION_CONFIG_KEY) as { value: string | null } | null;
+  return row?.value ?? null;
+};
+
+const writeDbVersion = (db: Database, value: string): void => {
+  db.query(
+    "INSERT INTO config (key, value) VALUES (?1, ?2) ON CONFLICT(key) DO UPDATE SET value = excluded.value"
+  ).run(DB_VERSION_CONFIG_KEY, value);
+};
+
+const latestVersion = (plan: MigrationPlan): number =>
+  Math.max(plan.baselineVersion, ...plan.patches.map((patch) => patch.version));
+
+const recordPatch = (db: Database, patch: SchemaPatch): void => {
+  db.query(
+    "INSERT INTO patches (patch_id, db_version, patch, applied) VALUES (?1, ?2, ?3, 1)"
+  ).run(patch.id, patch.version, JSON.stringify(patch.statements));
+};
+
+const readAppliedPatches = (db: Database) =>
+  db.query("SELECT patch_id, db_version FROM patches").all() as {
+    db_version: number;
+    patch_id: string;
+  }[];
+
+/**
+ * Applies every patch the database has not recorded, oldest first, each in
+ * its own transaction. Throws rather than touch a database whose schema is
+ * newer than the newest patch this server knows, or from another schema line.
+ */
+export const migrateDatabase = (db: Database, plan: MigrationPlan): void => {
+  db.exec(PATCHES_TABLE_SQL);
+
+  const applied = readAppliedPatches(db);
+  const latest = latestVersion(plan);
+  const storedVersion = readDbVersion(db);
+  const current = Math.max(
+    parseDbVersion(storedVersion, plan),
+    ...applied.map((patch) => patch.db_version)
+  );
+  if (current > latest) {
+    throw new Error(
+      `Database schema ${storedVersion ?? current} is newer than this server supports (${plan.versionPrefix}_${latest}).`
+    );
+  }
+
+  const appliedIds = new Set(applied.map((patch) => patch.patch_id));
+  const pending = plan.patches
+    .filter((patch) => !appliedIds.has(patch.id))
+    .sort((a, b) => a.version - b.version);
+  for (const patch of pending) {
+    db.transaction(() => {
+      for (const statement of patch.statements) {
+        db.exec(statement);
+      }
+      recordPatch(db, patch);
+    })();
+  }
+
+  const version = `${plan.versionPrefix}_${Math.max(current, latest)}`;
+  if (storedVersion !== version) {
+    writeDbVersion(db, version);
+  }
+};
+
+/**
+ * Records every patch as applied and stamps the newest version, for a
+ * database just created from the current schema: it already has what the
+ * patches add, and running them again could fail.
+ */
+export const markSchemaCurrent = (db: Database, plan: MigrationPlan): void => {
+  db.exec(PATCHES_TABLE_SQL);
+  db.transaction(() => {
+    for (const patch of plan.patches) {
+      recordPatch(db, patch);
+    }
+    writeDbVersion(db, `${plan.versionPrefix}_${latestVersion(plan)}`);
+  })();
+};
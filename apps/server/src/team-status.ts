@@ -0,0 +1,254 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { status as statusTable } from "@rms-local/db/schema/event-db/teams";
+import { Hono } from "hono";
+
+import type { AppContext } from "./context";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import {
+  CHECKIN_FORM_ID,
+  INSPECTION_STATUS,
+  type InspectionStatus,
+  readForm,
+  saveInspection,
+  writeTeamStatus,
+} from "./inspection";
+import {
+  isMatchPlayed,
+  listScheduleMatches,
+  QUALIFICATION_SCHEDULE,
+} from "./match-schedule";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+import { findTeam, listTeams, parseTeamNumber } from "./teams";
+
+/** Stages shown on the status board, in the order a team usually visits them. */
+export const STATUS_STAGES = [
+  "checkin",
+  "hardware",
+  "sizing",
+  "software",
+  "field",
+  "judging",
+] as const;
+
+export type StatusStage = (typeof STATUS_STAGES)[number];
+
+/** A team may play qualification matches once all of these have passed. */
+const ROBOT_INSPECTION_STAGES: StatusStage[] = [
+  "hardware",
+  "sizing",
+  "software",
+  "field",
+];
+
+/** FTC Live records robot inspection as one stage; imported events keep it. */
+const ROBOT_STAGE = "robot";
+
+const STATUS_VALUES = new Set<number>(Object.values(INSPECTION_STATUS));
+
+export interface TeamStatusRecord {
+  competing: boolean;
+  inspected: boolean;
+  nameShort: string;
+  stages: Record<StatusStage, InspectionStatus>;
+  team: number;
+}
+
+const readStatusRows = (eventDb: EventDb) =>
+  eventDb.select().from(statusTable).all();
+
+const isInspected = (statuses: Map<string, number>): boolean =>
+  statuses.get(ROBOT_STAGE) === INSPECTION_STATUS.passed ||
+  ROBOT_INSPECTION_STAGES.every(
+    (stage) => statuses.get(stage) === INSPECTION_STATUS.passed
+  );
+
+export const listTeamStatuses = (eventDb: EventDb): TeamStatusRecord[] => {
+  const statusesByTeam = new Map<number, Map<string, number>>();
+  for (const row of readStatusRows(eventDb)) {
+    const statuses = statusesByTeam.get(row.team) ?? new Map();
+    statuses.set(row.stage, row.status);
+    statusesByTeam.set(row.team, statuses);
+  }
+
+  return listTeams(eventDb).map((team) => {
+    const statuses = statusesByTeam.get(team.number) ?? new Map();
+    return {
+      team: team.number,
+      nameShort: team.nameShort,
+      competing: team.competing === "FULL",
+      inspected: isInspected(statuses),
+      stages: Object.fromEntries(
+        STATUS_STAGES.map((stage) => [
+          stage,
+          statuses.get(stage) ?? INSPECTION_STATUS.notStarted,
+        ])
+      ) as Record<StatusStage, InspectionStatus>,
+    };
+  });
+};
+
+const hasQualificationStarted = (eventDb: EventDb): boolean =>
+  listScheduleMatches(eventDb, QUALIFICATION_SCHEDULE).some(isMatchPlayed);
+
+export const readStatusBoard = (eventDb: EventDb) => {
+  const teams = listTeamStatuses(eventDb);
+  return {
+    stages: STATUS_STAGES,
+    teams,
+    qualsStarted: hasQualificationStarted(eventDb),
+    uninspected: teams
+      .filter((team) => team.competing && !team.inspected)
+      .map((team) => team.team),
+  };
+};
+
+/**
+ * Marks a team as arrived. When the event has a check-in form the answers
+ * are saved through the inspection engine and decide the stage; without one,
+ * arriving is enough to pass check-in.
+ */
+export const checkInTeam = (
+  eventDb: EventDb,
+  team: number,
+  payload: unknown,
+  modifiedBy: string,
+  modifiedAt: number
+): RequestResult<InspectionStatus> => {
+  if (!findTeam(eventDb, team)) {
+    return failure(404, "Team not found.");
+  }
+
+  const form = readForm(eventDb, CHECKIN_FORM_ID);
+  if (!form) {
+    writeTeamStatus(eventDb, team, CHECKIN_FORM_ID, INSPECTION_STATUS.passed);
+    return success(INSPECTION_STATUS.passed);
+  }
+
+  const data = (payload ?? {}) as Record<string, unknown>;
+  const saved = saveInspection(
+    eventDb,
+    form,
+    team,
+    { answers: [], ...data, finished: true },
+    modifiedBy,
+    modifiedAt
+  );
+  return "failure" in saved ? saved : success(saved.value.status);
+};
+
+const setStageStatus = (
+  eventDb: EventDb,
+  team: number,
+  stage: string,
+  payload: unknown
+): RequestResult<InspectionStatus> => {
+  if (!STATUS_STAGES.includes(stage as StatusStage)) {
+    return failure(400, `stage must be one of ${STATUS_STAGES.join(", ")}.`);
+  }
+  if (!findTeam(eventDb, team)) {
+    return failure(404, "Team not found.");
+  }
+  const status = (payload as Record<string, unknown> | null)?.status;
+  if (typeof status !== "number" || !STATUS_VALUES.has(status)) {
+    return failure(400, "status must be 0, 1, 2 or 3.");
+  }
+
+  writeTeamStatus(eventDb, team, stage, status as InspectionStatus);
+  return success(status as InspectionStatus);
+};
+
+export const createTeamStatusRoutes = ({
+  auth,
+  db,
+  eventDatabases,
+}: AppContext) => {
+  const routes = new Hono();
+
+  routes.get(
+    "/:code/team-status",
+    requireEventRoles(auth, db, ["TSO", "INSPECTOR", "LEAD_INSPECTOR"]),
+    (c) => {
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        c.get("eventAccess").event.eventCode,
+        (eventDb) => success(readStatusBoard(eventDb))
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      return c.json(result.value);
+    }
+  );
+
+  routes.put(
+    "/:code/team-status/:team/:stage",
+    requireEventRoles(auth, db, ["TSO", "INSPECTOR", "LEAD_INSPECTOR"]),
+    async (c) => {
+      const team = parseTeamNumber(c.req.param("team"));
+      if (!team) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const stage = c.req.param("stage");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => setStageStatus(eventDb, team, stage, payload)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAM_STATUS_CHANGED",
+        eventCode: event.eventCode,
+        info: `${stage}:${team}`,
+        extra: { status: result.value, userId },
+      });
+
+      return c.json({ team, stage, status: result.value });
+    }
+  );
+
+  routes.post(
+    "/:code/checkin/:team",
+    requireEventRoles(auth, db, ["TSO"]),
+    async (c) => {
+      const team = parseTeamNumber(c.req.param("team"));
+      if (!team) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => checkInTeam(eventDb, team, payload, userId, Date.now())
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAM_CHECKED_IN",
+        eventCode: event.eventCode,
+        info: String(team),
+        extra: { status: result.value, userId },
+      });
+
+      return c.json({ team, stage: CHECKIN_FORM_ID, status: result.value });
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { EventDb } from "@rms-local/db/event-db";
+
+import {
+  createEventDatabaseManager,
+  type EventDatabaseManager,
+} from "./event-database";
+import { importTeams, listTeams, parseCsvTeams } from "./teams";
+
+const EVENT_CODE = "1234";
+const ACTOR = "teams-test";
+
+let directory: string;
+let eventDatabases: EventDatabaseManager;
+
+const useEventDb = <TValue>(task: (eventDb: EventDb) => TValue): TValue =>
+  eventDatabases.use(EVENT_CODE, task);
+
+const parseTeams = (content: string) => {
+  const result = parseCsvTeams(content);
+  if (!("value" in result)) {
+    throw new Error(result.failure.error);
+  }
+  return result.value;
+};
+
+beforeEach(() => {
+  directory = mkdtempSync(path.join(tmpdir(), "teams-"));
+  eventDatabases = createEventDatabaseManager(directory);
+  eventDatabases.create(EVENT_CODE);
+});
+
+afterEach(() => {
+  eventDatabases.close();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe("parseCsvTeams", () => {
+  test("maps loosely named headers onto team fields", () => {
+    const [team] = parseTeams(
+      "\uFEFFTeam #,Short Name,Robot,City,Rookie Year,Inspire Eligible,Competing\n" +
+        '1234,"Bots, Inc.",Widget,Austin,2019,no,none'
+    );
+
+    expect(team).toMatchObject({
+      number: 1234,
+      nameShort: "Bots, Inc.",
+      robotName: "Widget",
+      city: "Austin",
+      rookieYear: 2019,
+      inspireEligible: false,
+      competing: "NONE",
+    });
+  });
+
+  test("names the line of the first bad row", () => {
+    expect(
+      parseCsvTeams("Team,Name\n1234,Robo Rangers\n\nabc,Gearheads\n5678,")
+    ).toEqual({
+      failure: {
+        status: 400,
+        error: "Line 4: number must be a positive integer.",
+      },
+    });
+  });
+
+  test("rejects a bad value in an optional column", () => {
+    const result = parseCsvTeams("Team,Rookie Year\n1234,last year");
+
+    expect("failure" in result && result.failure.error).toBe(
+      "Line 2: rookieYear must be an integer of at least -1."
+    );
+  });
+
+  test("needs at least one team under the header", () => {
+    expect("failure" in parseCsvTeams("Team,Name\n")).toBe(true);
+  });
+});
+
+describe("importTeams", () => {
+  test("adds every parsed team", () => {
+    const teams = parseTeams("Team,Name\n1234,Robo Rangers\n5678,Gearheads");
+    const result = useEventDb((eventDb) => importTeams(eventDb, teams, ACTOR));
+
+    expect("value" in result).toBe(true);
+    expect(
+      useEventDb(listTeams).map((team) => [team.number, team.nameShort])
+    ).toEqual([
+      [1234, "Robo Rangers"],
+      [5678, "Gearheads"],
+    ]);
+  });
+
+  test("refuses a file that lists a team twice and adds none of it", () => {
+    const teams = parseTeams(
+      "Team,Name\n1234,Robo Rangers\n5678,Gearheads\n1234,Robo Rangers again"
+    );
+    const result = useEventDb((eventDb) => importTeams(eventDb, teams, ACTOR));
+
+    expect(result).toEqual({
+      failure: {
+        status: 400,
+        error: "Import contains duplicate team numbers.",
+        details: "1234",
+      },
+    });
+    expect(useEventDb(listTeams)).toEqual([]);
+  });
+
+  test("refuses teams the event already has", () => {
+    const teams = parseTeams("Team,Name\n1234,Robo Rangers");
+    useEventDb((eventDb) => importTeams(eventDb, teams, ACTOR));
+    const result = useEventDb((eventDb) => importTeams(eventDb, teams, ACTOR));
+
+    expect("failure" in result && result.failure.status).toBe(409);
+  });
+});
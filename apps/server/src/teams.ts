@@ -0,0 +1,840 @@
+import type { EventDb } from "@rms-local/db/event-db";
+import { team as teamTable } from "@rms-local/db/schema/event-db/fms";
+import { practice, quals } from "@rms-local/db/schema/event-db/matches";
+import { teams as teamsTable } from "@rms-local/db/schema/event-db/teams";
+import { asc, eq, or } from "drizzle-orm";
+import { Hono } from "hono";
+
+import { ADMIN_ROLE, EVENT_ROLES } from "./authorization";
+import type { AppContext } from "./context";
+import { type CsvRow, parseCsv } from "./csv";
+import { runEventDatabaseTask } from "./event-database";
+import { requireEventRoles, writeEventLog } from "./events";
+import { decodeFmsGuid } from "./fms-guid";
+import {
+  failure,
+  failureResponse,
+  type RequestResult,
+  success,
+} from "./request-result";
+
+export const TEAM_COMPETING_STATUSES = ["FULL", "NONE"] as const;
+
+export type TeamCompetingStatus = (typeof TEAM_COMPETING_STATUSES)[number];
+
+const TEAM_REQUIRED_TEXT_FIELDS = [
+  "nameShort",
+  "city",
+  "stateProv",
+  "country",
+] as const;
+const TEAM_OPTIONAL_TEXT_FIELDS = [
+  "nameLong",
+  "robotName",
+  "website",
+  "schoolName",
+] as const;
+const UNKNOWN_ROOKIE_YEAR = -1;
+/** Integer team fields with the smallest value each accepts. */
+const TEAM_INTEGER_FIELDS = {
+  advancement: 0,
+  division: 0,
+  rookieYear: UNKNOWN_ROOKIE_YEAR,
+} as const;
+const TEAM_FLAG_FIELDS = ["inspireEligible", "promoteEligible"] as const;
+const TRUTHY_CSV_VALUES = new Set(["1", "true", "yes", "y"]);
+const TEAM_SCHEDULE_TABLES = [practice, quals] as const;
+
+/** Maps normalized CSV header names to team payload fields. */
+const CSV_COLUMN_FIELDS: Record<string, string> = {
+  number: "number",
+  team: "number",
+  teamnumber: "number",
+  name: "nameShort",
+  nameshort: "nameShort",
+  shortname: "nameShort",
+  teamname: "nameShort",
+  namelong: "nameLong",
+  longname: "nameLong",
+  robotname: "robotName",
+  robot: "robotName",
+  city: "city",
+  state: "stateProv",
+  stateprov: "stateProv",
+  province: "stateProv",
+  country: "country",
+  website: "website",
+  rookieyear: "rookieYear",
+  rookie: "rookieYear",
+  school: "schoolName",
+  schoolname: "schoolName",
+  division: "division",
+  advancement: "advancement",
+  inspireeligible: "inspireEligible",
+  promoteeligible: "promoteEligible",
+  competing: "competing",
+};
+
+const CSV_NUMERIC_FIELDS = new Set([
+  "number",
+  "advancement",
+  "division",
+  "rookieYear",
+]);
+const CSV_FLAG_FIELDS = new Set<string>(TEAM_FLAG_FIELDS);
+const CSV_HEADER_NOISE_PATTERN = /[^a-z]/g;
+
+export interface TeamRecord {
+  advancement: number;
+  city: string;
+  competing: TeamCompetingStatus;
+  country: string;
+  division: number;
+  fmsTeamId: string;
+  inspireEligible: boolean;
+  nameLong: string | null;
+  nameShort: string;
+  number: number;
+  promoteEligible: boolean;
+  robotName: string | null;
+  rookieYear: number;
+  schoolName: string | null;
+  stateProv: string;
+  website: string | null;
+}
+
+/** FTC-Live bookkeeping columns that are preserved when importing a dump. */
+interface FmsTeamFields {
+  cmpPrequalified: boolean;
+  createdBy: string | null;
+  createdOn: string | null;
+  demoTeam: boolean;
+  fmsHomeCmpId: string | null;
+  fmsRegionId: string | null;
+  fmsSeasonId: string | null;
+  gameSpecifics: string | null;
+  paid: boolean;
+  teamId: number | null;
+  wasAddedFromUi: boolean;
+}
+
+type TeamInput = Omit<TeamRecord, "fmsTeamId"> & {
+  fms: FmsTeamFields;
+  fmsTeamId: string | null;
+};
+
+/** `teams` joined with the FMS `team` row that carries the names. */
+const selectTeamRows = (eventDb: EventDb) =>
+  eventDb
+    .select({
+      number: teamsTable.number,
+      advancement: teamsTable.advancement,
+      division: teamsTable.division,
+      inspireEligible: teamsTable.inspireEligible,
+      promoteEligible: teamsTable.promoteEligible,
+      competing: teamsTable.competing,
+      fmsTeamId: teamTable.fmsTeamId,
+      teamNameShort: teamTable.teamNameShort,
+      teamNameLong: teamTable.teamNameLong,
+      robotName: teamTable.robotName,
+      city: teamTable.city,
+      stateProv: teamTable.stateProv,
+      country: teamTable.country,
+      website: teamTable.website,
+      rookieYear: teamTable.rookieYear,
+      schoolName: teamTable.schoolName,
+    })
+    .from(teamsTable)
+    .leftJoin(teamTable, eq(teamTable.teamNumber, teamsTable.number));
+
+type TeamRow = ReturnType<ReturnType<typeof selectTeamRows>["all"]>[number];
+
+const UI_FMS_FIELDS: FmsTeamFields = {
+  cmpPrequalified: false,
+  createdBy: null,
+  createdOn: null,
+  demoTeam: false,
+  fmsHomeCmpId: null,
+  fmsRegionId: null,
+  fmsSeasonId: null,
+  gameSpecifics: null,
+  paid: false,
+  teamId: null,
+  wasAddedFromUi: true,
+};
+
+const isCompetingStatus = (value: unknown): value is TeamCompetingStatus =>
+  TEAM_COMPETING_STATUSES.includes(value as TeamCompetingStatus);
+
+const toTeamRecord = (row: TeamRow): TeamRecord => ({
+  number: row.number,
+  advancement: row.advancement,
+  division: row.division,
+  inspireEligible: row.inspireEligible === 1,
+  promoteEligible: row.promoteEligible === 1,
+  competing: isCompetingStatus(row.competing) ? row.competing : "FULL",
+  fmsTeamId: row.fmsTeamId ?? "",
+  nameShort: row.teamNameShort ?? "",
+  nameLong: row.teamNameLong,
+  robotName: row.robotName,
+  city: row.city ?? "",
+  stateProv: row.stateProv ?? "",
+  country: row.country ?? "",
+  website: row.website,
+  rookieYear: row.rookieYear ?? UNKNOWN_ROOKIE_YEAR,
+  schoolName: row.schoolName,
+});
+
+export const listTeams = (eventDb: EventDb): TeamRecord[] =>
+  selectTeamRows(eventDb)
+    .orderBy(asc(teamsTable.number))
+    .all()
+    .map(toTeamRecord);
+
+export const listCompetingTeamNumbers = (eventDb: EventDb): number[] =>
+  eventDb
+    .select({ number: teamsTable.number })
+    .from(teamsTable)
+    .where(eq(teamsTable.competing, "FULL"))
+    .orderBy(asc(teamsTable.number))
+    .all()
+    .map((row) => row.number);
+
+export const findTeam = (
+  eventDb: EventDb,
+  teamNumber: number
+): TeamRecord | null => {
+  const row = selectTeamRows(eventDb)
+    .where(eq(teamsTable.number, teamNumber))
+    .get();
+  return row ? toTeamRecord(row) : null;
+};
+
+const findExistingTeamNumbers = (
+  eventDb: EventDb,
+  teamNumbers: number[]
+): number[] => {
+  const existing = new Set(
+    eventDb
+      .select({ number: teamsTable.number })
+      .from(teamsTable)
+      .all()
+      .map((row) => row.number)
+  );
+  return teamNumbers.filter((teamNumber) => existing.has(teamNumber));
+};
+
+const isTeamScheduled = (eventDb: EventDb, teamNumber: number): boolean =>
+  TEAM_SCHEDULE_TABLES.some((table) =>
+    Boolean(
+      eventDb
+        .select({ match: table.match })
+        .from(table)
+        .where(
+          or(
+            eq(table.red1, teamNumber),
+            eq(table.red2, teamNumber),
+            eq(table.blue1, teamNumber),
+            eq(table.blue2, teamNumber)
+          )
+        )
+        .get()
+    )
+  );
+
+const insertTeam = (eventDb: EventDb, team: TeamInput, actor: string): void => {
+  const now = new Date().toISOString();
+  eventDb
+    .insert(teamsTable)
+    .values({
+      number: team.number,
+      advancement: team.advancement,
+      division: team.division,
+      inspireEligible: team.inspireEligible ? 1 : 0,
+      promoteEligible: team.promoteEligible ? 1 : 0,
+      competing: team.competing,
+    })
+    .run();
+  eventDb
+    .insert(teamTable)
+    .values({
+      fmsTeamId: team.fmsTeamId ?? crypto.randomUUID(),
+      fmsSeasonId: team.fms.fmsSeasonId,
+      fmsRegionId: team.fms.fmsRegionId,
+      teamId: team.fms.teamId ?? team.number,
+      teamNumber: team.number,
+      teamNameLong: team.nameLong,
+      teamNameShort: team.nameShort,
+      robotName: team.robotName,
+      city: team.city,
+      stateProv: team.stateProv,
+      country: team.country,
+      website: team.website,
+      rookieYear: team.rookieYear,
+      wasAddedFromUi: team.fms.wasAddedFromUi ? 1 : 0,
+      cmpPrequalified: team.fms.cmpPrequalified ? 1 : 0,
+      schoolName: team.schoolName,
+      demoTeam: team.fms.demoTeam ? 1 : 0,
+      paid: team.fms.paid ? 1 : 0,
+      fmsHomeCmpId: team.fms.fmsHomeCmpId,
+      gameSpecifics: team.fms.gameSpecifics,
+      createdOn: team.fms.createdOn ?? now,
+      createdBy: team.fms.createdBy ?? actor,
+      modifiedOn: now,
+      modifiedBy: actor,
+    })
+    .run();
+};
+
+const updateTeam = (
+  eventDb: EventDb,
+  team: TeamRecord,
+  actor: string
+): void => {
+  eventDb
+    .update(teamsTable)
+    .set({
+      advancement: team.advancement,
+      division: team.division,
+      inspireEligible: team.inspireEligible ? 1 : 0,
+      promoteEligible: team.promoteEligible ? 1 : 0,
+      competing: team.competing,
+    })
+    .where(eq(teamsTable.number, team.number))
+    .run();
+  eventDb
+    .update(teamTable)
+    .set({
+      teamNameLong: team.nameLong,
+      teamNameShort: team.nameShort,
+      robotName: team.robotName,
+      city: team.city,
+      stateProv: team.stateProv,
+      country: team.country,
+      website: team.website,
+      rookieYear: team.rookieYear,
+      schoolName: team.schoolName,
+      modifiedOn: new Date().toISOString(),
+      modifiedBy: actor,
+    })
+    .where(eq(teamTable.teamNumber, team.number))
+    .run();
+};
+
+const deleteTeam = (eventDb: EventDb, teamNumber: number): void => {
+  eventDb.delete(teamsTable).where(eq(teamsTable.number, teamNumber)).run();
+  eventDb.delete(teamTable).where(eq(teamTable.teamNumber, teamNumber)).run();
+};
+
+export const parseTeamNumber = (value: unknown): number | null => {
+  const teamNumber =
+    typeof value === "string" ? Number.parseInt(value, 10) : value;
+  if (
+    typeof teamNumber !== "number" ||
+    !Number.isInteger(teamNumber) ||
+    teamNumber <= 0
+  ) {
+    return null;
+  }
+  return teamNumber;
+};
+
+const applyTextFields = <TTeam extends TeamRecord | TeamInput>(
+  team: TTeam,
+  data: Record<string, unknown>
+): RequestResult<TTeam> => {
+  for (const field of TEAM_REQUIRED_TEXT_FIELDS) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (typeof value !== "string") {
+      return failure(400, `${field} must be a string.`);
+    }
+    team[field] = value.trim();
+  }
+
+  for (const field of TEAM_OPTIONAL_TEXT_FIELDS) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (value !== null && typeof value !== "string") {
+      return failure(400, `${field} must be a string or null.`);
+    }
+    const trimmed = value?.trim() ?? "";
+    team[field] = trimmed.length > 0 ? trimmed : null;
+  }
+
+  return success(team);
+};
+
+const applyNumericFields = <TTeam extends TeamRecord | TeamInput>(
+  team: TTeam,
+  data: Record<string, unknown>
+): RequestResult<TTeam> => {
+  for (const [field, minimum] of Object.entries(TEAM_INTEGER_FIELDS)) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < minimum
+    ) {
+      return failure(
+        400,
+        `${field} must be an integer of at least ${minimum}.`
+      );
+    }
+    team[field as keyof typeof TEAM_INTEGER_FIELDS] = value;
+  }
+
+  for (const field of TEAM_FLAG_FIELDS) {
+    if (!(field in data)) {
+      continue;
+    }
+    const value = data[field];
+    if (typeof value !== "boolean") {
+      return failure(400, `${field} must be a boolean.`);
+    }
+    team[field] = value;
+  }
+
+  if ("competing" in data) {
+    if (!isCompetingStatus(data.competing)) {
+      return failure(
+        400,
+        `competing must be one of ${TEAM_COMPETING_STATUSES.join(", ")}.`
+      );
+    }
+    team.competing = data.competing;
+  }
+
+  return success(team);
+};
+
+const applyTeamFields = <TTeam extends TeamRecord | TeamInput>(
+  team: TTeam,
+  data: Record<string, unknown>
+): RequestResult<TTeam> => {
+  const textResult = applyTextFields(team, data);
+  if ("failure" in textResult) {
+    return textResult;
+  }
+  return applyNumericFields(textResult.value, data);
+};
+
+const createTeamInput = (teamNumber: number): TeamInput => ({
+  number: teamNumber,
+  advancement: 0,
+  division: 0,
+  inspireEligible: true,
+  promoteEligible: true,
+  competing: "FULL",
+  fmsTeamId: null,
+  nameShort: "",
+  nameLong: null,
+  robotName: null,
+  city: "",
+  stateProv: "",
+  country: "",
+  website: null,
+  rookieYear: UNKNOWN_ROOKIE_YEAR,
+  schoolName: null,
+  fms: { ...UI_FMS_FIELDS },
+});
+
+const parseNewTeamPayload = (payload: unknown): RequestResult<TeamInput> => {
+  if (!payload || typeof payload !== "object") {
+    return failure(400, "Invalid request body.");
+  }
+
+  const data = payload as Record<string, unknown>;
+  const teamNumber = parseTeamNumber(data.number);
+  if (!teamNumber) {
+    return failure(400, "number must be a positive integer.");
+  }
+
+  return applyTeamFields(createTeamInput(teamNumber), data);
+};
+
+const parseTeamUpdatePayload = (
+  payload: unknown,
+  current: TeamRecord
+): RequestResult<TeamRecord> => {
+  if (!payload || typeof payload !== "object") {
+    return failure(400, "Invalid request body.");
+  }
+
+  const data = payload as Record<string, unknown>;
+  if ("number" in data && data.number !== current.number) {
+    return failure(400, "number cannot be changed.");
+  }
+
+  return applyTeamFields({ ...current }, data);
+};
+
+const convertCsvValue = (field: string, value: string): unknown => {
+  if (CSV_NUMERIC_FIELDS.has(field)) {
+    return value.length > 0 ? Number(value) : undefined;
+  }
+  if (CSV_FLAG_FIELDS.has(field)) {
+    return value.length > 0
+      ? TRUTHY_CSV_VALUES.has(value.toLowerCase())
+      : undefined;
+  }
+  if (field === "competing") {
+    return value.length > 0 ? value.toUpperCase() : undefined;
+  }
+  return value;
+};
+
+const csvRowToPayload = (row: CsvRow): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+  for (const [header, value] of Object.entries(row.values)) {
+    const normalizedHeader = header
+      .toLowerCase()
+      .replace(CSV_HEADER_NOISE_PATTERN, "");
+    const field = CSV_COLUMN_FIELDS[normalizedHeader];
+    if (!field) {
+      continue;
+    }
+    const converted = convertCsvValue(field, value);
+    if (converted !== undefined) {
+      payload[field] = converted;
+    }
+  }
+  return payload;
+};
+
+export const parseCsvTeams = (content: string): RequestResult<TeamInput[]> => {
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    return failure(400, "CSV must contain a header row and at least one team.");
+  }
+
+  const teams: TeamInput[] = [];
+  for (const row of rows) {
+    const result = parseNewTeamPayload(csvRowToPayload(row));
+    if ("failure" in result) {
+      return failure(400, `Line ${row.line}: ${result.failure.error}`);
+    }
+    teams.push(result.value);
+  }
+  return success(teams);
+};
+
+const readOptionalString = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 ? value : null;
+
+const readFlag = (value: unknown): boolean => value === 1 || value === true;
+
+const ftcLiveTeamToPayload = (
+  entry: Record<string, unknown>,
+  compact: Record<string, unknown> | undefined
+): Record<string, unknown> => ({
+  number: entry.TeamNumber,
+  nameShort: entry.TeamNameShort ?? "",
+  nameLong: readOptionalString(entry.TeamNameLong),
+  robotName: readOptionalString(entry.RobotName),
+  city: entry.City ?? "",
+  stateProv: entry.StateProv ?? "",
+  country: entry.Country ?? "",
+  website: readOptionalString(entry.Website),
+  rookieYear: entry.RookieYear ?? UNKNOWN_ROOKIE_YEAR,
+  schoolName: readOptionalString(entry.SchoolName),
+  ...(compact
+    ? {
+        advancement: compact.advancement,
+        division: compact.division,
+        inspireEligible: readFlag(compact.inspireEligible),
+        promoteEligible: readFlag(compact.promoteEligible),
+        competing: compact.competing,
+      }
+    : {}),
+});
+
+const ftcLiveFmsFields = (entry: Record<string, unknown>): FmsTeamFields => ({
+  cmpPrequalified: readFlag(entry.CMPPrequalified),
+  createdBy: readOptionalString(entry.CreatedBy),
+  createdOn: readOptionalString(entry.CreatedOn),
+  demoTeam: readFlag(entry.DemoTeam),
+  fmsHomeCmpId: decodeFmsGuid(entry.FMSHomeCMPId),
+  fmsRegionId: decodeFmsGuid(entry.FMSRegionId),
+  fmsSeasonId: decodeFmsGuid(entry.FMSSeasonId),
+  gameSpecifics: readOptionalString(entry.GameSpecifics),
+  paid: readFlag(entry.Paid),
+  teamId: typeof entry.TeamId === "number" ? entry.TeamId : null,
+  wasAddedFromUi: readFlag(entry.WasAddedFromUI),
+});
+
+const parseFtcLiveTeams = (
+  dump: Record<string, unknown>
+): RequestResult<TeamInput[]> => {
+  if (!Array.isArray(dump.Team)) {
+    return failure(400, "Event dump must contain a Team array.");
+  }
+
+  const compactTeams = new Map<unknown, Record<string, unknown>>();
+  if (Array.isArray(dump.teams)) {
+    for (const compact of dump.teams as Record<string, unknown>[]) {
+      compactTeams.set(compact.number, compact);
+    }
+  }
+
+  const teams: TeamInput[] = [];
+  for (const [index, entry] of (
+    dump.Team as Record<string, unknown>[]
+  ).entries()) {
+    const result = parseNewTeamPayload(
+      ftcLiveTeamToPayload(entry, compactTeams.get(entry.TeamNumber))
+    );
+    if ("failure" in result) {
+      return failure(400, `Team[${index}]: ${result.failure.error}`);
+    }
+    teams.push({
+      ...result.value,
+      fmsTeamId: decodeFmsGuid(entry.FMSTeamId),
+      fms: ftcLiveFmsFields(entry),
+    });
+  }
+  return success(teams);
+};
+
+const findDuplicateNumbers = (teams: TeamInput[]): number[] => {
+  const seen = new Set<number>();
+  const duplicates = new Set<number>();
+  for (const team of teams) {
+    if (seen.has(team.number)) {
+      duplicates.add(team.number);
+    }
+    seen.add(team.number);
+  }
+  return [...duplicates];
+};
+
+export const importTeams = (
+  eventDb: EventDb,
+  teams: TeamInput[],
+  actor: string
+): RequestResult<TeamRecord[]> => {
+  const duplicates = findDuplicateNumbers(teams);
+  if (duplicates.length > 0) {
+    return failure(
+      400,
+      "Import contains duplicate team numbers.",
+      duplicates.join(", ")
+    );
+  }
+
+  const existing = findExistingTeamNumbers(
+    eventDb,
+    teams.map((team) => team.number)
+  );
+  if (existing.length > 0) {
+    return failure(409, "Teams already exist.", existing.join(", "));
+  }
+
+  eventDb.transaction(() => {
+    for (const team of teams) {
+      insertTeam(eventDb, team, actor);
+    }
+  });
+
+  return success(listTeams(eventDb));
+};
+
+const readImportBody = async (
+  request: Request
+): Promise<RequestResult<TeamInput[]>> => {
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.includes("text/csv") || contentType.includes("text/plain")) {
+    return parseCsvTeams(await request.text());
+  }
+
+  const payload = await request.json().catch(() => null);
+  if (!payload || typeof payload !== "object") {
+    return failure(400, "Send a text/csv body or an FTC-Live JSON event dump.");
+  }
+  return parseFtcLiveTeams(payload as Record<string, unknown>);
+};
+
+export const createTeamRoutes = ({ auth, db, eventDatabases }: AppContext) => {
+  const routes = new Hono();
+
+  routes.get("/:code/teams", requireEventRoles(auth, db, EVENT_ROLES), (c) => {
+    const result = runEventDatabaseTask(
+      eventDatabases,
+      c.get("eventAccess").event.eventCode,
+      (eventDb) => success(listTeams(eventDb))
+    );
+    if ("failure" in result) {
+      return failureResponse(c, result.failure);
+    }
+
+    return c.json({ teams: result.value });
+  });
+
+  routes.post(
+    "/:code/teams",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const parsed = parseNewTeamPayload(await c.req.json().catch(() => null));
+      if ("failure" in parsed) {
+        return failureResponse(c, parsed.failure);
+      }
+
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          if (findTeam(eventDb, parsed.value.number)) {
+            return failure(409, "Team already exists.");
+          }
+          eventDb.transaction(() => {
+            insertTeam(eventDb, parsed.value, userId);
+          });
+          return success(findTeam(eventDb, parsed.value.number));
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAM_ADDED",
+        eventCode: event.eventCode,
+        info: String(parsed.value.number),
+        extra: { userId },
+      });
+
+      return c.json({ team: result.value }, 201);
+    }
+  );
+
+  routes.post(
+    "/:code/teams/import",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const parsed = await readImportBody(c.req.raw);
+      if ("failure" in parsed) {
+        return failureResponse(c, parsed.failure);
+      }
+
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => importTeams(eventDb, parsed.value, userId)
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAMS_IMPORTED",
+        eventCode: event.eventCode,
+        info: String(parsed.value.length),
+        extra: {
+          teams: parsed.value.map((team) => team.number),
+          userId,
+        },
+      });
+
+      return c.json(
+        { imported: parsed.value.length, teams: result.value },
+        201
+      );
+    }
+  );
+
+  routes.patch(
+    "/:code/teams/:number",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    async (c) => {
+      const teamNumber = parseTeamNumber(c.req.param("number"));
+      if (!teamNumber) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const payload = await c.req.json().catch(() => null);
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          const current = findTeam(eventDb, teamNumber);
+          if (!current) {
+            return failure(404, "Team not found.");
+          }
+          const updated = parseTeamUpdatePayload(payload, current);
+          if ("failure" in updated) {
+            return updated;
+          }
+          eventDb.transaction(() => {
+            updateTeam(eventDb, updated.value, userId);
+          });
+          return success(findTeam(eventDb, teamNumber));
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAM_UPDATED",
+        eventCode: event.eventCode,
+        info: String(teamNumber),
+        extra: { userId },
+      });
+
+      return c.json({ team: result.value });
+    }
+  );
+
+  routes.delete(
+    "/:code/teams/:number",
+    requireEventRoles(auth, db, [ADMIN_ROLE]),
+    (c) => {
+      const teamNumber = parseTeamNumber(c.req.param("number"));
+      if (!teamNumber) {
+        return c.json({ error: "Invalid team number." }, 400);
+      }
+
+      const { event, userId } = c.get("eventAccess");
+      const result = runEventDatabaseTask(
+        eventDatabases,
+        event.eventCode,
+        (eventDb) => {
+          if (!findTeam(eventDb, teamNumber)) {
+            return failure(404, "Team not found.");
+          }
+          if (isTeamScheduled(eventDb, teamNumber)) {
+            return failure(409, "Team is already in the match schedule.");
+          }
+          eventDb.transaction(() => {
+            deleteTeam(eventDb, teamNumber);
+          });
+          return success(null);
+        }
+      );
+      if ("failure" in result) {
+        return failureResponse(c, result.failure);
+      }
+
+      writeEventLog(db, {
+        type: "TEAM_REMOVED",
+        eventCode: event.eventCode,
+        info: String(teamNumber),
+        extra: { userId },
+      });
+
+      return c.json({ number: teamNumber, deleted: true });
+    }
+  );
+
+  return routes;
+};
@@ -0,0 +1,268 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+import {
+  type AnswerValue,
+  answerKey,
+  type DeviceReportResult,
+  type FormItem,
+  INSPECTION_STATUS_LABELS,
+  type InspectionRecord,
+} from "@/lib/inspection";
+
+export default function InspectionSheet({
+  code,
+  finishLabel = "Finish Inspection",
+  formId,
+  onSaved,
+  team,
+}: {
+  code: string;
+  finishLabel?: string;
+  formId: string;
+  onSaved?: (saved: InspectionRecord) => void;
+  team: string;
+}) {
+  const queryClient = useQueryClient();
+  const inspectionKey = ["events", code, "inspection", formId, team];
+  const inspectionUrl = `/api/events/${code}/inspection/forms/${encodeURIComponent(formId)}/teams/${team}`;
+  const [answers, setAnswers] = useState<Map<string, AnswerValue> | null>(null);
+  const [notes, setNotes] = useState<string | null>(null);
+  const [explanations, setExplanations] = useState<Map<string, string[]>>(
+    new Map()
+  );
+
+  const inspectionQuery = useQuery({
+    queryKey: inspectionKey,
+    queryFn: () => fetchJson<InspectionRecord>(inspectionUrl),
+  });
+
+  const record = inspectionQuery.data;
+  const currentAnswers =
+    answers ??
+    new Map(
+      record?.answers.map((answer) => [
+        answerKey(answer.row, answer.item),
+        answer.value,
+      ])
+    );
+  const currentNotes = notes ?? record?.notes ?? "";
+
+  const saveMutation = useMutation({
+    mutationFn: (finished: boolean) =>
+      fetchJson<InspectionRecord>(inspectionUrl, {
+        method: "PUT",
+        body: JSON.stringify({
+          answers: [...currentAnswers].map(([key, value]) => {
+            const [row, item] = key.split(".").map(Number);
+            return { row, item, value };
+          }),
+          notes: currentNotes,
+          finished,
+        }),
+      }),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(inspectionKey, saved);
+      setAnswers(null);
+      setNotes(null);
+      onSaved?.(saved);
+    },
+  });
+
+  const deviceReportMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const report = await file
+        .text()
+        .then((text) => JSON.parse(text) as unknown)
+        .catch(() => {
+          throw new Error(`${file.name} is not a JSON device report.`);
+        });
+      return fetchJson<DeviceReportResult>(`${inspectionUrl}/device-report`, {
+        method: "POST",
+        body: JSON.stringify(report),
+      });
+    },
+    onSuccess: (result) => {
+      const merged = new Map(currentAnswers);
+      for (const answer of result.answers) {
+        merged.set(answerKey(answer.row, answer.item), answer.value);
+      }
+      setAnswers(merged);
+      setExplanations(
+        new Map(
+          result.items.map((item) => [
+            answerKey(item.row, item.item),
+            item.explanations,
+          ])
+        )
+      );
+    },
+  });
+
+  if (!record) {
+    return inspectionQuery.error ? (
+      <p role="alert">{inspectionQuery.error.message}</p>
+    ) : null;
+  }
+
+  const failed = new Set(
+    record.evaluation.failed.map((item) => answerKey(item.row, item.item))
+  );
+  const hasAutomation = record.form.rows.some((row) =>
+    row.items.some((item) => item.automation.length > 0)
+  );
+  const setAnswer = (key: string, value: AnswerValue) =>
+    setAnswers(new Map(currentAnswers).set(key, value));
+
+  return (
+    <section>
+      <h2>
+        Team {record.team} - {record.form.formId}
+      </h2>
+      <p>
+        Status: <strong>{INSPECTION_STATUS_LABELS[record.status]}</strong>
+        {record.formVersion !== null &&
+        record.form.version !== null &&
+        record.formVersion !== record.form.version
+          ? ` (answered on form v${record.formVersion}; the form is now v${record.form.version})`
+          : null}
+      </p>
+      {saveMutation.error ? (
+        <p role="alert">{saveMutation.error.message}</p>
+      ) : null}
+      {hasAutomation ? (
+        <label>
+          Device report
+          <input
+            accept="application/json,.json"
+            disabled={deviceReportMutation.isPending}
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) {
+                deviceReportMutation.mutate(file);
+              }
+              event.target.value = "";
+            }}
+            type="file"
+          />
+        </label>
+      ) : null}
+      {deviceReportMutation.error ? (
+        <p role="alert">{deviceReportMutation.error.message}</p>
+      ) : null}
+      {deviceReportMutation.isSuccess ? (
+        <p>
+          Answers were filled in from the device report. Review them and save.
+        </p>
+      ) : null}
+      {record.form.rows.map((row) =>
+        row.type === "HEADER" ? (
+          <h3 key={row.row}>{row.description}</h3>
+        ) : (
+          <fieldset key={row.row}>
+            <legend>
+              {row.rules.length > 0 ? `${row.rules.join(", ")}: ` : null}
+              {row.description}
+            </legend>
+            {row.items.map((item) => {
+              const key = answerKey(row.row, item.index);
+              return (
+                <FormItemInput
+                  explanations={explanations.get(key) ?? []}
+                  failed={failed.has(key)}
+                  item={item}
+                  key={key}
+                  onChange={(value) => setAnswer(key, value)}
+                  value={currentAnswers.get(key)}
+                />
+              );
+            })}
+          </fieldset>
+        )
+      )}
+      <label>
+        Notes
+        <textarea
+          onChange={(event) => setNotes(event.target.value)}
+          value={currentNotes}
+        />
+      </label>
+      <button
+        disabled={saveMutation.isPending}
+        onClick={() => saveMutation.mutate(false)}
+        type="button"
+      >
+        Save
+      </button>{" "}
+      <button
+        className="primary"
+        disabled={saveMutation.isPending}
+        onClick={() => saveMutation.mutate(true)}
+        type="button"
+      >
+        {finishLabel}
+      </button>
+    </section>
+  );
+}
+
+function FormItemInput({
+  explanations,
+  failed,
+  item,
+  onChange,
+  value,
+}: {
+  explanations: string[];
+  failed: boolean;
+  item: FormItem;
+  onChange: (value: AnswerValue) => void;
+  value: AnswerValue | undefined;
+}) {
+  const label = item.label ?? (item.type === "REQUIRED" ? "Meets rule" : "");
+  const notes =
+    explanations.length > 0 ? (
+      <ul>
+        {explanations.map((explanation) => (
+          <li key={explanation}>{explanation}</li>
+        ))}
+      </ul>
+    ) : null;
+  if (item.type === "SELECT") {
+    return (
+      <>
+        <label>
+          {label}
+          <select
+            aria-invalid={failed}
+            onChange={(event) => onChange(event.target.value)}
+            value={typeof value === "string" ? value : ""}
+          >
+            {item.options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        {notes}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <label>
+        <input
+          aria-invalid={failed}
+          checked={value === true}
+          onChange={(event) => onChange(event.target.checked)}
+          type="checkbox"
+        />{" "}
+        {label}
+      </label>
+      {notes}
+    </>
+  );
+}
@@ -0,0 +1,28 @@
+interface ApiErrorBody {
+  error?: string;
+}
+
+export const fetchJson = async <TData>(
+  resource: string,
+  init?: RequestInit
+): Promise<TData> => {
+  const response = await fetch(resource, {
+    credentials: "include",
+    ...init,
+    headers: {
+      ...(init?.body ? { "content-type": "application/json" } : {}),
+      ...init?.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const body = (await response
+      .json()
+      .catch(() => null)) as ApiErrorBody | null;
+    throw new Error(
+      body?.error ?? `Request failed for ${resource} (${response.status})`
+    );
+  }
+
+  return (await response.json()) as TData;
+};
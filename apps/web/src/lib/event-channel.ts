@@ -0,0 +1,142 @@
+import { useEffect, useRef } from "react";
+
+export type MatchLevel = "elims" | "practice" | "quals";
+
+export interface LiveAllianceScore {
+  auto: number;
+  endgame: number;
+  foulPoints: number;
+  score: number;
+  teleop: number;
+  total: number;
+}
+
+export type FieldPhase =
+  | "ABORTED"
+  | "AUTO"
+  | "ENDGAME"
+  | "IDLE"
+  | "POST"
+  | "PRE_START"
+  | "TELEOP"
+  | "TRANSITION";
+
+export interface FieldSnapshot {
+  field: number;
+  level: MatchLevel | null;
+  match: number | null;
+  phase: FieldPhase;
+  phaseEndsAt: number | null;
+  phaseStartedAt: number | null;
+  playNumber: number;
+  preStartCount: number;
+}
+
+export type AudienceScreen =
+  | "alliance-selection"
+  | "awards"
+  | "blank"
+  | "match-preview"
+  | "match-results"
+  | "match-score"
+  | "rankings"
+  | "sponsors";
+
+export interface AudienceDisplayState {
+  level: MatchLevel | null;
+  match: number | null;
+  screen: AudienceScreen;
+}
+
+export type EventMessage = { eventCode: string; sentAt: number } & (
+  | {
+      type: "MATCH_LOADED" | "MATCH_ABORTED";
+      field: number;
+      level: MatchLevel;
+      match: number;
+    }
+  | {
+      type: "MATCH_STARTED";
+      field: number;
+      level: MatchLevel;
+      match: number;
+      startedAt: number;
+    }
+  | { type: "MATCH_PHASE_CHANGED"; field: number; snapshot: FieldSnapshot }
+  | {
+      type: "SCORE_UPDATED" | "SCORE_COMMITTED";
+      level: MatchLevel;
+      match: number;
+      red: LiveAllianceScore;
+      blue: LiveAllianceScore;
+    }
+  | { type: "RANKINGS_CHANGED" }
+  | { type: "EVENT_ARCHIVED" | "EVENT_DELETED" }
+  | {
+      type: "ALLIANCE_SELECTION_STEP";
+      step: string;
+      alliances: number[][];
+      picking: number | null;
+      complete: boolean;
+    }
+  | {
+      type: "DISPLAY_CHANGED";
+      display: "audience";
+      state: AudienceDisplayState;
+    }
+);
+
+const MAX_RECONNECT_DELAY_MS = 10_000;
+
+const eventChannelUrl = (code: string): string => {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/api/events/${encodeURIComponent(code)}/live`;
+};
+
+/**
+ * Listens to an event's live channel for as long as the component is
+ * mounted, reconnecting with backoff when the server goes away.
+ */
+export const useEventChannel = (
+  code: string,
+  onMessage: (message: EventMessage) => void
+): void => {
+  const handlerRef = useRef(onMessage);
+  handlerRef.current = onMessage;
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = 500;
+    let closed = false;
+
+    const connect = () => {
+      socket = new WebSocket(eventChannelUrl(code));
+      socket.onopen = () => {
+        retryDelay = 500;
+      };
+      socket.onmessage = (event) => {
+        try {
+          handlerRef.current(JSON.parse(String(event.data)) as EventMessage);
+        } catch {
+          // Ignore frames that are not event messages.
+        }
+      };
+      socket.onclose = () => {
+        if (closed) {
+          return;
+        }
+        retryTimer = setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, [code]);
+};
@@ -0,0 +1,110 @@
+export type InspectionStatus = 0 | 1 | 2 | 3;
+
+export const INSPECTION_STATUS_LABELS: Record<InspectionStatus, string> = {
+  0: "Not Started",
+  1: "In Progress",
+  2: "Incomplete",
+  3: "Passed",
+};
+
+export const INSPECTION_STATUS_CLASSES: Record<InspectionStatus, string> = {
+  0: "status-not-started",
+  1: "status-in-progress",
+  2: "status-incomplete",
+  3: "status-passed",
+};
+
+export const STATUS_STAGE_LABELS: Record<string, string> = {
+  checkin: "Check-In",
+  hardware: "Hardware",
+  sizing: "Sizing",
+  software: "Software",
+  field: "Field",
+  judging: "Judging",
+};
+
+export interface TeamStatusRecord {
+  competing: boolean;
+  inspected: boolean;
+  nameShort: string;
+  stages: Record<string, InspectionStatus>;
+  team: number;
+}
+
+export interface StatusBoardResponse {
+  qualsStarted: boolean;
+  stages: string[];
+  teams: TeamStatusRecord[];
+  uninspected: number[];
+}
+
+export interface FormOption {
+  check: boolean;
+  name: string;
+  regex?: string;
+  value: string;
+}
+
+export interface AutomationRule {
+  device: string;
+  deviceType: string;
+  type: string;
+}
+
+export interface FormItem {
+  automation: AutomationRule[];
+  index: number;
+  label: string | null;
+  options: FormOption[];
+  type: "CHECKBOX" | "REQUIRED" | "SELECT";
+}
+
+export interface FormRow {
+  columnCount: number;
+  description: string;
+  items: FormItem[];
+  row: number;
+  rules: string[];
+  type: "HEADER" | "STANDARD";
+}
+
+export interface InspectionForm {
+  formId: string;
+  rows: FormRow[];
+  version: number | null;
+}
+
+export type AnswerValue = boolean | string;
+
+export interface FormAnswer {
+  item: number;
+  row: number;
+  value: AnswerValue;
+}
+
+export interface InspectionRecord {
+  answers: FormAnswer[];
+  evaluation: { failed: { item: number; row: number }[]; passed: boolean };
+  form: InspectionForm;
+  formVersion: number | null;
+  modifiedAt: number | null;
+  notes: string;
+  status: InspectionStatus;
+  team: number;
+}
+
+export const answerKey = (row: number, item: number): string =>
+  `${row}.${item}`;
+
+export interface AutomationItemResult {
+  answer?: AnswerValue;
+  explanations: string[];
+  item: number;
+  passed: boolean | null;
+  row: number;
+}
+
+export interface DeviceReportResult {
+  answers: FormAnswer[];
+  items: AutomationItemResult[];
+}
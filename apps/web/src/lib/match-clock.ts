@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+
+import type { FieldSnapshot } from "@/lib/event-channel";
+
+/** Endgame is the tail of teleop, so the teleop clock keeps counting through it. */
+const ENDGAME_MS = 20_000;
+
+export const PHASE_LABELS: Record<FieldSnapshot["phase"], string> = {
+  IDLE: "No match loaded",
+  PRE_START: "Ready",
+  AUTO: "Autonomous",
+  TRANSITION: "Transition",
+  TELEOP: "Driver Controlled",
+  ENDGAME: "Endgame",
+  POST: "Match Over",
+  ABORTED: "Aborted",
+};
+
+/** Milliseconds left on the displayed match clock, or null when stopped. */
+export const matchClockRemaining = (
+  snapshot: Pick<FieldSnapshot, "phase" | "phaseEndsAt">,
+  now: number
+): number | null => {
+  if (snapshot.phaseEndsAt === null) {
+    return null;
+  }
+  const remaining = Math.max(snapshot.phaseEndsAt - now, 0);
+  return snapshot.phase === "TELEOP" ? remaining + ENDGAME_MS : remaining;
+};
+
+export const formatMatchClock = (remainingMs: number | null): string => {
+  if (remainingMs === null) {
+    return "-:--";
+  }
+  const totalSeconds = Math.ceil(remainingMs / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  return `${minutes}:${String(totalSeconds % 60).padStart(2, "0")}`;
+};
+
+/** Re-renders on an interval so countdowns stay current. */
+export const useNow = (intervalMs = 250): number => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+};
@@ -12,6 +12,17 @@ import { Route as rootRouteImport } from './routes/__root'
 import { Route as LoginRouteImport } from './routes/login'
 import { Route as DashboardRouteImport } from './routes/dashboard'
 import { Route as IndexRouteImport } from './routes/index'
+import { Route as EventCodeStatusBoardRouteImport } from './routes/event/$code/status-board'
+import { Route as EventCodePracticeRouteImport } from './routes/event/$code/practice'
+import { Route as EventCodeMatchControlRouteImport } from './routes/event/$code/match-control'
+import { Route as EventCodeInspectionScheduleRouteImport } from './routes/event/$code/inspection-schedule'
+import { Route as EventCodeInspectionRouteImport } from './routes/event/$code/inspection'
+import { Route as EventCodeCheckinRouteImport } from './routes/event/$code/checkin'
+import { Route as EventCodeAwardsRouteImport } from './routes/event/$code/awards'
+import { Route as EventCodeAllianceSelectionRouteImport } from './routes/event/$code/alliance-selection'
+import { Route as EventCodeAdvancementRouteImport } from './routes/event/$code/advancement'
+import { Route as EventCodeDisplayPitRouteImport } from './routes/event/$code/display/pit'
+import { Route as EventCodeDisplayAudienceRouteImport } from './routes/event/$code/display/audience'
 
 const LoginRoute = LoginRouteImport.update({
   id: '/login',
@@ -28,35 +39,180 @@ const IndexRoute = IndexRouteImport.update({
   path: '/',
   getParentRoute: () => rootRouteImport,
 } as any)
+const EventCodeStatusBoardRoute = EventCodeStatusBoardRouteImport.update({
+  id: '/event/$code/status-board',
+  path: '/event/$code/status-board',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodePracticeRoute = EventCodePracticeRouteImport.update({
+  id: '/event/$code/practice',
+  path: '/event/$code/practice',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeMatchControlRoute = EventCodeMatchControlRouteImport.update({
+  id: '/event/$code/match-control',
+  path: '/event/$code/match-control',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeInspectionScheduleRoute =
+  EventCodeInspectionScheduleRouteImport.update({
+    id: '/event/$code/inspection-schedule',
+    path: '/event/$code/inspection-schedule',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const EventCodeInspectionRoute = EventCodeInspectionRouteImport.update({
+  id: '/event/$code/inspection',
+  path: '/event/$code/inspection',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeCheckinRoute = EventCodeCheckinRouteImport.update({
+  id: '/event/$code/checkin',
+  path: '/event/$code/checkin',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeAwardsRoute = EventCodeAwardsRouteImport.update({
+  id: '/event/$code/awards',
+  path: '/event/$code/awards',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeAllianceSelectionRoute =
+  EventCodeAllianceSelectionRouteImport.update({
+    id: '/event/$code/alliance-selection',
+    path: '/event/$code/alliance-selection',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const EventCodeAdvancementRoute = EventCodeAdvancementRouteImport.update({
+  id: '/event/$code/advancement',
+  path: '/event/$code/advancement',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeDisplayPitRoute = EventCodeDisplayPitRouteImport.update({
+  id: '/event/$code/display/pit',
+  path: '/event/$code/display/pit',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const EventCodeDisplayAudienceRoute =
+  EventCodeDisplayAudienceRouteImport.update({
+    id: '/event/$code/display/audience',
+    path: '/event/$code/display/audience',
+    getParentRoute: () => rootRouteImport,
+  } as any)
 
 export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
   '/login': typeof LoginRoute
+  '/event/$code/advancement': typeof EventCodeAdvancementRoute
+  '/event/$code/alliance-selection': typeof EventCodeAllianceSelectionRoute
+  '/event/$code/awards': typeof EventCodeAwardsRoute
+  '/event/$code/checkin': typeof EventCodeCheckinRoute
+  '/event/$code/inspection': typeof EventCodeInspectionRoute
+  '/event/$code/inspection-schedule': typeof EventCodeInspectionScheduleRoute
+  '/event/$code/match-control': typeof EventCodeMatchControlRoute
+  '/event/$code/practice': typeof EventCodePracticeRoute
+  '/event/$code/status-board': typeof EventCodeStatusBoardRoute
+  '/event/$code/display/audience': typeof EventCodeDisplayAudienceRoute
+  '/event/$code/display/pit': typeof EventCodeDisplayPitRoute
 }
 export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
   '/login': typeof LoginRoute
+  '/event/$code/advancement': typeof EventCodeAdvancementRoute
+  '/event/$code/alliance-selection': typeof EventCodeAllianceSelectionRoute
+  '/event/$code/awards': typeof EventCodeAwardsRoute
+  '/event/$code/checkin': typeof EventCodeCheckinRoute
+  '/event/$code/inspection': typeof EventCodeInspectionRoute
+  '/event/$code/inspection-schedule': typeof EventCodeInspectionScheduleRoute
+  '/event/$code/match-control': typeof EventCodeMatchControlRoute
+  '/event/$code/practice': typeof EventCodePracticeRoute
+  '/event/$code/status-board': typeof EventCodeStatusBoardRoute
+  '/event/$code/display/audience': typeof EventCodeDisplayAudienceRoute
+  '/event/$code/display/pit': typeof EventCodeDisplayPitRoute
 }
 export interface FileRoutesById {
   __root__: typeof rootRouteImport
   '/': typeof IndexRoute
   '/dashboard': typeof DashboardRoute
   '/login': typeof LoginRoute
+  '/event/$code/advancement': typeof EventCodeAdvancementRoute
+  '/event/$code/alliance-selection': typeof EventCodeAllianceSelectionRoute
+  '/event/$code/awards': typeof EventCodeAwardsRoute
+  '/event/$code/checkin': typeof EventCodeCheckinRoute
+  '/event/$code/inspection': typeof EventCodeInspectionRoute
+  '/event/$code/inspection-schedule': typeof EventCodeInspectionScheduleRoute
+  '/event/$code/match-control': typeof EventCodeMatchControlRoute
+  '/event/$code/practice': typeof EventCodePracticeRoute
+  '/event/$code/status-board': typeof EventCodeStatusBoardRoute
+  '/event/$code/display/audience': typeof EventCodeDisplayAudienceRoute
+  '/event/$code/display/pit': typeof EventCodeDisplayPitRoute
 }
 export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
-  fullPaths: '/' | '/dashboard' | '/login'
+  fullPaths:
+    | '/'
+    | '/dashboard'
+    | '/login'
+    | '/event/$code/advancement'
+    | '/event/$code/alliance-selection'
+    | '/event/$code/awards'
+    | '/event/$code/checkin'
+    | '/event/$code/inspection'
+    | '/event/$code/inspection-schedule'
+    | '/event/$code/match-control'
+    | '/event/$code/practice'
+    | '/event/$code/status-board'
+    | '/event/$code/display/audience'
+    | '/event/$code/display/pit'
   fileRoutesByTo: FileRoutesByTo
-  to: '/' | '/dashboard' | '/login'
-  id: '__root__' | '/' | '/dashboard' | '/login'
+  to:
+    | '/'
+    | '/dashboard'
+    | '/login'
+    | '/event/$code/advancement'
+    | '/event/$code/alliance-selection'
+    | '/event/$code/awards'
+    | '/event/$code/checkin'
+    | '/event/$code/inspection'
+    | '/event/$code/inspection-schedule'
+    | '/event/$code/match-control'
+    | '/event/$code/practice'
+    | '/event/$code/status-board'
+    | '/event/$code/display/audience'
+    | '/event/$code/display/pit'
+  id:
+    | '__root__'
+    | '/'
+    | '/dashboard'
+    | '/login'
+    | '/event/$code/advancement'
+    | '/event/$code/alliance-selection'
+    | '/event/$code/awards'
+    | '/event/$code/checkin'
+    | '/event/$code/inspection'
+    | '/event/$code/inspection-schedule'
+    | '/event/$code/match-control'
+    | '/event/$code/practice'
+    | '/event/$code/status-board'
+    | '/event/$code/display/audience'
+    | '/event/$code/display/pit'
   fileRoutesById: FileRoutesById
 }
 export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   DashboardRoute: typeof DashboardRoute
   LoginRoute: typeof LoginRoute
+  EventCodeAdvancementRoute: typeof EventCodeAdvancementRoute
+  EventCodeAllianceSelectionRoute: typeof EventCodeAllianceSelectionRoute
+  EventCodeAwardsRoute: typeof EventCodeAwardsRoute
+  EventCodeCheckinRoute: typeof EventCodeCheckinRoute
+  EventCodeInspectionRoute: typeof EventCodeInspectionRoute
+  EventCodeInspectionScheduleRoute: typeof EventCodeInspectionScheduleRoute
+  EventCodeMatchControlRoute: typeof EventCodeMatchControlRoute
+  EventCodePracticeRoute: typeof EventCodePracticeRoute
+  EventCodeStatusBoardRoute: typeof EventCodeStatusBoardRoute
+  EventCodeDisplayAudienceRoute: typeof EventCodeDisplayAudienceRoute
+  EventCodeDisplayPitRoute: typeof EventCodeDisplayPitRoute
 }
 
 declare module '@tanstack/react-router' {
@@ -82,6 +238,83 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof IndexRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/event/$code/status-board': {
+      id: '/event/$code/status-board'
+      path: '/event/$code/status-board'
+      fullPath: '/event/$code/status-board'
+      preLoaderRoute: typeof EventCodeStatusBoardRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/practice': {
+      id: '/event/$code/practice'
+      path: '/event/$code/practice'
+      fullPath: '/event/$code/practice'
+      preLoaderRoute: typeof EventCodePracticeRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/match-control': {
+      id: '/event/$code/match-control'
+      path: '/event/$code/match-control'
+      fullPath: '/event/$code/match-control'
+      preLoaderRoute: typeof EventCodeMatchControlRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/inspection-schedule': {
+      id: '/event/$code/inspection-schedule'
+      path: '/event/$code/inspection-schedule'
+      fullPath: '/event/$code/inspection-schedule'
+      preLoaderRoute: typeof EventCodeInspectionScheduleRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/inspection': {
+      id: '/event/$code/inspection'
+      path: '/event/$code/inspection'
+      fullPath: '/event/$code/inspection'
+      preLoaderRoute: typeof EventCodeInspectionRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/checkin': {
+      id: '/event/$code/checkin'
+      path: '/event/$code/checkin'
+      fullPath: '/event/$code/checkin'
+      preLoaderRoute: typeof EventCodeCheckinRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/awards': {
+      id: '/event/$code/awards'
+      path: '/event/$code/awards'
+      fullPath: '/event/$code/awards'
+      preLoaderRoute: typeof EventCodeAwardsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/alliance-selection': {
+      id: '/event/$code/alliance-selection'
+      path: '/event/$code/alliance-selection'
+      fullPath: '/event/$code/alliance-selection'
+      preLoaderRoute: typeof EventCodeAllianceSelectionRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/advancement': {
+      id: '/event/$code/advancement'
+      path: '/event/$code/advancement'
+      fullPath: '/event/$code/advancement'
+      preLoaderRoute: typeof EventCodeAdvancementRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/display/pit': {
+      id: '/event/$code/display/pit'
+      path: '/event/$code/display/pit'
+      fullPath: '/event/$code/display/pit'
+      preLoaderRoute: typeof EventCodeDisplayPitRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/event/$code/display/audience': {
+      id: '/event/$code/display/audience'
+      path: '/event/$code/display/audience'
+      fullPath: '/event/$code/display/audience'
+      preLoaderRoute: typeof EventCodeDisplayAudienceRouteImport
+      parentRoute: typeof rootRouteImport
+    }
   }
 }
 
@@ -89,6 +322,17 @@ const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   DashboardRoute: DashboardRoute,
   LoginRoute: LoginRoute,
+  EventCodeAdvancementRoute: EventCodeAdvancementRoute,
+  EventCodeAllianceSelectionRoute: EventCodeAllianceSelectionRoute,
+  EventCodeAwardsRoute: EventCodeAwardsRoute,
+  EventCodeCheckinRoute: EventCodeCheckinRoute,
+  EventCodeInspectionRoute: EventCodeInspectionRoute,
+  EventCodeInspectionScheduleRoute: EventCodeInspectionScheduleRoute,
+  EventCodeMatchControlRoute: EventCodeMatchControlRoute,
+  EventCodePracticeRoute: EventCodePracticeRoute,
+  EventCodeStatusBoardRoute: EventCodeStatusBoardRoute,
+  EventCodeDisplayAudienceRoute: EventCodeDisplayAudienceRoute,
+  EventCodeDisplayPitRoute: EventCodeDisplayPitRoute,
 }
 export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
@@ -0,0 +1,145 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+
+import { fetchJson } from "@/lib/api";
+
+interface AdvancementRecord {
+  alliancePoints: number;
+  awardPoints: number;
+  nameShort: string;
+  playoffPoints: number;
+  privatePoints: number;
+  qualificationPoints: number;
+  rank: number;
+  team: number;
+  total: number;
+}
+
+interface AdvancementSettings {
+  enabled: boolean;
+  hidePrivate: boolean;
+}
+
+interface AdvancementResponse extends AdvancementSettings {
+  teams: AdvancementRecord[];
+}
+
+export const Route = createFileRoute("/event/$code/advancement")({
+  component: AdvancementComponent,
+});
+
+function AdvancementComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const advancementKey = ["events", code, "advancement"];
+  const advancementUrl = `/api/events/${code}/advancement`;
+
+  const advancementQuery = useQuery({
+    queryKey: advancementKey,
+    queryFn: () => fetchJson<AdvancementResponse>(advancementUrl),
+  });
+
+  const recomputeMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<AdvancementResponse>(advancementUrl, { method: "POST" }),
+    onSuccess: (saved) => queryClient.setQueryData(advancementKey, saved),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (settings: Partial<AdvancementSettings>) =>
+      fetchJson(advancementUrl, {
+        method: "PUT",
+        body: JSON.stringify(settings),
+      }),
+    onSuccess: () =>
+      queryClient.invalidateQueries({ queryKey: advancementKey }),
+  });
+
+  const data = advancementQuery.data;
+  const error =
+    advancementQuery.error ?? recomputeMutation.error ?? settingsMutation.error;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Advancement</h1>
+        <p>
+          Event {code}. Points come from qualification rank, alliance selection,
+          playoff finish and judged awards. Recalculate after each of those
+          changes.
+        </p>
+        {error ? <p role="alert">{error.message}</p> : null}
+        {data ? (
+          <fieldset disabled={settingsMutation.isPending}>
+            <label>
+              <input
+                checked={data.enabled}
+                onChange={(event) =>
+                  settingsMutation.mutate({ enabled: event.target.checked })
+                }
+                type="checkbox"
+              />{" "}
+              Show advancement on public displays
+            </label>
+            <label>
+              <input
+                checked={data.hidePrivate}
+                onChange={(event) =>
+                  settingsMutation.mutate({ hidePrivate: event.target.checked })
+                }
+                type="checkbox"
+              />{" "}
+              Leave out award points that have not been announced
+            </label>
+          </fieldset>
+        ) : null}
+        <button
+          className="primary"
+          disabled={recomputeMutation.isPending}
+          onClick={() => recomputeMutation.mutate()}
+          type="button"
+        >
+          {recomputeMutation.isPending ? "Calculating..." : "Recalculate"}
+        </button>{" "}
+        <a download href={`${advancementUrl}/export`}>
+          Export CSV
+        </a>
+      </article>
+
+      <section>
+        <h2>Advancement Order</h2>
+        {data?.teams.length === 0 ? <p>No points calculated yet.</p> : null}
+        <table>
+          <thead>
+            <tr>
+              <th>Rank</th>
+              <th>Team</th>
+              <th>Total</th>
+              <th>Awards</th>
+              <th>Playoffs</th>
+              <th>Selection</th>
+              <th>Qualification</th>
+              <th>Private</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data?.teams.map((team) => (
+              <tr key={team.team}>
+                <td>{team.rank}</td>
+                <td>
+                  {team.team} {team.nameShort}
+                </td>
+                <td>{team.total}</td>
+                <td>{team.awardPoints}</td>
+                <td>{team.playoffPoints}</td>
+                <td>{team.alliancePoints}</td>
+                <td>{team.qualificationPoints}</td>
+                <td>{team.privatePoints}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
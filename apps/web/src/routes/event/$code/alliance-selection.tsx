@@ -0,0 +1,190 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+
+import { fetchJson } from "@/lib/api";
+import { useEventChannel } from "@/lib/event-channel";
+
+interface SelectionResponse {
+  allianceCount: number;
+  allianceSize: number;
+  alliances: number[][];
+  available: number[];
+  complete: boolean;
+  declined: number[];
+  finalized: boolean;
+  picking: number | null;
+  started: boolean;
+}
+
+type SelectionStep = "accept" | "decline" | "finalize" | "start" | "undo";
+
+export const Route = createFileRoute("/event/$code/alliance-selection")({
+  component: AllianceSelectionComponent,
+});
+
+function AllianceSelectionComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const selectionKey = ["events", code, "alliance-selection"];
+  const selectionUrl = `/api/events/${code}/alliance-selection`;
+
+  const selectionQuery = useQuery({
+    queryKey: selectionKey,
+    queryFn: () => fetchJson<SelectionResponse>(selectionUrl),
+  });
+
+  const stepMutation = useMutation({
+    mutationFn: ({ step, team }: { step: SelectionStep; team?: number }) =>
+      fetchJson<SelectionResponse>(`${selectionUrl}/${step}`, {
+        method: "POST",
+        body: JSON.stringify(team ? { team } : {}),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(selectionKey, data);
+    },
+  });
+
+  useEventChannel(code, (message) => {
+    if (message.type === "ALLIANCE_SELECTION_STEP") {
+      queryClient.invalidateQueries({ queryKey: selectionKey });
+    }
+  });
+
+  const selection = selectionQuery.data;
+  const runStep = (step: SelectionStep, team?: number) => {
+    stepMutation.mutate({ step, team });
+  };
+  const pickingCaptain =
+    selection && selection.picking !== null
+      ? selection.alliances[selection.picking]?.[0]
+      : undefined;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Alliance Selection</h1>
+        <p>
+          Event {code}.{" "}
+          {selection
+            ? `${selection.allianceCount} alliances of ${selection.allianceSize} teams.`
+            : null}
+        </p>
+        {selectionQuery.error ? (
+          <p role="alert">{selectionQuery.error.message}</p>
+        ) : null}
+        {stepMutation.error ? (
+          <p role="alert">{stepMutation.error.message}</p>
+        ) : null}
+        {selection && !selection.started ? (
+          <button
+            className="primary"
+            disabled={stepMutation.isPending}
+            onClick={() => runStep("start")}
+            type="button"
+          >
+            Seat First Captain
+          </button>
+        ) : null}
+        {selection?.started ? (
+          <button
+            disabled={stepMutation.isPending}
+            onClick={() => runStep("undo")}
+            type="button"
+          >
+            Undo
+          </button>
+        ) : null}{" "}
+        {selection?.complete && !selection.finalized ? (
+          <button
+            className="primary"
+            disabled={stepMutation.isPending}
+            onClick={() => runStep("finalize")}
+            type="button"
+          >
+            Finalize Alliances
+          </button>
+        ) : null}
+        {selection?.finalized ? <p>Alliances are finalized.</p> : null}
+      </article>
+
+      {selection ? (
+        <section>
+          <h2>Alliances</h2>
+          <table>
+            <thead>
+              <tr>
+                <th>Alliance</th>
+                <th>Captain</th>
+                <th>Picks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selection.alliances.map((alliance, index) => (
+                <tr
+                  aria-current={
+                    index === selection.picking ? "true" : undefined
+                  }
+                  key={`alliance-${index + 1}`}
+                >
+                  <td>
+                    {index + 1}
+                    {index === selection.picking ? " (picking)" : null}
+                  </td>
+                  <td>{alliance[0] ?? "-"}</td>
+                  <td>{alliance.slice(1).join(", ") || "-"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+
+      {selection?.started && !selection.complete ? (
+        <section>
+          <h2>Available Teams</h2>
+          <p>
+            Alliance {(selection.picking ?? 0) + 1} captain {pickingCaptain} is
+            picking.
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Team</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {selection.available.map((team) => {
+                const declined = selection.declined.includes(team);
+                return (
+                  <tr key={team}>
+                    <td>{team}</td>
+                    <td>{declined ? "Declined" : "Available"}</td>
+                    <td>
+                      <button
+                        className="primary"
+                        disabled={declined || stepMutation.isPending}
+                        onClick={() => runStep("accept", team)}
+                        type="button"
+                      >
+                        Accept
+                      </button>{" "}
+                      <button
+                        disabled={declined || stepMutation.isPending}
+                        onClick={() => runStep("decline", team)}
+                        type="button"
+                      >
+                        Decline
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </main>
+  );
+}
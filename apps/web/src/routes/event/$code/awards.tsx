@@ -0,0 +1,326 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+
+interface AwardWinner {
+  comment: string | null;
+  firstName: string | null;
+  isPublic: boolean;
+  lastName: string | null;
+  nameShort: string | null;
+  series: number;
+  team: number | null;
+}
+
+interface AwardRecord {
+  awardId: number;
+  description: string;
+  manual: boolean;
+  personAward: boolean;
+  winners: AwardWinner[];
+}
+
+interface AwardsResponse {
+  awards: AwardRecord[];
+  ceremony: { awardId: number; revealed: number } | null;
+  locked: boolean;
+}
+
+interface TeamsResponse {
+  teams: {
+    competing: string;
+    inspireEligible: boolean;
+    nameShort: string;
+    number: number;
+  }[];
+}
+
+interface WinnerDraft {
+  comment: string;
+  firstName: string;
+  lastName: string;
+  team: string;
+}
+
+const AWARD_PLACES = 3;
+const INSPIRE_AWARD_ID = 11;
+
+const PLACE_LABELS = ["Winner", "2nd Place", "3rd Place"] as const;
+
+const toDrafts = (award: AwardRecord): WinnerDraft[] =>
+  Array.from({ length: AWARD_PLACES }, (_, index) => {
+    const winner = award.winners[index];
+    return {
+      team: winner?.team ? String(winner.team) : "",
+      firstName: winner?.firstName ?? "",
+      lastName: winner?.lastName ?? "",
+      comment: winner?.comment ?? "",
+    };
+  });
+
+/** Empty places are dropped, so places after a gap move up. */
+const toWinners = (award: AwardRecord, drafts: WinnerDraft[]) =>
+  award.personAward
+    ? drafts
+        .filter((draft) => draft.firstName.trim() || draft.lastName.trim())
+        .map((draft) => ({
+          firstName: draft.firstName,
+          lastName: draft.lastName,
+          comment: draft.comment,
+        }))
+    : drafts
+        .filter((draft) => draft.team !== "")
+        .map((draft) => ({ team: Number(draft.team), comment: draft.comment }));
+
+const winnerName = (winner: AwardWinner): string =>
+  winner.team === null
+    ? `${winner.firstName ?? ""} ${winner.lastName ?? ""}`
+    : `${winner.team} ${winner.nameShort ?? ""}`;
+
+export const Route = createFileRoute("/event/$code/awards")({
+  component: AwardsComponent,
+});
+
+function AwardsComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const awardsKey = ["events", code, "awards"];
+
+  const awardsQuery = useQuery({
+    queryKey: awardsKey,
+    queryFn: () => fetchJson<AwardsResponse>(`/api/events/${code}/awards`),
+  });
+  const teamsQuery = useQuery({
+    queryKey: ["events", code, "teams"],
+    queryFn: () => fetchJson<TeamsResponse>(`/api/events/${code}/teams`),
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: awardsKey });
+
+  const lockMutation = useMutation({
+    mutationFn: (locked: boolean) =>
+      fetchJson(`/api/events/${code}/awards`, {
+        method: "PUT",
+        body: JSON.stringify({ locked }),
+      }),
+    onSuccess: refresh,
+  });
+
+  const presentMutation = useMutation({
+    mutationFn: (ceremony: { awardId: number; revealed: number }) =>
+      fetchJson(`/api/events/${code}/display/audience/awards`, {
+        method: "PUT",
+        body: JSON.stringify(ceremony),
+      }),
+    onSuccess: refresh,
+  });
+
+  const data = awardsQuery.data;
+  const teams =
+    teamsQuery.data?.teams.filter((team) => team.competing === "FULL") ?? [];
+  const ceremony = data?.ceremony ?? null;
+  const ceremonyAward = data?.awards.find(
+    (award) => award.awardId === ceremony?.awardId
+  );
+  const error =
+    awardsQuery.error ??
+    teamsQuery.error ??
+    lockMutation.error ??
+    presentMutation.error;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Awards</h1>
+        <p>
+          Event {code}. Enter each award's winner and finalists in ranked order,
+          then lock the results before the ceremony.
+        </p>
+        {error ? <p role="alert">{error.message}</p> : null}
+        {data ? (
+          <button
+            className={data.locked ? undefined : "primary"}
+            disabled={lockMutation.isPending}
+            onClick={() => lockMutation.mutate(!data.locked)}
+            type="button"
+          >
+            {data.locked ? "Unlock Results" : "Lock Results"}
+          </button>
+        ) : null}
+      </article>
+
+      {data?.locked ? (
+        <section>
+          <h2>Ceremony</h2>
+          <p>
+            Choose an award to put it on the audience display, then reveal its
+            places from the last finalist up to the winner.
+          </p>
+          {data.awards
+            .filter((award) => award.winners.length > 0)
+            .map((award) => (
+              <button
+                disabled={presentMutation.isPending}
+                key={award.awardId}
+                onClick={() =>
+                  presentMutation.mutate({
+                    awardId: award.awardId,
+                    revealed: 0,
+                  })
+                }
+                type="button"
+              >
+                {award.description}
+              </button>
+            ))}
+          {ceremony && ceremonyAward ? (
+            <p>
+              On stage: <strong>{ceremonyAward.description}</strong>,{" "}
+              {ceremony.revealed} of {ceremonyAward.winners.length} revealed.{" "}
+              <button
+                className="primary"
+                disabled={
+                  presentMutation.isPending ||
+                  ceremony.revealed >= ceremonyAward.winners.length
+                }
+                onClick={() =>
+                  presentMutation.mutate({
+                    awardId: ceremony.awardId,
+                    revealed: ceremony.revealed + 1,
+                  })
+                }
+                type="button"
+              >
+                Reveal Next
+              </button>
+            </p>
+          ) : null}
+        </section>
+      ) : null}
+
+      {data?.awards.map((award) =>
+        award.manual ? (
+          <AwardEditor
+            award={award}
+            code={code}
+            key={`${award.awardId}-${award.winners.map(winnerName).join()}`}
+            locked={data.locked}
+            onSaved={refresh}
+            teams={teams.filter(
+              (team) =>
+                award.awardId !== INSPIRE_AWARD_ID || team.inspireEligible
+            )}
+          />
+        ) : (
+          <section key={award.awardId}>
+            <h2>{award.description}</h2>
+            <p>
+              Alliance awards follow the playoff results and are not entered
+              here.
+            </p>
+          </section>
+        )
+      )}
+    </main>
+  );
+}
+
+function AwardEditor({
+  award,
+  code,
+  locked,
+  onSaved,
+  teams,
+}: {
+  award: AwardRecord;
+  code: string;
+  locked: boolean;
+  onSaved: () => void;
+  teams: TeamsResponse["teams"];
+}) {
+  const [drafts, setDrafts] = useState(() => toDrafts(award));
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      fetchJson(`/api/events/${code}/awards/${award.awardId}`, {
+        method: "PUT",
+        body: JSON.stringify({ winners: toWinners(award, drafts) }),
+      }),
+    onSuccess: onSaved,
+  });
+
+  const updateDraft = (index: number, changes: Partial<WinnerDraft>) =>
+    setDrafts((current) =>
+      current.map((draft, position) =>
+        position === index ? { ...draft, ...changes } : draft
+      )
+    );
+
+  return (
+    <section>
+      <h2>{award.description}</h2>
+      {saveMutation.error ? (
+        <p role="alert">{saveMutation.error.message}</p>
+      ) : null}
+      <fieldset disabled={locked}>
+        {drafts.map((draft, index) => (
+          <div key={PLACE_LABELS[index]}>
+            <strong>{PLACE_LABELS[index]}</strong>{" "}
+            {award.personAward ? (
+              <>
+                <input
+                  aria-label={`${PLACE_LABELS[index]} first name`}
+                  onChange={(event) =>
+                    updateDraft(index, { firstName: event.target.value })
+                  }
+                  placeholder="First name"
+                  value={draft.firstName}
+                />{" "}
+                <input
+                  aria-label={`${PLACE_LABELS[index]} last name`}
+                  onChange={(event) =>
+                    updateDraft(index, { lastName: event.target.value })
+                  }
+                  placeholder="Last name"
+                  value={draft.lastName}
+                />
+              </>
+            ) : (
+              <select
+                aria-label={`${PLACE_LABELS[index]} team`}
+                onChange={(event) =>
+                  updateDraft(index, { team: event.target.value })
+                }
+                value={draft.team}
+              >
+                <option value="">No team</option>
+                {teams.map((team) => (
+                  <option key={team.number} value={team.number}>
+                    {team.number} {team.nameShort}
+                  </option>
+                ))}
+              </select>
+            )}{" "}
+            <input
+              aria-label={`${PLACE_LABELS[index]} comment`}
+              onChange={(event) =>
+                updateDraft(index, { comment: event.target.value })
+              }
+              placeholder="Comment"
+              value={draft.comment}
+            />
+          </div>
+        ))}
+        <button
+          disabled={saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+          type="button"
+        >
+          Save
+        </button>
+      </fieldset>
+    </section>
+  );
+}
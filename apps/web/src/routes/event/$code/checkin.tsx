@@ -0,0 +1,114 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import InspectionSheet from "@/components/inspection-sheet";
+import { fetchJson } from "@/lib/api";
+import {
+  INSPECTION_STATUS_CLASSES,
+  INSPECTION_STATUS_LABELS,
+  type StatusBoardResponse,
+} from "@/lib/inspection";
+
+const CHECKIN_FORM_ID = "checkin";
+
+interface FormsResponse {
+  forms: { formId: string; version: number | null }[];
+}
+
+export const Route = createFileRoute("/event/$code/checkin")({
+  component: CheckInComponent,
+});
+
+function CheckInComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const boardKey = ["events", code, "team-status"];
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const boardQuery = useQuery({
+    queryKey: boardKey,
+    queryFn: () =>
+      fetchJson<StatusBoardResponse>(`/api/events/${code}/team-status`),
+  });
+  const formsQuery = useQuery({
+    queryKey: ["events", code, "inspection", "forms"],
+    queryFn: () =>
+      fetchJson<FormsResponse>(`/api/events/${code}/inspection/forms`),
+  });
+
+  const checkInMutation = useMutation({
+    mutationFn: (team: number) =>
+      fetchJson(`/api/events/${code}/checkin/${team}`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: boardKey }),
+  });
+
+  const hasCheckInForm =
+    formsQuery.data?.forms.some((form) => form.formId === CHECKIN_FORM_ID) ??
+    false;
+  const error = boardQuery.error ?? formsQuery.error ?? checkInMutation.error;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Team Check-In</h1>
+        <p>
+          Event {code}.{" "}
+          {hasCheckInForm
+            ? "Choose a team to fill in its check-in form."
+            : "Check teams in as they arrive."}
+        </p>
+        {error ? <p role="alert">{error.message}</p> : null}
+      </article>
+      {selected !== null && hasCheckInForm ? (
+        <InspectionSheet
+          code={code}
+          finishLabel="Check In"
+          formId={CHECKIN_FORM_ID}
+          key={selected}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: boardKey })}
+          team={String(selected)}
+        />
+      ) : null}
+      <section>
+        <table>
+          <thead>
+            <tr>
+              <th scope="col">Team</th>
+              <th scope="col">Check-In</th>
+              <th scope="col" />
+            </tr>
+          </thead>
+          <tbody>
+            {boardQuery.data?.teams.map((team) => (
+              <tr key={team.team}>
+                <th scope="row">
+                  {team.team} {team.nameShort}
+                </th>
+                <td className={INSPECTION_STATUS_CLASSES[team.stages.checkin]}>
+                  {INSPECTION_STATUS_LABELS[team.stages.checkin]}
+                </td>
+                <td>
+                  <button
+                    disabled={checkInMutation.isPending}
+                    onClick={() =>
+                      hasCheckInForm
+                        ? setSelected(team.team)
+                        : checkInMutation.mutate(team.team)
+                    }
+                    type="button"
+                  >
+                    {hasCheckInForm ? "Open Form" : "Check In"}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,458 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+import {
+  type AudienceDisplayState,
+  type FieldSnapshot,
+  type LiveAllianceScore,
+  type MatchLevel,
+  useEventChannel,
+} from "@/lib/event-channel";
+import {
+  formatMatchClock,
+  matchClockRemaining,
+  PHASE_LABELS,
+  useNow,
+} from "@/lib/match-clock";
+
+interface DisplayTeam {
+  nameShort: string;
+  number: number;
+  surrogate: boolean;
+}
+
+interface DisplayAlliance {
+  alliance: number | null;
+  teams: DisplayTeam[];
+}
+
+interface DisplayMatch {
+  blue: DisplayAlliance;
+  label: string;
+  level: MatchLevel;
+  match: number;
+  red: DisplayAlliance;
+  score: { blue: LiveAllianceScore; red: LiveAllianceScore } | null;
+}
+
+interface DisplayRanking {
+  losses: number;
+  nameShort: string;
+  rank: number;
+  rankingScore: string;
+  team: number;
+  ties: number;
+  wins: number;
+}
+
+interface AllianceBoard {
+  allianceSize: number;
+  alliances: DisplayAlliance[];
+  complete: boolean;
+  picking: number | null;
+}
+
+interface DisplaySponsor {
+  level: number;
+  logo: string;
+  name: string;
+  title: string;
+}
+
+interface AwardWinner {
+  firstName: string | null;
+  lastName: string | null;
+  nameShort: string | null;
+  series: number;
+  team: number | null;
+}
+
+interface CeremonyAward {
+  description: string;
+  places: number;
+  revealed: AwardWinner[];
+  script: string;
+}
+
+interface AudienceDisplayResponse {
+  allianceBoard: AllianceBoard | null;
+  award: CeremonyAward | null;
+  eventName: string;
+  match: DisplayMatch | null;
+  rankings: DisplayRanking[] | null;
+  sponsors: DisplaySponsor[] | null;
+  state: AudienceDisplayState;
+}
+
+interface FieldsResponse {
+  fields: FieldSnapshot[];
+}
+
+interface LiveScore {
+  blue: LiveAllianceScore;
+  red: LiveAllianceScore;
+}
+
+const SPONSOR_SLIDE_MS = 8000;
+
+const LEVEL_NAMES: Record<MatchLevel, string> = {
+  elims: "Playoff",
+  practice: "Practice",
+  quals: "Qualification",
+};
+
+/** Messages after which the current screen's data is stale. */
+const REFRESH_MESSAGES = new Set([
+  "DISPLAY_CHANGED",
+  "SCORE_COMMITTED",
+  "RANKINGS_CHANGED",
+  "ALLIANCE_SELECTION_STEP",
+]);
+
+export const Route = createFileRoute("/event/$code/display/audience")({
+  component: AudienceDisplayComponent,
+});
+
+function AudienceDisplayComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const displayKey = ["events", code, "display", "audience"];
+  const fieldsKey = ["events", code, "fields"];
+  const [liveScore, setLiveScore] = useState<LiveScore | null>(null);
+
+  const displayQuery = useQuery({
+    queryKey: displayKey,
+    queryFn: () =>
+      fetchJson<AudienceDisplayResponse>(
+        `/api/events/${code}/display/audience`
+      ),
+  });
+  const fieldsQuery = useQuery({
+    queryKey: fieldsKey,
+    queryFn: () => fetchJson<FieldsResponse>(`/api/events/${code}/fields`),
+  });
+
+  const state = displayQuery.data?.state;
+  const isShownMatch = (level: MatchLevel | null, match: number | null) =>
+    state !== undefined && level === state.level && match === state.match;
+
+  useEventChannel(code, (message) => {
+    if (REFRESH_MESSAGES.has(message.type)) {
+      queryClient.invalidateQueries({ queryKey: displayKey });
+    }
+    if (message.type === "DISPLAY_CHANGED") {
+      setLiveScore(null);
+    }
+    if (
+      message.type === "SCORE_UPDATED" &&
+      isShownMatch(message.level, message.match)
+    ) {
+      setLiveScore({ red: message.red, blue: message.blue });
+    }
+    if (message.type === "MATCH_PHASE_CHANGED") {
+      queryClient.setQueryData<FieldsResponse>(fieldsKey, (current) =>
+        current
+          ? {
+              fields: current.fields.map((field) =>
+                field.field === message.field ? message.snapshot : field
+              ),
+            }
+          : current
+      );
+    }
+  });
+
+  const data = displayQuery.data;
+  if (!data) {
+    return (
+      <main className="display">
+        {displayQuery.error ? (
+          <p role="alert">{displayQuery.error.message}</p>
+        ) : null}
+      </main>
+    );
+  }
+
+  const field =
+    fieldsQuery.data?.fields.find((item) =>
+      isShownMatch(item.level, item.match)
+    ) ?? null;
+
+  return (
+    <main className="display">
+      <header>
+        <h1>{data.eventName}</h1>
+      </header>
+      <AudienceScreen data={data} field={field} liveScore={liveScore} />
+    </main>
+  );
+}
+
+function AudienceScreen({
+  data,
+  field,
+  liveScore,
+}: {
+  data: AudienceDisplayResponse;
+  field: FieldSnapshot | null;
+  liveScore: LiveScore | null;
+}) {
+  switch (data.state.screen) {
+    case "match-preview":
+      return data.match ? <MatchPreview match={data.match} /> : null;
+    case "match-score":
+      return data.match ? (
+        <ScoreBar
+          field={field}
+          match={data.match}
+          score={liveScore ?? data.match.score}
+        />
+      ) : null;
+    case "match-results":
+      return data.match ? <MatchResults match={data.match} /> : null;
+    case "rankings":
+      return <RankingsTicker rankings={data.rankings ?? []} />;
+    case "alliance-selection":
+      return data.allianceBoard ? (
+        <AllianceSelectionBoard board={data.allianceBoard} />
+      ) : null;
+    case "sponsors":
+      return <SponsorSlideshow sponsors={data.sponsors ?? []} />;
+    case "awards":
+      return data.award ? <AwardPresenter award={data.award} /> : null;
+    default:
+      return null;
+  }
+}
+
+/** Playoff labels name the bracket slot, which can span several matches. */
+const matchTitle = (match: DisplayMatch): string =>
+  match.level === "elims" && match.label !== `Match ${match.match}`
+    ? `${LEVEL_NAMES.elims} ${match.label} - Match ${match.match}`
+    : `${LEVEL_NAMES[match.level]} ${match.label}`;
+
+const allianceTitle = (alliance: DisplayAlliance, color: string): string =>
+  alliance.alliance === null
+    ? `${color} Alliance`
+    : `${color} - Alliance ${alliance.alliance}`;
+
+function AllianceTeams({ alliance }: { alliance: DisplayAlliance }) {
+  return (
+    <ul>
+      {alliance.teams.map((team) => (
+        <li key={team.number}>
+          <strong>{team.number}</strong> {team.nameShort}
+          {team.surrogate ? " (surrogate)" : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function MatchPreview({ match }: { match: DisplayMatch }) {
+  return (
+    <section>
+      <h2>Up Next: {matchTitle(match)}</h2>
+      <div className="display-alliances">
+        <article className="alliance-red">
+          <h3>{allianceTitle(match.red, "Red")}</h3>
+          <AllianceTeams alliance={match.red} />
+        </article>
+        <article className="alliance-blue">
+          <h3>{allianceTitle(match.blue, "Blue")}</h3>
+          <AllianceTeams alliance={match.blue} />
+        </article>
+      </div>
+    </section>
+  );
+}
+
+function ScoreBar({
+  field,
+  match,
+  score,
+}: {
+  field: FieldSnapshot | null;
+  match: DisplayMatch;
+  score: LiveScore | null;
+}) {
+  const now = useNow();
+  return (
+    <section>
+      <h2>{matchTitle(match)}</h2>
+      <div className="display-score-bar">
+        <article className="alliance-red">
+          <AllianceTeams alliance={match.red} />
+          <output>{score?.red.total ?? 0}</output>
+        </article>
+        <p>
+          <output>
+            {formatMatchClock(field ? matchClockRemaining(field, now) : null)}
+          </output>
+          <br />
+          {field ? PHASE_LABELS[field.phase] : null}
+        </p>
+        <article className="alliance-blue">
+          <AllianceTeams alliance={match.blue} />
+          <output>{score?.blue.total ?? 0}</output>
+        </article>
+      </div>
+    </section>
+  );
+}
+
+const BREAKDOWN_ROWS: { key: keyof LiveAllianceScore; label: string }[] = [
+  { key: "auto", label: "Autonomous" },
+  { key: "teleop", label: "Driver Controlled" },
+  { key: "endgame", label: "Endgame" },
+  { key: "foulPoints", label: "Penalty Points" },
+  { key: "total", label: "Final Score" },
+];
+
+function MatchResults({ match }: { match: DisplayMatch }) {
+  if (!match.score) {
+    return (
+      <section>
+        <h2>{matchTitle(match)}</h2>
+        <p>Results are not final yet.</p>
+      </section>
+    );
+  }
+
+  const { red, blue } = match.score;
+  return (
+    <section>
+      <h2>Results: {matchTitle(match)}</h2>
+      <table>
+        <thead>
+          <tr>
+            <th className="alliance-red" scope="col">
+              {allianceTitle(match.red, "Red")}
+            </th>
+            <th scope="col" />
+            <th className="alliance-blue" scope="col">
+              {allianceTitle(match.blue, "Blue")}
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {BREAKDOWN_ROWS.map((row) => (
+            <tr key={row.key}>
+              <td>{red[row.key]}</td>
+              <th scope="row">{row.label}</th>
+              <td>{blue[row.key]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function RankingsTicker({ rankings }: { rankings: DisplayRanking[] }) {
+  return (
+    <section>
+      <h2>Rankings</h2>
+      <div className="display-ticker">
+        <ol>
+          {rankings.map((ranking) => (
+            <li key={ranking.team}>
+              <strong>{ranking.rank}</strong> {ranking.team} {ranking.nameShort}{" "}
+              - RS {ranking.rankingScore} ({ranking.wins}-{ranking.losses}-
+              {ranking.ties})
+            </li>
+          ))}
+        </ol>
+      </div>
+    </section>
+  );
+}
+
+function AllianceSelectionBoard({ board }: { board: AllianceBoard }) {
+  return (
+    <section>
+      <h2>Alliance Selection</h2>
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">Alliance</th>
+            <th scope="col">Captain</th>
+            {Array.from({ length: board.allianceSize - 1 }, (_, index) => (
+              <th key={`pick-${index + 1}`} scope="col">
+                Pick {index + 1}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {board.alliances.map((alliance, index) => (
+            <tr
+              aria-current={board.picking === index ? "true" : undefined}
+              key={alliance.alliance}
+            >
+              <th scope="row">{alliance.alliance}</th>
+              {Array.from({ length: board.allianceSize }, (_, seat) => {
+                const team = alliance.teams[seat];
+                return (
+                  <td key={`seat-${seat + 1}`}>
+                    {team ? `${team.number} ${team.nameShort}` : null}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function SponsorSlideshow({ sponsors }: { sponsors: DisplaySponsor[] }) {
+  const now = useNow(1000);
+  if (sponsors.length === 0) {
+    return null;
+  }
+
+  const sponsor =
+    sponsors[Math.floor(now / SPONSOR_SLIDE_MS) % sponsors.length];
+  return (
+    <section className="display-sponsor">
+      <h2>{sponsor.title || "Thank You to Our Sponsors"}</h2>
+      <img alt={sponsor.name} height={480} src={sponsor.logo} width={960} />
+      <p>{sponsor.name}</p>
+    </section>
+  );
+}
+
+const placeTitle = (series: number): string =>
+  series === 1 ? "Winner" : `${series}${series === 2 ? "nd" : "rd"} Place`;
+
+const winnerName = (winner: AwardWinner): string =>
+  winner.team === null
+    ? `${winner.firstName ?? ""} ${winner.lastName ?? ""}`
+    : `${winner.team} ${winner.nameShort ?? ""}`;
+
+/** Places arrive one by one from the server, last finalist first. */
+function AwardPresenter({ award }: { award: CeremonyAward }) {
+  return (
+    <section className="display-award">
+      <h2>{award.description}</h2>
+      {award.revealed.length === 0 && award.script ? (
+        <p>{award.script}</p>
+      ) : null}
+      <ol>
+        {award.revealed.map((winner) => (
+          <li
+            aria-current={winner.series === 1 ? "true" : undefined}
+            key={winner.series}
+          >
+            <span>{placeTitle(winner.series)}</span>
+            <strong>{winnerName(winner)}</strong>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
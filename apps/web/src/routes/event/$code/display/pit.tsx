@@ -0,0 +1,223 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+
+import { fetchJson } from "@/lib/api";
+import { type MatchLevel, useEventChannel } from "@/lib/event-channel";
+import { useNow } from "@/lib/match-clock";
+
+interface MatchSlot {
+  surrogate: boolean;
+  team: number;
+}
+
+interface PitRanking {
+  losses: number;
+  matchesPlayed: number;
+  nameShort: string;
+  rank: number;
+  rankingScore: string;
+  sortOrders: string[];
+  team: number;
+  ties: number;
+  wins: number;
+}
+
+interface PitMatch {
+  blue: MatchSlot[];
+  estimatedStart: number;
+  label: string;
+  match: number;
+  red: MatchSlot[];
+  scheduleStart: number;
+}
+
+interface PitDisplayResponse {
+  eventName: string;
+  rankings: PitRanking[];
+  schedule: {
+    level: MatchLevel;
+    offset: number;
+    remaining: PitMatch[];
+  };
+}
+
+type PitPage =
+  | { kind: "rankings"; rows: PitRanking[] }
+  | { kind: "schedule"; rows: PitMatch[] };
+
+const ROWS_PER_PAGE = 12;
+const PAGE_MS = 10_000;
+/** Estimates drift with the wall clock, so refresh even when nothing is sent. */
+const REFRESH_INTERVAL_MS = 60_000;
+/** Offsets within this window count as on time. */
+const ON_TIME_MS = 60_000;
+
+const REFRESH_MESSAGES = new Set([
+  "MATCH_STARTED",
+  "MATCH_ABORTED",
+  "SCORE_COMMITTED",
+  "RANKINGS_CHANGED",
+]);
+
+export const Route = createFileRoute("/event/$code/display/pit")({
+  component: PitDisplayComponent,
+});
+
+const chunk = <T,>(rows: T[]): T[][] => {
+  const pages: T[][] = [];
+  for (let index = 0; index < rows.length; index += ROWS_PER_PAGE) {
+    pages.push(rows.slice(index, index + ROWS_PER_PAGE));
+  }
+  return pages;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const formatSlot = (slot: MatchSlot): string =>
+  slot.surrogate ? `${slot.team}*` : String(slot.team);
+
+const formatOffset = (offset: number): string => {
+  if (Math.abs(offset) < ON_TIME_MS) {
+    return "On schedule";
+  }
+  const minutes = Math.round(Math.abs(offset) / ON_TIME_MS);
+  return `${minutes} min ${offset > 0 ? "behind" : "ahead"}`;
+};
+
+function PitDisplayComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const pitKey = ["events", code, "display", "pit"];
+  const now = useNow(1000);
+
+  const pitQuery = useQuery({
+    queryKey: pitKey,
+    queryFn: () =>
+      fetchJson<PitDisplayResponse>(`/api/events/${code}/display/pit`),
+    refetchInterval: REFRESH_INTERVAL_MS,
+  });
+
+  useEventChannel(code, (message) => {
+    if (REFRESH_MESSAGES.has(message.type)) {
+      queryClient.invalidateQueries({ queryKey: pitKey });
+    }
+  });
+
+  const data = pitQuery.data;
+  if (!data) {
+    return (
+      <main className="display">
+        {pitQuery.error ? <p role="alert">{pitQuery.error.message}</p> : null}
+      </main>
+    );
+  }
+
+  const pages: PitPage[] = [
+    ...chunk(data.rankings).map((rows) => ({
+      kind: "rankings" as const,
+      rows,
+    })),
+    ...chunk(data.schedule.remaining).map((rows) => ({
+      kind: "schedule" as const,
+      rows,
+    })),
+  ];
+  const page = pages[Math.floor(now / PAGE_MS) % Math.max(pages.length, 1)];
+
+  return (
+    <main className="display">
+      <header>
+        <h1>{data.eventName}</h1>
+        {data.schedule.remaining.length > 0 ? (
+          <p>{formatOffset(data.schedule.offset)}</p>
+        ) : null}
+      </header>
+      {page?.kind === "rankings" ? <RankingsPage rows={page.rows} /> : null}
+      {page?.kind === "schedule" ? <SchedulePage rows={page.rows} /> : null}
+      {page ? null : <p>No rankings or upcoming matches yet.</p>}
+    </main>
+  );
+}
+
+function RankingsPage({ rows }: { rows: PitRanking[] }) {
+  return (
+    <section>
+      <h2>Rankings</h2>
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">Rank</th>
+            <th scope="col">Team</th>
+            <th scope="col">RS</th>
+            <th scope="col">Avg Score</th>
+            <th scope="col">Avg Endgame</th>
+            <th scope="col">Avg Auto</th>
+            <th scope="col">W-L-T</th>
+            <th scope="col">Played</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((ranking) => (
+            <tr key={ranking.team}>
+              <td>{ranking.rank}</td>
+              <td>
+                <strong>{ranking.team}</strong> {ranking.nameShort}
+              </td>
+              <td>{ranking.rankingScore}</td>
+              <td>{ranking.sortOrders[1]}</td>
+              <td>{ranking.sortOrders[2]}</td>
+              <td>{ranking.sortOrders[3]}</td>
+              <td>
+                {ranking.wins}-{ranking.losses}-{ranking.ties}
+              </td>
+              <td>{ranking.matchesPlayed}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function SchedulePage({ rows }: { rows: PitMatch[] }) {
+  return (
+    <section>
+      <h2>Upcoming Matches</h2>
+      <table>
+        <thead>
+          <tr>
+            <th scope="col">Match</th>
+            <th scope="col">Estimated</th>
+            <th scope="col">Scheduled</th>
+            <th className="alliance-red" scope="col">
+              Red
+            </th>
+            <th className="alliance-blue" scope="col">
+              Blue
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((match) => (
+            <tr key={match.match}>
+              <td>{match.label}</td>
+              <td>{formatTime(match.estimatedStart)}</td>
+              <td>{formatTime(match.scheduleStart)}</td>
+              <td>{match.red.map(formatSlot).join(" & ")}</td>
+              <td>{match.blue.map(formatSlot).join(" & ")}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.some((match) =>
+        [...match.red, ...match.blue].some((slot) => slot.surrogate)
+      ) ? (
+        <p>* Surrogate match; it does not count toward rankings.</p>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,402 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+
+interface ScheduleDay {
+  date: string;
+  endTime: string;
+  startTime: string;
+}
+
+interface StationType {
+  bindings: unknown[];
+  duration: number;
+  name: string;
+  stations: number;
+}
+
+interface ScheduleItem {
+  date: string;
+  id: number;
+  name: string;
+  startTime: number;
+  station: number;
+  team: number;
+  totalTime: number;
+}
+
+interface InspectionScheduleResponse {
+  form: { days: ScheduleDay[]; stations: StationType[] };
+  items: ScheduleItem[];
+}
+
+interface TeamsResponse {
+  teams: { competing: string; nameShort: string; number: number }[];
+}
+
+type TimetableView = "station" | "team";
+
+const DEFAULT_STATIONS: StationType[] = [
+  { name: "Judging", duration: 15, stations: 3, bindings: [] },
+  { name: "Inspection", duration: 15, stations: 3, bindings: [] },
+];
+
+const padTime = (value: number): string => String(value).padStart(2, "0");
+
+const todayInputValue = (): string => {
+  const date = new Date();
+  return `${date.getFullYear()}-${padTime(date.getMonth() + 1)}-${padTime(date.getDate())}`;
+};
+
+const formatMinutes = (minutes: number): string =>
+  `${padTime(Math.floor(minutes / 60))}:${padTime(minutes % 60)}`;
+
+const formatItemTime = (item: ScheduleItem): string =>
+  `${item.date} ${formatMinutes(item.startTime)}-${formatMinutes(item.startTime + item.totalTime)}`;
+
+/** Minutes east of UTC on the first scheduled day, as the server expects. */
+const timeZoneOffsetFor = (date: string | undefined): number =>
+  -new Date(`${date ?? todayInputValue()}T12:00`).getTimezoneOffset();
+
+const groupItems = (
+  items: ScheduleItem[],
+  keyOf: (item: ScheduleItem) => string
+): [string, ScheduleItem[]][] => {
+  const groups = new Map<string, ScheduleItem[]>();
+  for (const item of items) {
+    const key = keyOf(item);
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  }
+  return [...groups];
+};
+
+export const Route = createFileRoute("/event/$code/inspection-schedule")({
+  component: InspectionScheduleComponent,
+});
+
+function InspectionScheduleComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const scheduleKey = ["events", code, "inspection-schedule"];
+  const scheduleUrl = `/api/events/${code}/inspection-schedule`;
+
+  const scheduleQuery = useQuery({
+    queryKey: scheduleKey,
+    queryFn: () => fetchJson<InspectionScheduleResponse>(scheduleUrl),
+  });
+  const teamsQuery = useQuery({
+    queryKey: ["events", code, "teams"],
+    queryFn: () => fetchJson<TeamsResponse>(`/api/events/${code}/teams`),
+  });
+
+  const [days, setDays] = useState<ScheduleDay[]>([]);
+  const [stations, setStations] = useState<StationType[]>([]);
+  const [gap, setGap] = useState("10");
+  const [view, setView] = useState<TimetableView>("team");
+
+  useEffect(() => {
+    if (scheduleQuery.data) {
+      const { form } = scheduleQuery.data;
+      setDays(
+        form.days.length > 0
+          ? form.days
+          : [{ date: todayInputValue(), startTime: "08:00", endTime: "12:00" }]
+      );
+      setStations(form.stations.length > 0 ? form.stations : DEFAULT_STATIONS);
+    }
+  }, [scheduleQuery.data]);
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<InspectionScheduleResponse>(scheduleUrl, {
+        method: "POST",
+        body: JSON.stringify({
+          days,
+          stations,
+          gap: Number(gap),
+          timeZoneOffset: timeZoneOffsetFor(days[0]?.date),
+        }),
+      }),
+    onSuccess: (saved) => queryClient.setQueryData(scheduleKey, saved),
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => fetchJson(scheduleUrl, { method: "DELETE" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: scheduleKey }),
+  });
+
+  const updateDay = (index: number, changes: Partial<ScheduleDay>) =>
+    setDays((current) =>
+      current.map((day, position) =>
+        position === index ? { ...day, ...changes } : day
+      )
+    );
+  const updateStation = (index: number, changes: Partial<StationType>) =>
+    setStations((current) =>
+      current.map((station, position) =>
+        position === index ? { ...station, ...changes } : station
+      )
+    );
+
+  const teamNames = new Map(
+    teamsQuery.data?.teams.map((team) => [team.number, team.nameShort])
+  );
+  const items = scheduleQuery.data?.items ?? [];
+  const groups =
+    view === "team"
+      ? groupItems(
+          [...items].sort((a, b) => a.team - b.team),
+          (item) => `Team ${item.team} ${teamNames.get(item.team) ?? ""}`
+        )
+      : groupItems(items, (item) => `${item.name} ${item.station}`);
+  const error =
+    scheduleQuery.error ??
+    teamsQuery.error ??
+    generateMutation.error ??
+    clearMutation.error;
+
+  return (
+    <main className="page">
+      <article className="no-print">
+        <h1>Inspection Schedule</h1>
+        <p>
+          Event {code}. Every competing team gets one slot at each station type,
+          clear of its other slots and its matches.
+        </p>
+        {error ? <p role="alert">{error.message}</p> : null}
+      </article>
+
+      <section className="no-print">
+        <h2>Hours</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Start</th>
+              <th>End</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {days.map((day, index) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: drafts have no identity until saved
+              <tr key={index}>
+                <td>
+                  <input
+                    aria-label="Date"
+                    onChange={(event) =>
+                      updateDay(index, { date: event.target.value })
+                    }
+                    type="date"
+                    value={day.date}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Start"
+                    onChange={(event) =>
+                      updateDay(index, { startTime: event.target.value })
+                    }
+                    type="time"
+                    value={day.startTime}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="End"
+                    onChange={(event) =>
+                      updateDay(index, { endTime: event.target.value })
+                    }
+                    type="time"
+                    value={day.endTime}
+                  />
+                </td>
+                <td>
+                  <button
+                    onClick={() =>
+                      setDays((current) =>
+                        current.filter((_, position) => position !== index)
+                      )
+                    }
+                    type="button"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() =>
+            setDays((current) => [
+              ...current,
+              current.at(-1) ?? {
+                date: todayInputValue(),
+                startTime: "08:00",
+                endTime: "12:00",
+              },
+            ])
+          }
+          type="button"
+        >
+          Add Day
+        </button>
+      </section>
+
+      <section className="no-print">
+        <h2>Stations</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Slot (min)</th>
+              <th>Stations</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {stations.map((station, index) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: drafts have no identity until saved
+              <tr key={index}>
+                <td>
+                  <input
+                    aria-label="Name"
+                    onChange={(event) =>
+                      updateStation(index, { name: event.target.value })
+                    }
+                    value={station.name}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Slot length in minutes"
+                    min="1"
+                    onChange={(event) =>
+                      updateStation(index, {
+                        duration: Number(event.target.value),
+                      })
+                    }
+                    type="number"
+                    value={station.duration}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Number of stations"
+                    min="1"
+                    onChange={(event) =>
+                      updateStation(index, {
+                        stations: Number(event.target.value),
+                      })
+                    }
+                    type="number"
+                    value={station.stations}
+                  />
+                </td>
+                <td>
+                  <button
+                    onClick={() =>
+                      setStations((current) =>
+                        current.filter((_, position) => position !== index)
+                      )
+                    }
+                    type="button"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() =>
+            setStations((current) => [
+              ...current,
+              { name: "", duration: 15, stations: 1, bindings: [] },
+            ])
+          }
+          type="button"
+        >
+          Add Station
+        </button>
+        <label>
+          Minutes between a team's slots and matches
+          <input
+            min="0"
+            onChange={(event) => setGap(event.target.value)}
+            type="number"
+            value={gap}
+          />
+        </label>
+        <button
+          className="primary"
+          disabled={generateMutation.isPending}
+          onClick={() => generateMutation.mutate()}
+          type="button"
+        >
+          {generateMutation.isPending ? "Generating..." : "Generate Schedule"}
+        </button>{" "}
+        <button
+          disabled={clearMutation.isPending}
+          onClick={() => clearMutation.mutate()}
+          type="button"
+        >
+          Clear Schedule
+        </button>
+      </section>
+
+      <section>
+        <h2>Timetable</h2>
+        <div className="no-print">
+          <label>
+            View
+            <select
+              onChange={(event) => setView(event.target.value as TimetableView)}
+              value={view}
+            >
+              <option value="team">By team</option>
+              <option value="station">By station</option>
+            </select>
+          </label>
+          <button
+            disabled={items.length === 0}
+            onClick={() => window.print()}
+            type="button"
+          >
+            Print
+          </button>
+        </div>
+        {items.length === 0 ? <p>No inspection slots scheduled.</p> : null}
+        {groups.map(([title, entries]) => (
+          <div className="print-page" key={title}>
+            <h3>{title}</h3>
+            <table>
+              <thead>
+                <tr>
+                  <th>Time</th>
+                  <th>{view === "team" ? "Station" : "Team"}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((item) => (
+                  <tr key={item.id}>
+                    <td>{formatItemTime(item)}</td>
+                    <td>
+                      {view === "team"
+                        ? `${item.name} ${item.station}`
+                        : `${item.team} ${teamNames.get(item.team) ?? ""}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </section>
+    </main>
+  );
+}
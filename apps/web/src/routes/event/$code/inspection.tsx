@@ -0,0 +1,86 @@
+import { useQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import InspectionSheet from "@/components/inspection-sheet";
+import { fetchJson } from "@/lib/api";
+
+interface FormsResponse {
+  forms: { formId: string; version: number | null }[];
+}
+
+interface TeamsResponse {
+  teams: { competing: string; nameShort: string; number: number }[];
+}
+
+export const Route = createFileRoute("/event/$code/inspection")({
+  component: InspectionComponent,
+});
+
+function InspectionComponent() {
+  const { code } = Route.useParams();
+  const [formId, setFormId] = useState("");
+  const [team, setTeam] = useState("");
+
+  const formsQuery = useQuery({
+    queryKey: ["events", code, "inspection", "forms"],
+    queryFn: () =>
+      fetchJson<FormsResponse>(`/api/events/${code}/inspection/forms`),
+  });
+  const teamsQuery = useQuery({
+    queryKey: ["events", code, "teams"],
+    queryFn: () => fetchJson<TeamsResponse>(`/api/events/${code}/teams`),
+  });
+
+  const error = formsQuery.error ?? teamsQuery.error;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Inspection</h1>
+        <p>Event {code}. Choose a form and a team to inspect.</p>
+        {error ? <p role="alert">{error.message}</p> : null}
+        {formsQuery.data?.forms.length === 0 ? (
+          <p>This event has no inspection forms yet.</p>
+        ) : null}
+        <label>
+          Form
+          <select
+            onChange={(event) => setFormId(event.target.value)}
+            value={formId}
+          >
+            <option value="">Select a form</option>
+            {formsQuery.data?.forms.map((form) => (
+              <option key={form.formId} value={form.formId}>
+                {form.formId}
+                {form.version === null ? "" : ` (v${form.version})`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Team
+          <select
+            onChange={(event) => setTeam(event.target.value)}
+            value={team}
+          >
+            <option value="">Select a team</option>
+            {teamsQuery.data?.teams.map((item) => (
+              <option key={item.number} value={item.number}>
+                {item.number} {item.nameShort}
+              </option>
+            ))}
+          </select>
+        </label>
+      </article>
+      {formId && team ? (
+        <InspectionSheet
+          code={code}
+          formId={formId}
+          key={`${formId}-${team}`}
+          team={team}
+        />
+      ) : null}
+    </main>
+  );
+}
@@ -0,0 +1,308 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+import {
+  type AudienceDisplayState,
+  type AudienceScreen,
+  type FieldSnapshot,
+  type MatchLevel,
+  useEventChannel,
+} from "@/lib/event-channel";
+import type { StatusBoardResponse } from "@/lib/inspection";
+import {
+  formatMatchClock,
+  matchClockRemaining,
+  PHASE_LABELS,
+  useNow,
+} from "@/lib/match-clock";
+
+interface FieldsResponse {
+  fields: FieldSnapshot[];
+}
+
+type FieldCommand = "abort" | "load" | "replay" | "start";
+
+const MATCH_LEVELS: { label: string; value: MatchLevel }[] = [
+  { label: "Practice", value: "practice" },
+  { label: "Qualification", value: "quals" },
+  { label: "Playoff", value: "elims" },
+];
+
+const AUDIENCE_SCREENS: { label: string; value: AudienceScreen }[] = [
+  { label: "Blank", value: "blank" },
+  { label: "Match Preview", value: "match-preview" },
+  { label: "Live Score", value: "match-score" },
+  { label: "Match Results", value: "match-results" },
+  { label: "Rankings", value: "rankings" },
+  { label: "Alliance Selection", value: "alliance-selection" },
+  { label: "Sponsors", value: "sponsors" },
+  { label: "Awards", value: "awards" },
+];
+
+const MATCH_SCREENS = new Set<AudienceScreen>([
+  "match-preview",
+  "match-score",
+  "match-results",
+]);
+
+const RUNNING_PHASES = new Set<FieldSnapshot["phase"]>([
+  "AUTO",
+  "TRANSITION",
+  "TELEOP",
+  "ENDGAME",
+]);
+
+export const Route = createFileRoute("/event/$code/match-control")({
+  component: MatchControlComponent,
+});
+
+function MatchControlComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const fieldsKey = ["events", code, "fields"];
+
+  const fieldsQuery = useQuery({
+    queryKey: fieldsKey,
+    queryFn: () => fetchJson<FieldsResponse>(`/api/events/${code}/fields`),
+  });
+
+  const statusQuery = useQuery({
+    queryKey: ["events", code, "team-status"],
+    queryFn: () =>
+      fetchJson<StatusBoardResponse>(`/api/events/${code}/team-status`),
+  });
+  const uninspected =
+    statusQuery.data && !statusQuery.data.qualsStarted
+      ? statusQuery.data.uninspected
+      : [];
+
+  useEventChannel(code, (message) => {
+    if (message.type !== "MATCH_PHASE_CHANGED") {
+      return;
+    }
+    queryClient.setQueryData<FieldsResponse>(fieldsKey, (current) =>
+      current
+        ? {
+            fields: current.fields.map((field) =>
+              field.field === message.field ? message.snapshot : field
+            ),
+          }
+        : current
+    );
+  });
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Match Control</h1>
+        <p>Event {code}.</p>
+        {fieldsQuery.error ? (
+          <p role="alert">{fieldsQuery.error.message}</p>
+        ) : null}
+        {uninspected.length > 0 ? (
+          <p role="alert">
+            Before starting qualification matches: teams{" "}
+            {uninspected.join(", ")} have not passed inspection.
+          </p>
+        ) : null}
+      </article>
+      {fieldsQuery.data?.fields.map((field) => (
+        <FieldPanel code={code} field={field} key={field.field} />
+      ))}
+      <AudienceDisplayPanel code={code} />
+    </main>
+  );
+}
+
+function AudienceDisplayPanel({ code }: { code: string }) {
+  const [screen, setScreen] = useState<AudienceScreen>("match-preview");
+  const [level, setLevel] = useState<MatchLevel>("quals");
+  const [match, setMatch] = useState("1");
+
+  const displayMutation = useMutation({
+    mutationFn: () =>
+      fetchJson<AudienceDisplayState>(`/api/events/${code}/display/audience`, {
+        method: "PUT",
+        body: JSON.stringify(
+          MATCH_SCREENS.has(screen)
+            ? { screen, level, match: Number(match) }
+            : { screen }
+        ),
+      }),
+  });
+
+  return (
+    <section>
+      <h2>Audience Display</h2>
+      <p>
+        Shown at{" "}
+        <a href={`/event/${code}/display/audience`}>the audience display</a>.
+        {displayMutation.data
+          ? ` Now showing: ${displayMutation.data.screen}.`
+          : null}
+      </p>
+      {displayMutation.error ? (
+        <p role="alert">{displayMutation.error.message}</p>
+      ) : null}
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          displayMutation.mutate();
+        }}
+      >
+        <label>
+          Screen
+          <select
+            onChange={(event) =>
+              setScreen(event.target.value as AudienceScreen)
+            }
+            value={screen}
+          >
+            {AUDIENCE_SCREENS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Level
+          <select
+            disabled={!MATCH_SCREENS.has(screen)}
+            onChange={(event) => setLevel(event.target.value as MatchLevel)}
+            value={level}
+          >
+            {MATCH_LEVELS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Match
+          <input
+            disabled={!MATCH_SCREENS.has(screen)}
+            min={1}
+            onChange={(event) => setMatch(event.target.value)}
+            type="number"
+            value={match}
+          />
+        </label>
+        <button disabled={displayMutation.isPending} type="submit">
+          Show
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function FieldPanel({ code, field }: { code: string; field: FieldSnapshot }) {
+  const queryClient = useQueryClient();
+  const now = useNow();
+  const [level, setLevel] = useState<MatchLevel>(field.level ?? "quals");
+  const [match, setMatch] = useState(String((field.match ?? 0) + 1));
+
+  const commandMutation = useMutation({
+    mutationFn: (command: FieldCommand) =>
+      fetchJson<FieldSnapshot>(
+        `/api/events/${code}/fields/${field.field}/${command}`,
+        {
+          method: "POST",
+          body: JSON.stringify(
+            command === "load" ? { level, match: Number(match) } : {}
+          ),
+        }
+      ),
+    onSuccess: (snapshot) => {
+      queryClient.setQueryData<FieldsResponse>(
+        ["events", code, "fields"],
+        (current) =>
+          current
+            ? {
+                fields: current.fields.map((item) =>
+                  item.field === snapshot.field ? snapshot : item
+                ),
+              }
+            : current
+      );
+    },
+  });
+
+  const running = RUNNING_PHASES.has(field.phase);
+  const canReplay = field.phase === "ABORTED" || field.phase === "POST";
+
+  return (
+    <section>
+      <h2>Field {field.field}</h2>
+      <p>
+        <strong>{PHASE_LABELS[field.phase]}</strong>
+        {field.match === null
+          ? null
+          : ` - ${field.level} match ${field.match}, play ${field.playNumber}`}
+      </p>
+      <p>
+        <output>{formatMatchClock(matchClockRemaining(field, now))}</output>
+      </p>
+      {commandMutation.error ? (
+        <p role="alert">{commandMutation.error.message}</p>
+      ) : null}
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          commandMutation.mutate("load");
+        }}
+      >
+        <label>
+          Level
+          <select
+            onChange={(event) => setLevel(event.target.value as MatchLevel)}
+            value={level}
+          >
+            {MATCH_LEVELS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Match
+          <input
+            min={1}
+            onChange={(event) => setMatch(event.target.value)}
+            type="number"
+            value={match}
+          />
+        </label>
+        <button disabled={running || commandMutation.isPending} type="submit">
+          Load
+        </button>
+      </form>
+      <button
+        className="primary"
+        disabled={field.phase !== "PRE_START" || commandMutation.isPending}
+        onClick={() => commandMutation.mutate("start")}
+        type="button"
+      >
+        Start Match
+      </button>{" "}
+      <button
+        disabled={!running || commandMutation.isPending}
+        onClick={() => commandMutation.mutate("abort")}
+        type="button"
+      >
+        Abort
+      </button>{" "}
+      <button
+        disabled={!canReplay || commandMutation.isPending}
+        onClick={() => commandMutation.mutate("replay")}
+        type="button"
+      >
+        Replay
+      </button>
+    </section>
+  );
+}
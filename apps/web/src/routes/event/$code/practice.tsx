@@ -0,0 +1,363 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useEffect, useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+
+interface ScheduleBlock {
+  cycleTime: number;
+  end: number;
+  label: string | null;
+  start: number;
+  type: string;
+}
+
+interface MatchSlot {
+  surrogate: boolean;
+  team: number;
+}
+
+interface ScheduleMatch {
+  blue: [MatchSlot, MatchSlot];
+  label: string;
+  match: number;
+  red: [MatchSlot, MatchSlot];
+  scheduleStart: number;
+}
+
+interface ScheduleResponse {
+  blocks: ScheduleBlock[];
+  matches: ScheduleMatch[];
+  matchesPerTeam: number | null;
+  seed: number | null;
+}
+
+interface TeamsResponse {
+  teams: { competing: string; nameShort: string; number: number }[];
+}
+
+interface BlockDraft {
+  cycleMinutes: string;
+  end: string;
+  label: string;
+  start: string;
+  type: string;
+}
+
+const SECONDS_PER_MINUTE = 60;
+const BLOCK_TYPES = ["MATCH", "BREAK", "LUNCH"] as const;
+
+const padTime = (value: number): string => String(value).padStart(2, "0");
+
+const toLocalInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${padTime(date.getMonth() + 1)}-${padTime(date.getDate())}T${padTime(date.getHours())}:${padTime(date.getMinutes())}`;
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString([], {
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const toBlockDraft = (block: ScheduleBlock): BlockDraft => ({
+  start: toLocalInputValue(block.start),
+  end: toLocalInputValue(block.end),
+  type: block.type,
+  cycleMinutes: String(block.cycleTime / SECONDS_PER_MINUTE),
+  label: block.label ?? "",
+});
+
+const createBlockDraft = (previous?: BlockDraft): BlockDraft => {
+  const start = previous ? new Date(previous.end).getTime() : Date.now();
+  return {
+    start: toLocalInputValue(start),
+    end: toLocalInputValue(start + 60 * SECONDS_PER_MINUTE * 1000),
+    type: "MATCH",
+    cycleMinutes: previous?.cycleMinutes ?? "7",
+    label: "",
+  };
+};
+
+const toScheduleBlock = (draft: BlockDraft): ScheduleBlock => ({
+  start: new Date(draft.start).getTime(),
+  end: new Date(draft.end).getTime(),
+  type: draft.type,
+  cycleTime:
+    draft.type === "MATCH"
+      ? Math.round(Number(draft.cycleMinutes) * SECONDS_PER_MINUTE)
+      : 0,
+  label: draft.label.trim() || null,
+});
+
+const formatSlot = (slot: MatchSlot): string => String(slot.team);
+
+export const Route = createFileRoute("/event/$code/practice")({
+  component: PracticeScheduleComponent,
+});
+
+function PracticeScheduleComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const scheduleKey = ["events", code, "schedule", "practice"];
+  const scheduleUrl = `/api/events/${code}/schedule/practice`;
+
+  const scheduleQuery = useQuery({
+    queryKey: scheduleKey,
+    queryFn: () => fetchJson<ScheduleResponse>(scheduleUrl),
+  });
+  const teamsQuery = useQuery({
+    queryKey: ["events", code, "teams"],
+    queryFn: () => fetchJson<TeamsResponse>(`/api/events/${code}/teams`),
+  });
+
+  const [blocks, setBlocks] = useState<BlockDraft[]>([]);
+  const [excludedTeams, setExcludedTeams] = useState<number[]>([]);
+
+  useEffect(() => {
+    if (scheduleQuery.data) {
+      setBlocks(scheduleQuery.data.blocks.map(toBlockDraft));
+    }
+  }, [scheduleQuery.data]);
+
+  const refreshSchedule = async () => {
+    await queryClient.invalidateQueries({ queryKey: scheduleKey });
+  };
+
+  const saveBlocksMutation = useMutation({
+    mutationFn: () =>
+      fetchJson(`${scheduleUrl}/blocks`, {
+        method: "PUT",
+        body: JSON.stringify({ blocks: blocks.map(toScheduleBlock) }),
+      }),
+    onSuccess: refreshSchedule,
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      fetchJson(scheduleUrl, {
+        method: "POST",
+        body: JSON.stringify({ excludedTeams }),
+      }),
+    onSuccess: refreshSchedule,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: () => fetchJson(scheduleUrl, { method: "DELETE" }),
+    onSuccess: refreshSchedule,
+  });
+
+  const updateBlock = (index: number, changes: Partial<BlockDraft>) => {
+    setBlocks((current) =>
+      current.map((block, position) =>
+        position === index ? { ...block, ...changes } : block
+      )
+    );
+  };
+
+  const toggleTeam = (team: number, included: boolean) => {
+    setExcludedTeams((current) =>
+      included
+        ? current.filter((excluded) => excluded !== team)
+        : [...current, team]
+    );
+  };
+
+  const competingTeams =
+    teamsQuery.data?.teams.filter((team) => team.competing === "FULL") ?? [];
+  const mutationError =
+    saveBlocksMutation.error ?? generateMutation.error ?? clearMutation.error;
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Practice Schedule</h1>
+        <p>
+          Event {code}. Practice matches fill every match block; teams that have
+          not checked in can be left out.
+        </p>
+        {mutationError ? <p role="alert">{mutationError.message}</p> : null}
+      </article>
+
+      <section>
+        <h2>Practice Blocks</h2>
+        {scheduleQuery.error ? (
+          <p role="alert">{scheduleQuery.error.message}</p>
+        ) : null}
+        <table>
+          <thead>
+            <tr>
+              <th>Start</th>
+              <th>End</th>
+              <th>Type</th>
+              <th>Cycle (min)</th>
+              <th>Label</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {blocks.map((block, index) => (
+              // biome-ignore lint/suspicious/noArrayIndexKey: drafts have no identity until saved
+              <tr key={index}>
+                <td>
+                  <input
+                    aria-label="Start"
+                    onChange={(event) =>
+                      updateBlock(index, { start: event.target.value })
+                    }
+                    type="datetime-local"
+                    value={block.start}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="End"
+                    onChange={(event) =>
+                      updateBlock(index, { end: event.target.value })
+                    }
+                    type="datetime-local"
+                    value={block.end}
+                  />
+                </td>
+                <td>
+                  <select
+                    aria-label="Type"
+                    onChange={(event) =>
+                      updateBlock(index, { type: event.target.value })
+                    }
+                    value={block.type}
+                  >
+                    {BLOCK_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    aria-label="Cycle time in minutes"
+                    disabled={block.type !== "MATCH"}
+                    min="0.5"
+                    onChange={(event) =>
+                      updateBlock(index, { cycleMinutes: event.target.value })
+                    }
+                    step="0.5"
+                    type="number"
+                    value={block.cycleMinutes}
+                  />
+                </td>
+                <td>
+                  <input
+                    aria-label="Label"
+                    onChange={(event) =>
+                      updateBlock(index, { label: event.target.value })
+                    }
+                    value={block.label}
+                  />
+                </td>
+                <td>
+                  <button
+                    onClick={() =>
+                      setBlocks((current) =>
+                        current.filter((_, position) => position !== index)
+                      )
+                    }
+                    type="button"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() =>
+            setBlocks((current) => [
+              ...current,
+              createBlockDraft(current.at(-1)),
+            ])
+          }
+          type="button"
+        >
+          Add Block
+        </button>{" "}
+        <button
+          className="primary"
+          disabled={saveBlocksMutation.isPending}
+          onClick={() => saveBlocksMutation.mutate()}
+          type="button"
+        >
+          {saveBlocksMutation.isPending ? "Saving..." : "Save Blocks"}
+        </button>
+      </section>
+
+      <section>
+        <h2>Teams</h2>
+        {teamsQuery.error ? (
+          <p role="alert">{teamsQuery.error.message}</p>
+        ) : null}
+        <fieldset>
+          <legend>Include in practice</legend>
+          {competingTeams.map((team) => (
+            <label key={team.number}>
+              <input
+                checked={!excludedTeams.includes(team.number)}
+                onChange={(event) =>
+                  toggleTeam(team.number, event.target.checked)
+                }
+                type="checkbox"
+              />{" "}
+              {team.number} {team.nameShort}
+            </label>
+          ))}
+        </fieldset>
+        <button
+          className="primary"
+          disabled={generateMutation.isPending}
+          onClick={() => generateMutation.mutate()}
+          type="button"
+        >
+          {generateMutation.isPending ? "Generating..." : "Generate Schedule"}
+        </button>{" "}
+        <button
+          disabled={clearMutation.isPending}
+          onClick={() => clearMutation.mutate()}
+          type="button"
+        >
+          Clear Schedule
+        </button>
+      </section>
+
+      <section>
+        <h2>Practice Matches</h2>
+        {scheduleQuery.data?.matches.length === 0 ? (
+          <p>No practice matches scheduled.</p>
+        ) : null}
+        {scheduleQuery.data?.matches.length ? (
+          <table>
+            <thead>
+              <tr>
+                <th>Match</th>
+                <th>Time</th>
+                <th>Red</th>
+                <th>Blue</th>
+              </tr>
+            </thead>
+            <tbody>
+              {scheduleQuery.data.matches.map((match) => (
+                <tr key={match.match}>
+                  <td>{match.label}</td>
+                  <td>{formatTime(match.scheduleStart)}</td>
+                  <td>{match.red.map(formatSlot).join(" & ")}</td>
+                  <td>{match.blue.map(formatSlot).join(" & ")}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : null}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,188 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { useState } from "react";
+
+import { fetchJson } from "@/lib/api";
+import {
+  INSPECTION_STATUS_CLASSES,
+  INSPECTION_STATUS_LABELS,
+  type InspectionStatus,
+  STATUS_STAGE_LABELS,
+  type StatusBoardResponse,
+  type TeamStatusRecord,
+} from "@/lib/inspection";
+
+const STATUS_OPTIONS = [0, 1, 2, 3] as const;
+
+export const Route = createFileRoute("/event/$code/status-board")({
+  component: StatusBoardComponent,
+});
+
+function StatusBoardComponent() {
+  const { code } = Route.useParams();
+  const queryClient = useQueryClient();
+  const boardKey = ["events", code, "team-status"];
+  const [search, setSearch] = useState("");
+  const [stage, setStage] = useState("");
+  const [status, setStatus] = useState("");
+  const [uninspectedOnly, setUninspectedOnly] = useState(false);
+
+  const boardQuery = useQuery({
+    queryKey: boardKey,
+    queryFn: () =>
+      fetchJson<StatusBoardResponse>(`/api/events/${code}/team-status`),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (change: {
+      stage: string;
+      status: InspectionStatus;
+      team: number;
+    }) =>
+      fetchJson(
+        `/api/events/${code}/team-status/${change.team}/${change.stage}`,
+        { method: "PUT", body: JSON.stringify({ status: change.status }) }
+      ),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: boardKey }),
+  });
+
+  const board = boardQuery.data;
+  const matchesFilters = (team: TeamStatusRecord) =>
+    (search === "" ||
+      `${team.team} ${team.nameShort}`
+        .toLowerCase()
+        .includes(search.toLowerCase())) &&
+    (stage === "" || status === "" || team.stages[stage] === Number(status)) &&
+    !(uninspectedOnly && team.inspected);
+  const teams = board?.teams.filter(matchesFilters) ?? [];
+
+  return (
+    <main className="page">
+      <article>
+        <h1>Team Status</h1>
+        <p>Event {code}. Change a cell to override a team's stage.</p>
+        {boardQuery.error ? (
+          <p role="alert">{boardQuery.error.message}</p>
+        ) : null}
+        {statusMutation.error ? (
+          <p role="alert">{statusMutation.error.message}</p>
+        ) : null}
+        {board && !board.qualsStarted && board.uninspected.length > 0 ? (
+          <p role="alert">
+            {board.uninspected.length} competing team
+            {board.uninspected.length === 1 ? " has" : "s have"} not passed
+            inspection: {board.uninspected.join(", ")}.
+          </p>
+        ) : null}
+        <label>
+          Search
+          <input
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Team number or name"
+            value={search}
+          />
+        </label>
+        <label>
+          Stage
+          <select
+            onChange={(event) => setStage(event.target.value)}
+            value={stage}
+          >
+            <option value="">Any stage</option>
+            {board?.stages.map((item) => (
+              <option key={item} value={item}>
+                {STATUS_STAGE_LABELS[item] ?? item}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Status
+          <select
+            disabled={stage === ""}
+            onChange={(event) => setStatus(event.target.value)}
+            value={status}
+          >
+            <option value="">Any status</option>
+            {STATUS_OPTIONS.map((item) => (
+              <option key={item} value={item}>
+                {INSPECTION_STATUS_LABELS[item]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <input
+            checked={uninspectedOnly}
+            onChange={(event) => setUninspectedOnly(event.target.checked)}
+            type="checkbox"
+          />{" "}
+          Only teams that have not passed inspection
+        </label>
+      </article>
+      {board ? (
+        <section>
+          <table>
+            <thead>
+              <tr>
+                <th scope="col">Team</th>
+                {board.stages.map((item) => (
+                  <th key={item} scope="col">
+                    {STATUS_STAGE_LABELS[item] ?? item}
+                  </th>
+                ))}
+                <th scope="col">Inspected</th>
+              </tr>
+            </thead>
+            <tbody>
+              {teams.map((team) => (
+                <tr key={team.team}>
+                  <th scope="row">
+                    {team.team} {team.nameShort}
+                  </th>
+                  {board.stages.map((item) => {
+                    const value = team.stages[item] ?? 0;
+                    return (
+                      <td
+                        className={INSPECTION_STATUS_CLASSES[value]}
+                        key={item}
+                      >
+                        <select
+                          aria-label={`${team.team} ${STATUS_STAGE_LABELS[item] ?? item}`}
+                          disabled={statusMutation.isPending}
+                          onChange={(event) =>
+                            statusMutation.mutate({
+                              team: team.team,
+                              stage: item,
+                              status: Number(
+                                event.target.value
+                              ) as InspectionStatus,
+                            })
+                          }
+                          value={value}
+                        >
+                          {STATUS_OPTIONS.map((option) => (
+                            <option key={option} value={option}>
+                              {INSPECTION_STATUS_LABELS[option]}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    );
+                  })}
+                  <td
+                    className={
+                      INSPECTION_STATUS_CLASSES[team.inspected ? 3 : 2]
+                    }
+                  >
+                    {team.inspected ? "Yes" : "No"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </main>
+  );
+}
@@ -6,7 +6,12 @@ dotenv.config({
 });
 
 export default defineConfig({
-  schema: "./src/schema",
+  schema: [
+    "./src/schema/auth.ts",
+    "./src/schema/config.ts",
+    "./src/schema/event.ts",
+    "./src/schema/role.ts",
+  ],
   out: "./src/migrations",
   dialect: "sqlite",
   dbCredentials: {
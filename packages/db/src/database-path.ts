@@ -0,0 +1,20 @@
+const DEFAULT_DB_FILE = "server.db";
+
+const FILE_URL_PREFIX = /^file:\/\/\/?/;
+
+/** Core database location from `DB_PATH` or a `file:` `DATABASE_URL`. */
+export const resolveDatabasePath = (): string => {
+  const rawPath = process.env.DB_PATH ?? process.env.DATABASE_URL;
+  if (!rawPath) {
+    return DEFAULT_DB_FILE;
+  }
+  if (rawPath.startsWith("file:")) {
+    try {
+      return new URL(rawPath).pathname;
+    } catch {
+      // Fallback for malformed URLs
+      return rawPath.replace(FILE_URL_PREFIX, "");
+    }
+  }
+  return rawPath;
+};
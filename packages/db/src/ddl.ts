@@ -0,0 +1,83 @@
+import { is, SQL } from "drizzle-orm";
+import {
+  getTableConfig,
+  type SQLiteColumn,
+  SQLiteSyncDialect,
+  SQLiteTable,
+} from "drizzle-orm/sqlite-core";
+
+const dialect = new SQLiteSyncDialect();
+
+const quoteIdentifier = (name: string): string =>
+  `"${name.replaceAll('"', '""')}"`;
+
+const formatDefault = (column: SQLiteColumn): string => {
+  if (is(column.default, SQL)) {
+    return dialect.sqlToQuery(column.default).sql;
+  }
+  const value = column.mapToDriverValue(column.default);
+  return typeof value === "string"
+    ? `'${value.replaceAll("'", "''")}'`
+    : String(value);
+};
+
+const formatColumn = (column: SQLiteColumn): string =>
+  [
+    quoteIdentifier(column.name),
+    column.getSQLType(),
+    column.primary ? "PRIMARY KEY" : null,
+    column.notNull ? "NOT NULL" : null,
+    column.isUnique ? "UNIQUE" : null,
+    column.hasDefault && column.default !== undefined
+      ? `DEFAULT ${formatDefault(column)}`
+      : null,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+const formatColumnList = (columns: { name: string }[]): string =>
+  columns.map((column) => quoteIdentifier(column.name)).join(", ");
+
+/** `CREATE TABLE IF NOT EXISTS` plus its indexes for one Drizzle table. */
+export const createTableSql = (table: SQLiteTable): string[] => {
+  const config = getTableConfig(table);
+  const definitions = [
+    ...config.columns.map(formatColumn),
+    ...config.primaryKeys.map(
+      (key) => `PRIMARY KEY (${formatColumnList(key.columns)})`
+    ),
+    ...config.foreignKeys.map((foreignKey) => {
+      const reference = foreignKey.reference();
+      return [
+        `FOREIGN KEY (${formatColumnList(reference.columns)})`,
+        `REFERENCES ${quoteIdentifier(getTableConfig(reference.foreignTable).name)} (${formatColumnList(reference.foreignColumns)})`,
+        foreignKey.onDelete ? `ON DELETE ${foreignKey.onDelete}` : null,
+        foreignKey.onUpdate ? `ON UPDATE ${foreignKey.onUpdate}` : null,
+      ]
+        .filter(Boolean)
+        .join(" ");
+    }),
+  ];
+
+  return [
+    `CREATE TABLE IF NOT EXISTS ${quoteIdentifier(config.name)} (\n  ${definitions.join(",\n  ")}\n)`,
+    ...config.indexes.map(({ config: index }) => {
+      const columns = index.columns.map((column) =>
+        is(column, SQL) ? dialect.sqlToQuery(column).sql : column
+      ) as { name: string }[];
+      return `CREATE ${index.unique ? "UNIQUE " : ""}INDEX IF NOT EXISTS ${quoteIdentifier(index.name)} ON ${quoteIdentifier(config.name)} (${formatColumnList(columns)})`;
+    }),
+  ];
+};
+
+/**
+ * DDL for every table in a schema module, so the Drizzle definitions are the
+ * only place the schema is written down. Relations and other exports are
+ * skipped.
+ */
+export const createSchemaSql = (schema: Record<string, unknown>): string =>
+  Object.values(schema)
+    .filter((value): value is SQLiteTable => is(value, SQLiteTable))
+    .flatMap(createTableSql)
+    .map((statement) => `${statement};`)
+    .join("\n\n");
@@ -0,0 +1,27 @@
+import { Database } from "bun:sqlite";
+import path from "node:path";
+import { drizzle } from "drizzle-orm/bun-sqlite";
+
+import { resolveDatabasePath } from "./database-path";
+import { eventDbSchema } from "./schema/event-db";
+
+export const resolveEventDbPath = (
+  eventCode: string,
+  directory = path.dirname(resolveDatabasePath())
+): string => path.join(directory, `${eventCode}.db`);
+
+/**
+ * Typed handle on an existing `<eventCode>.db`. Event databases sit beside
+ * the core database unless the caller names another directory. The caller
+ * owns the connection and closes it through `$client`.
+ */
+export const openEventDb = (eventCode: string, directory?: string) =>
+  drizzle({
+    client: new Database(resolveEventDbPath(eventCode, directory), {
+      create: false,
+      readwrite: true,
+    }),
+    schema: eventDbSchema,
+  });
+
+export type EventDb = ReturnType<typeof openEventDb>;
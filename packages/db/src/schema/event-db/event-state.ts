@@ -0,0 +1,40 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const eventConfig = sqliteTable("config", {
+  key: text("key").primaryKey(),
+  value: text("value"),
+});
+
+export const sponsors = sqliteTable("sponsors", {
+  sponsorId: text("sponsor_id").notNull(),
+  name: text("name").notNull(),
+  title: text("title").notNull(),
+  position: integer("position").notNull(),
+  logo: text("logo").notNull(),
+  level: integer("level").notNull(),
+});
+
+export const hrMeetingNotes = sqliteTable("hr_meeting_notes", {
+  type: text("type").notNull(),
+  content: text("content").notNull(),
+});
+
+export const systemSurveySamples = sqliteTable("system_survey_samples", {
+  surveyType: text("survey_type").notNull(),
+  sampleTime: integer("sample_time").notNull(),
+  sampleDescription: text("sample_description").notNull(),
+  data: text("data").notNull(),
+});
+
+export const advancementPoints = sqliteTable("advancement_points", {
+  team: integer("team").notNull(),
+  sortTuple: text("sort_tuple").notNull(),
+  privatePoints: integer("private_points").notNull(),
+});
+
+export const patches = sqliteTable("patches", {
+  patchId: text("patch_id").notNull(),
+  dbVersion: integer("db_version").notNull(),
+  patch: text("patch").notNull(),
+  applied: integer("applied").notNull(),
+});
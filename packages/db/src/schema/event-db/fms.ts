@@ -0,0 +1,153 @@
+import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const award = sqliteTable("award", {
+  fmsAwardId: text("fms_award_id").primaryKey(),
+  fmsSeasonId: text("fms_season_id").notNull(),
+  awardId: integer("award_id").notNull(),
+  awardSubtypeId: integer("award_subtype_id").notNull(),
+  tournamentType: integer("tournament_type").notNull(),
+  type: integer("type").notNull(),
+  cultureType: integer("culture_type").notNull(),
+  description: text("description").notNull(),
+  defaultQuantity: text("default_quantity"),
+  sponsorDetails: text("sponsor_details"),
+  displayOrderUi: integer("display_order_ui").notNull(),
+  displayOrderOnline: integer("display_order_online").notNull(),
+  cmpQualifying: integer("cmp_qualifying").notNull(),
+  allowManualEntry: integer("allow_manual_entry").notNull(),
+  createdOn: text("created_on").notNull(),
+  createdBy: text("created_by"),
+  modifiedOn: text("modified_on").notNull(),
+  modifiedBy: text("modified_by"),
+  script: text("script").notNull(),
+  canEdit: integer("can_edit").notNull(),
+});
+
+export const awardAssignment = sqliteTable("award_assignment", {
+  fmsAwardId: text("fms_award_id").notNull(),
+  fmsEventId: text("fms_event_id").notNull(),
+  series: integer("series").notNull(),
+  fmsTeamId: text("fms_team_id"),
+  firstName: text("first_name"),
+  lastName: text("last_name"),
+  isPublic: integer("is_public").notNull(),
+  createdOn: text("created_on").notNull(),
+  createdBy: text("created_by").notNull(),
+  modifiedOn: text("modified_on"),
+  modifiedBy: text("modified_by"),
+  comment: text("comment"),
+});
+
+export const teamRanking = sqliteTable("team_ranking", {
+  fmsEventId: text("fms_event_id").notNull(),
+  fmsTeamId: text("fms_team_id").notNull(),
+  ranking: integer("ranking").notNull(),
+  rankChange: integer("rank_change").notNull(),
+  wins: integer("wins").notNull(),
+  losses: integer("losses").notNull(),
+  ties: integer("ties").notNull(),
+  qualifyingScore: text("qualifying_score").notNull(),
+  pointsScoredTotal: real("points_scored_total").notNull(),
+  pointsScoredAverage: text("points_scored_average").notNull(),
+  pointsScoredAverageChange: integer("points_scored_average_change").notNull(),
+  matchesPlayed: integer("matches_played").notNull(),
+  matchesCounted: integer("matches_counted").notNull(),
+  disqualified: integer("disqualified").notNull(),
+  sortOrder1: text("sort_order1").notNull(),
+  sortOrder2: text("sort_order2").notNull(),
+  sortOrder3: text("sort_order3").notNull(),
+  sortOrder4: text("sort_order4").notNull(),
+  sortOrder5: text("sort_order5").notNull(),
+  sortOrder6: text("sort_order6").notNull(),
+  modifiedOn: text("modified_on").notNull(),
+});
+
+export const team = sqliteTable("team", {
+  fmsTeamId: text("fms_team_id").notNull(),
+  fmsSeasonId: text("fms_season_id"),
+  fmsRegionId: text("fms_region_id"),
+  teamId: integer("team_id").notNull(),
+  teamNumber: integer("team_number").notNull(),
+  teamNameLong: text("team_name_long"),
+  teamNameShort: text("team_name_short").notNull(),
+  robotName: text("robot_name"),
+  city: text("city").notNull(),
+  stateProv: text("state_prov").notNull(),
+  country: text("country").notNull(),
+  website: text("website"),
+  rookieYear: integer("rookie_year").notNull(),
+  wasAddedFromUi: integer("was_added_from_ui").notNull(),
+  cmpPrequalified: integer("cmp_prequalified").notNull(),
+  schoolName: text("school_name"),
+  demoTeam: integer("demo_team").notNull(),
+  paid: integer("paid").notNull(),
+  fmsHomeCmpId: text("fms_home_cmp_id"),
+  gameSpecifics: text("game_specifics"),
+  createdOn: text("created_on").notNull(),
+  createdBy: text("created_by").notNull(),
+  modifiedOn: text("modified_on").notNull(),
+  modifiedBy: text("modified_by").notNull(),
+});
+
+export const scheduleDetail = sqliteTable("schedule_detail", {
+  fmsScheduleDetailId: text("fms_schedule_detail_id").notNull(),
+  fmsEventId: text("fms_event_id").notNull(),
+  tournamentLevel: integer("tournament_level").notNull(),
+  matchNumber: integer("match_number").notNull(),
+  fieldType: integer("field_type").notNull(),
+  description: text("description").notNull(),
+  startTime: text("start_time").notNull(),
+  fieldConfigurationDetails: text("field_configuration_details"),
+  createdOn: text("created_on"),
+  createdBy: text("created_by").notNull(),
+  modifiedOn: text("modified_on"),
+  modifiedBy: text("modified_by"),
+  rowVersion: text("row_version").notNull(),
+});
+
+export const scheduleStation = sqliteTable("schedule_station", {
+  fmsScheduleDetailId: text("fms_schedule_detail_id").notNull(),
+  alliance: integer("alliance").notNull(),
+  station: integer("station").notNull(),
+  fmsEventId: text("fms_event_id").notNull(),
+  fmsTeamId: text("fms_team_id").notNull(),
+  isSurrogate: integer("is_surrogate").notNull(),
+  createdOn: text("created_on"),
+  createdBy: text("created_by").notNull(),
+  modifiedOn: text("modified_on"),
+  modifiedBy: text("modified_by"),
+});
+
+export const match = sqliteTable("match", {
+  fmsMatchId: text("fms_match_id").notNull(),
+  fmsScheduleDetailId: text("fms_schedule_detail_id").notNull(),
+  playNumber: integer("play_number").notNull(),
+  fieldType: integer("field_type").notNull(),
+  initialPreStartTime: text("initial_pre_start_time"),
+  finalPreStartTime: text("final_pre_start_time"),
+  preStartCount: integer("pre_start_count").notNull(),
+  autoStartTime: text("auto_start_time").notNull(),
+  autoEndTime: text("auto_end_time").notNull(),
+  teleopStartTime: text("teleop_start_time").notNull(),
+  teleopEndTime: text("teleop_end_time"),
+  refCommitTime: text("ref_commit_time"),
+  scoreKeeperCommitTime: text("score_keeper_commit_time").notNull(),
+  postMatchTime: text("post_match_time"),
+  cancelMatchTime: text("cancel_match_time"),
+  cycleTime: text("cycle_time"),
+  redScore: integer("red_score").notNull(),
+  blueScore: integer("blue_score").notNull(),
+  redPenalty: integer("red_penalty").notNull(),
+  bluePenalty: integer("blue_penalty").notNull(),
+  redAutoScore: integer("red_auto_score").notNull(),
+  blueAutoScore: integer("blue_auto_score").notNull(),
+  scoreDetails: text("score_details").notNull(),
+  headRefReview: integer("head_ref_review").notNull(),
+  videoUrl: text("video_url"),
+  createdOn: text("created_on").notNull(),
+  createdBy: text("created_by").notNull(),
+  modifiedOn: text("modified_on").notNull(),
+  modifiedBy: text("modified_by").notNull(),
+  fmsEventId: text("fms_event_id"),
+  rowVersion: text("row_version").notNull(),
+});
@@ -0,0 +1,22 @@
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as eventStateModule from "./event-state";
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as fmsModule from "./fms";
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as inspectionModule from "./inspection";
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as matchesModule from "./matches";
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as scheduleModule from "./schedule";
+// biome-ignore lint/performance/noNamespaceImport: Schema namespace needed for database config
+import * as teamsModule from "./teams";
+
+/** Tables of a per-event `<eventCode>.db`, in creation order. */
+export const eventDbSchema = {
+  ...teamsModule,
+  ...inspectionModule,
+  ...scheduleModule,
+  ...matchesModule,
+  ...eventStateModule,
+  ...fmsModule,
+};
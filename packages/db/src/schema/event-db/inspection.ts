@@ -0,0 +1,74 @@
+import {
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+} from "drizzle-orm/sqlite-core";
+
+export const formRows = sqliteTable("form_rows", {
+  formId: text("form_id").notNull(),
+  row: integer("row").notNull(),
+  type: text("type").notNull(),
+  columnCount: integer("column_count").notNull(),
+  description: text("description").notNull(),
+  rule: text("rule"),
+});
+
+export const formItems = sqliteTable("form_items", {
+  formId: text("form_id").notNull(),
+  row: integer("row").notNull(),
+  itemIndex: integer("item_index").notNull(),
+  label: text("label"),
+  type: text("type"),
+  automationData: text("automation_data"),
+  options: text("options"),
+});
+
+export const formAnswers = sqliteTable(
+  "form_answers",
+  {
+    formId: text("form_id").notNull(),
+    team: integer("team").notNull(),
+    row: integer("row").notNull(),
+    itemIndex: integer("item_index").notNull(),
+    value: text("value").notNull(),
+  },
+  (table) => [
+    primaryKey({
+      columns: [table.formId, table.team, table.row, table.itemIndex],
+    }),
+  ]
+);
+
+export const formNotes = sqliteTable(
+  "form_notes",
+  {
+    formId: text("form_id").notNull(),
+    team: integer("team").notNull(),
+    formVersion: integer("form_version").notNull(),
+    notes: text("notes").notNull(),
+    modifiedAt: integer("modified_at").notNull(),
+    modifiedBy: text("modified_by").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.formId, table.team] })]
+);
+
+export const inspectionScheduleForm = sqliteTable("inspection_schedule_form", {
+  id: integer("id").notNull(),
+  str: text("str").notNull(),
+});
+
+export const inspectionScheduleItems = sqliteTable(
+  "inspection_schedule_items",
+  {
+    id: integer("id").notNull(),
+    team: integer("team").notNull(),
+    name: text("name").notNull(),
+    stationNumber: integer("station_number").notNull(),
+    startTime: integer("start_time").notNull(),
+    totalTime: integer("total_time").notNull(),
+    month: integer("month").notNull(),
+    day: integer("day").notNull(),
+    year: integer("year").notNull(),
+  }
+);
@@ -0,0 +1,197 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+// Builders hold per-table state, so shared column sets are factories.
+
+const allianceStationColumns = () => ({
+  match: integer("match").notNull(),
+  red1: integer("red1").notNull(),
+  red1s: integer("red1s").notNull(),
+  red2: integer("red2").notNull(),
+  red2s: integer("red2s").notNull(),
+  blue1: integer("blue1").notNull(),
+  blue1s: integer("blue1s").notNull(),
+  blue2: integer("blue2").notNull(),
+  blue2s: integer("blue2s").notNull(),
+});
+
+const matchDataColumns = () => ({
+  match: integer("match").notNull(),
+  status: integer("status").notNull(),
+  randomization: integer("randomization").notNull(),
+  start: integer("start").notNull(),
+  scheduleStart: integer("schedule_start").notNull(),
+  postedTime: integer("posted_time").notNull(),
+  fmsMatchId: text("fms_match_id").notNull(),
+  fmsScheduleDetailId: text("fms_schedule_detail_id").notNull(),
+});
+
+const resultColumns = () => ({
+  redScore: integer("red_score").notNull(),
+  blueScore: integer("blue_score").notNull(),
+  redPenaltyCommitted: integer("red_penalty_committed").notNull(),
+  bluePenaltyCommitted: integer("blue_penalty_committed").notNull(),
+});
+
+const qualsScoreColumns = () => ({
+  alliance: integer("alliance").notNull(),
+  card1: integer("card1").notNull(),
+  card2: integer("card2").notNull(),
+  dq1: integer("dq1").notNull(),
+  dq2: integer("dq2").notNull(),
+  noshow1: integer("noshow1").notNull(),
+  noshow2: integer("noshow2").notNull(),
+  major: integer("major").notNull(),
+  minor: integer("minor").notNull(),
+  adjust: integer("adjust").notNull(),
+});
+
+const elimsScoreColumns = () => ({
+  alliance: integer("alliance").notNull(),
+  card: integer("card").notNull(),
+  dq: integer("dq").notNull(),
+  noshow1: integer("noshow1").notNull(),
+  noshow2: integer("noshow2").notNull(),
+  noshow3: integer("noshow3").notNull(),
+  major: integer("major").notNull(),
+  minor: integer("minor").notNull(),
+  adjust: integer("adjust").notNull(),
+});
+
+const gameSpecificColumns = () => ({
+  alliance: integer("alliance").notNull(),
+  autoClassifiedArtifacts: integer("auto_classified_artifacts").notNull(),
+  autoOverflowArtifacts: integer("auto_overflow_artifacts").notNull(),
+  autoClassifierState: text("auto_classifier_state").notNull(),
+  robot1auto: integer("robot1auto").notNull(),
+  robot2auto: integer("robot2auto").notNull(),
+  teleopClassifiedArtifacts: integer("teleop_classified_artifacts").notNull(),
+  teleopOverflowArtifacts: integer("teleop_overflow_artifacts").notNull(),
+  teleopDepotArtifacts: integer("teleop_depot_artifacts").notNull(),
+  teleopClassifierState: text("teleop_classifier_state").notNull(),
+  robot1teleop: integer("robot1teleop").notNull(),
+  robot2teleop: integer("robot2teleop").notNull(),
+  violations: text("violations").notNull(),
+  ownMajor: integer("own_major").notNull(),
+  ownMinor: integer("own_minor").notNull(),
+  otherMajor: integer("other_major").notNull(),
+  otherMinor: integer("other_minor").notNull(),
+  hrMajor: integer("hr_major").notNull(),
+  hrMinor: integer("hr_minor").notNull(),
+});
+
+const historyKeyColumns = () => ({
+  match: integer("match").notNull(),
+  ts: integer("ts").notNull(),
+});
+
+const commitHistoryColumns = () => ({
+  ...historyKeyColumns(),
+  start: integer("start").notNull(),
+  random: integer("random").notNull(),
+  type: integer("type").notNull(),
+});
+
+const randomizationHistoryColumns = () => ({
+  ...historyKeyColumns(),
+  random: integer("random").notNull(),
+  external: integer("external").notNull(),
+});
+
+export const practice = sqliteTable("practice", allianceStationColumns());
+
+export const practiceData = sqliteTable("practice_data", matchDataColumns());
+
+export const quals = sqliteTable("quals", allianceStationColumns());
+
+export const qualsData = sqliteTable("quals_data", matchDataColumns());
+
+export const qualsResults = sqliteTable("quals_results", {
+  match: integer("match").primaryKey(),
+  ...resultColumns(),
+});
+
+export const qualsScores = sqliteTable("quals_scores", {
+  match: integer("match").notNull(),
+  ...qualsScoreColumns(),
+});
+
+export const qualsGameSpecific = sqliteTable("quals_game_specific", {
+  match: integer("match").notNull(),
+  ...gameSpecificColumns(),
+});
+
+export const elims = sqliteTable("elims", {
+  match: integer("match").notNull(),
+  red: integer("red").notNull(),
+  blue: integer("blue").notNull(),
+});
+
+export const elimsData = sqliteTable("elims_data", {
+  match: integer("match").notNull(),
+  status: integer("status").notNull(),
+  randomization: integer("randomization").notNull(),
+  start: integer("start").notNull(),
+  postedTime: integer("posted_time").notNull(),
+  fmsMatchId: text("fms_match_id").notNull(),
+  fmsScheduleDetailId: text("fms_schedule_detail_id").notNull(),
+});
+
+export const elimsResults = sqliteTable("elims_results", {
+  match: integer("match").notNull(),
+  ...resultColumns(),
+});
+
+export const elimsScores = sqliteTable("elims_scores", {
+  match: integer("match").notNull(),
+  ...elimsScoreColumns(),
+});
+
+export const elimsGameSpecific = sqliteTable("elims_game_specific", {
+  match: integer("match").notNull(),
+  ...gameSpecificColumns(),
+});
+
+export const qualsCommitHistory = sqliteTable(
+  "quals_commit_history",
+  commitHistoryColumns()
+);
+
+export const elimsCommitHistory = sqliteTable(
+  "elims_commit_history",
+  commitHistoryColumns()
+);
+
+export const qualsScoresHistory = sqliteTable("quals_scores_history", {
+  ...historyKeyColumns(),
+  ...qualsScoreColumns(),
+});
+
+export const qualsGameSpecificHistory = sqliteTable(
+  "quals_game_specific_history",
+  { ...historyKeyColumns(), ...gameSpecificColumns() }
+);
+
+export const elimsScoresHistory = sqliteTable("elims_scores_history", {
+  ...historyKeyColumns(),
+  ...elimsScoreColumns(),
+});
+
+export const elimsGameSpecificHistory = sqliteTable(
+  "elims_game_specific_history",
+  { ...historyKeyColumns(), ...gameSpecificColumns() }
+);
+
+export const practiceRandomizationHistory = sqliteTable(
+  "practice_randomization_history",
+  randomizationHistoryColumns()
+);
+
+export const qualsRandomizationHistory = sqliteTable(
+  "quals_randomization_history",
+  randomizationHistoryColumns()
+);
+
+export const elimsRandomizationHistory = sqliteTable(
+  "elims_randomization_history",
+  randomizationHistoryColumns()
+);
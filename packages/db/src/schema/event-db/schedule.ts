@@ -0,0 +1,45 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const practiceMatchSchedule = sqliteTable("practice_match_schedule", {
+  start: integer("start").notNull(),
+  end: integer("end").notNull(),
+  type: integer("type").notNull(),
+  label: text("label").notNull(),
+});
+
+export const practiceBlocks = sqliteTable("practice_blocks", {
+  start: integer("start").notNull(),
+  end: integer("end").notNull(),
+  type: text("type").notNull(),
+  cycleTime: integer("cycle_time").notNull(),
+  label: text("label"),
+});
+
+export const matchSchedule = sqliteTable("match_schedule", {
+  start: integer("start").notNull(),
+  end: integer("end").notNull(),
+  type: integer("type").notNull(),
+  label: text("label").notNull(),
+});
+
+export const blocks = sqliteTable("blocks", {
+  start: integer("start").notNull(),
+  end: integer("end").notNull(),
+  type: text("type").notNull(),
+  cycleTime: integer("cycle_time").notNull(),
+  label: text("label"),
+});
+
+export const selections = sqliteTable("selections", {
+  id: integer("id").primaryKey(),
+  op: integer("op").notNull(),
+  method: integer("method").notNull(),
+  team: integer("team").notNull(),
+});
+
+export const alliances = sqliteTable("alliances", {
+  rank: integer("rank").notNull(),
+  team1: integer("team1").notNull(),
+  team2: integer("team2").notNull(),
+  team3: integer("team3").notNull(),
+});
@@ -0,0 +1,16 @@
+import { integer, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+export const teams = sqliteTable("teams", {
+  number: integer("number").primaryKey(),
+  advancement: integer("advancement").notNull(),
+  division: integer("division").notNull(),
+  inspireEligible: integer("inspire_eligible").notNull(),
+  promoteEligible: integer("promote_eligible").notNull(),
+  competing: text("competing").notNull(),
+});
+
+export const status = sqliteTable("status", {
+  team: integer("team").notNull(),
+  stage: text("stage").notNull(),
+  status: integer("status").notNull(),
+});
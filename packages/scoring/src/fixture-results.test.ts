@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import path from "node:path";
+import { file } from "bun";
+
+import {
+  ALLIANCE,
+  type AllianceScoreSheet,
+  computeMatchScore,
+  validateAllianceScoreSheet,
+} from "./index";
+
+/** FTC Live export of a 20-match qualification event. */
+const FIXTURE_PATH = path.join(import.meta.dir, "../../../1234.db.json");
+
+type Row = Record<string, unknown>;
+
+interface QualsResult {
+  bluePenaltyCommitted: number;
+  blueScore: number;
+  match: number;
+  redPenaltyCommitted: number;
+  redScore: number;
+}
+
+interface Fixture {
+  qualsData: Row[];
+  qualsGameSpecific: Row[];
+  qualsResults: QualsResult[];
+  qualsScores: Row[];
+}
+
+const fixture = (await file(FIXTURE_PATH).json()) as Fixture;
+
+const findRow = (rows: Row[], match: unknown, alliance: number): Row => {
+  const row = rows.find(
+    (candidate) => candidate.match === match && candidate.alliance === alliance
+  );
+  if (!row) {
+    throw new Error(`Missing row for match ${match}, alliance ${alliance}.`);
+  }
+  return row;
+};
+
+const readSheet = (match: unknown, alliance: number): AllianceScoreSheet => {
+  const gameSpecific = findRow(fixture.qualsGameSpecific, match, alliance);
+  const result = validateAllianceScoreSheet({
+    ...findRow(fixture.qualsScores, match, alliance),
+    ...gameSpecific,
+    violations: JSON.parse(String(gameSpecific.violations)),
+  });
+  if (!("sheet" in result)) {
+    throw new Error(`Invalid score sheet for match ${match}.`);
+  }
+  return result.sheet;
+};
+
+describe("computeMatchScore against 1234.db.json", () => {
+  test("the fixture has every qualification result", () => {
+    expect(fixture.qualsResults).toHaveLength(20);
+  });
+
+  test.each(
+    fixture.qualsResults
+  )("reproduces qualification match $match", (result) => {
+    const { match } = result;
+    const data = fixture.qualsData.find((row) => row.match === match);
+    const score = computeMatchScore(
+      readSheet(match, ALLIANCE.red),
+      readSheet(match, ALLIANCE.blue),
+      Number(data?.randomization)
+    );
+
+    expect({
+      redScore: score.red.score,
+      blueScore: score.blue.score,
+      redPenaltyCommitted: score.red.penaltyCommitted,
+      bluePenaltyCommitted: score.blue.penaltyCommitted,
+    }).toEqual({
+      redScore: result.redScore,
+      blueScore: result.blueScore,
+      redPenaltyCommitted: result.redPenaltyCommitted,
+      bluePenaltyCommitted: result.bluePenaltyCommitted,
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  type AllianceScoreSheet,
+  BASE_STATUS,
+  computeMatchScore,
+  EMPTY_CLASSIFIER_STATE,
+  validateAllianceScoreSheet,
+} from "./index";
+
+const emptySheet = (): AllianceScoreSheet => {
+  const result = validateAllianceScoreSheet({});
+  if (!("sheet" in result)) {
+    throw new Error("An empty score sheet must validate.");
+  }
+  return result.sheet;
+};
+
+const sheet = (overrides: Partial<AllianceScoreSheet>): AllianceScoreSheet => ({
+  ...emptySheet(),
+  ...overrides,
+});
+
+describe("computeMatchScore", () => {
+  test("scores an empty sheet as zero", () => {
+    const score = computeMatchScore(emptySheet(), emptySheet(), 1);
+
+    expect(score.red.total).toBe(0);
+    expect(score.blue.total).toBe(0);
+  });
+
+  test("adds up auto, teleop and endgame", () => {
+    const red = sheet({
+      robot1Auto: true,
+      robot2Auto: true,
+      autoClassifiedArtifacts: 3,
+      autoOverflowArtifacts: 2,
+      autoClassifierState: "GPPGPPGPP",
+      teleopClassifiedArtifacts: 4,
+      teleopOverflowArtifacts: 1,
+      teleopDepotArtifacts: 2,
+      teleopClassifierState: "PGP------",
+      robot1Teleop: BASE_STATUS.full,
+      robot2Teleop: BASE_STATUS.full,
+    });
+
+    const { red: breakdown } = computeMatchScore(red, emptySheet(), 1);
+
+    expect(breakdown.autoLeave).toBe(6);
+    expect(breakdown.autoArtifacts).toBe(11);
+    expect(breakdown.autoPattern).toBe(18);
+    expect(breakdown.auto).toBe(35);
+    expect(breakdown.teleopArtifacts).toBe(15);
+    expect(breakdown.teleopPattern).toBe(2);
+    expect(breakdown.teleop).toBe(17);
+    expect(breakdown.endgame).toBe(30);
+    expect(breakdown.score).toBe(82);
+    expect(breakdown.total).toBe(82);
+  });
+
+  test("gives no pattern points without a motif", () => {
+    const red = sheet({ autoClassifierState: "GPPGPPGPP" });
+
+    expect(computeMatchScore(red, emptySheet(), -1).red.autoPattern).toBe(0);
+  });
+
+  test("scores a partial base without the both-full bonus", () => {
+    const red = sheet({
+      robot1Teleop: BASE_STATUS.partial,
+      robot2Teleop: BASE_STATUS.full,
+    });
+
+    expect(computeMatchScore(red, emptySheet(), 1).red.endgame).toBe(15);
+  });
+
+  test("counts the adjustment in the score", () => {
+    const red = sheet({ adjust: -4, autoOverflowArtifacts: 10 });
+
+    expect(computeMatchScore(red, emptySheet(), 1).red.score).toBe(6);
+  });
+
+  test("transfers fouls to the opposing alliance", () => {
+    const red = sheet({ teleopOverflowArtifacts: 10 });
+    const blue = sheet({ major: 1, minor: 2, teleopOverflowArtifacts: 4 });
+
+    const score = computeMatchScore(red, blue, 1);
+
+    expect(score.blue.penaltyCommitted).toBe(25);
+    expect(score.red.foulPoints).toBe(25);
+    expect(score.red.score).toBe(10);
+    expect(score.red.total).toBe(35);
+    expect(score.blue.foulPoints).toBe(0);
+    expect(score.blue.total).toBe(4);
+  });
+});
+
+describe("validateAllianceScoreSheet", () => {
+  test("fills missing fields with empty defaults", () => {
+    const result = validateAllianceScoreSheet({ robot1Auto: 1 });
+
+    expect(result).toEqual({
+      sheet: expect.objectContaining({
+        robot1Auto: true,
+        robot2Auto: false,
+        autoClassifierState: EMPTY_CLASSIFIER_STATE,
+        violations: [],
+      }),
+    });
+  });
+
+  test("rejects a value that is not an object", () => {
+    expect(validateAllianceScoreSheet(null)).toEqual({
+      errors: [{ field: "", message: "must be an object." }],
+    });
+  });
+
+  test("reports every invalid field", () => {
+    const result = validateAllianceScoreSheet({
+      autoClassifiedArtifacts: -1,
+      teleopOverflowArtifacts: 1.5,
+      dq1: "yes",
+      card1: 3,
+      robot2Teleop: 5,
+      autoClassifierState: "GGG",
+      violations: "G401",
+    });
+
+    expect(
+      "errors" in result && result.errors.map((error) => error.field)
+    ).toEqual([
+      "autoClassifiedArtifacts",
+      "teleopOverflowArtifacts",
+      "dq1",
+      "violations",
+      "autoClassifierState",
+      "robot2Teleop",
+      "card1",
+    ]);
+  });
+});
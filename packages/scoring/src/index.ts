@@ -0,0 +1,359 @@
+export const ALLIANCE = {
+  red: 0,
+  blue: 1,
+} as const;
+
+/** Points per scoring action in the DECODE game manual. */
+const POINTS = {
+  leave: 3,
+  classified: 3,
+  overflow: 1,
+  depot: 1,
+  patternMatch: 2,
+  partialBase: 5,
+  fullBase: 10,
+  bothFullBaseBonus: 10,
+  major: 15,
+  minor: 5,
+} as const;
+
+export const CLASSIFIER_SLOTS = 9;
+export const EMPTY_CLASSIFIER_STATE = "-".repeat(CLASSIFIER_SLOTS);
+const CLASSIFIER_STATE_PATTERN = /^[GP-]{9}$/;
+
+/** Obelisk motifs indexed by match randomization (1-3). */
+const MOTIFS: Record<number, string> = {
+  1: "GPP",
+  2: "PGP",
+  3: "PPG",
+};
+
+export const BASE_STATUS = {
+  none: 0,
+  partial: 1,
+  full: 2,
+} as const;
+
+export interface AllianceScoreSheet {
+  adjust: number;
+  autoClassifiedArtifacts: number;
+  autoClassifierState: string;
+  autoOverflowArtifacts: number;
+  card1: number;
+  card2: number;
+  dq1: boolean;
+  dq2: boolean;
+  hrMajor: number;
+  hrMinor: number;
+  major: number;
+  minor: number;
+  noshow1: boolean;
+  noshow2: boolean;
+  otherMajor: number;
+  otherMinor: number;
+  ownMajor: number;
+  ownMinor: number;
+  robot1Auto: boolean;
+  robot1Teleop: number;
+  robot2Auto: boolean;
+  robot2Teleop: number;
+  teleopClassifiedArtifacts: number;
+  teleopClassifierState: string;
+  teleopDepotArtifacts: number;
+  teleopOverflowArtifacts: number;
+  violations: string[];
+}
+
+export interface AllianceScoreBreakdown {
+  adjust: number;
+  auto: number;
+  autoArtifacts: number;
+  autoLeave: number;
+  autoPattern: number;
+  endgame: number;
+  /** Foul points awarded by the opponent's penalties. */
+  foulPoints: number;
+  /** Points this alliance's own fouls hand to the opponent. */
+  penaltyCommitted: number;
+  /** Score without foul points, as stored in the results tables. */
+  score: number;
+  teleop: number;
+  teleopArtifacts: number;
+  teleopPattern: number;
+  total: number;
+}
+
+export interface MatchScore {
+  blue: AllianceScoreBreakdown;
+  red: AllianceScoreBreakdown;
+}
+
+const countPatternMatches = (state: string, motif: string | null): number => {
+  if (!motif) {
+    return 0;
+  }
+  let matches = 0;
+  for (let slot = 0; slot < CLASSIFIER_SLOTS; slot += 1) {
+    const artifact = state[slot];
+    if (artifact !== "-" && artifact === motif[slot % motif.length]) {
+      matches += 1;
+    }
+  }
+  return matches;
+};
+
+const scoreBase = (status: number): number => {
+  if (status === BASE_STATUS.full) {
+    return POINTS.fullBase;
+  }
+  return status === BASE_STATUS.partial ? POINTS.partialBase : 0;
+};
+
+export const resolveMotif = (randomization: number): string | null =>
+  MOTIFS[randomization] ?? null;
+
+export const computePenaltyCommitted = (sheet: AllianceScoreSheet): number =>
+  sheet.major * POINTS.major + sheet.minor * POINTS.minor;
+
+/**
+ * Scores one alliance. `opponent` supplies the fouls that turn into points
+ * for this alliance; `randomization` selects the motif for pattern points.
+ */
+export const computeAllianceScore = (
+  sheet: AllianceScoreSheet,
+  opponent: AllianceScoreSheet,
+  randomization: number
+): AllianceScoreBreakdown => {
+  const motif = resolveMotif(randomization);
+
+  const autoLeave =
+    (Number(sheet.robot1Auto) + Number(sheet.robot2Auto)) * POINTS.leave;
+  const autoArtifacts =
+    sheet.autoClassifiedArtifacts * POINTS.classified +
+    sheet.autoOverflowArtifacts * POINTS.overflow;
+  const autoPattern =
+    countPatternMatches(sheet.autoClassifierState, motif) * POINTS.patternMatch;
+
+  const teleopArtifacts =
+    sheet.teleopClassifiedArtifacts * POINTS.classified +
+    sheet.teleopOverflowArtifacts * POINTS.overflow +
+    sheet.teleopDepotArtifacts * POINTS.depot;
+  const teleopPattern =
+    countPatternMatches(sheet.teleopClassifierState, motif) *
+    POINTS.patternMatch;
+
+  const bothFull =
+    sheet.robot1Teleop === BASE_STATUS.full &&
+    sheet.robot2Teleop === BASE_STATUS.full;
+  const endgame =
+    scoreBase(sheet.robot1Teleop) +
+    scoreBase(sheet.robot2Teleop) +
+    (bothFull ? POINTS.bothFullBaseBonus : 0);
+
+  const auto = autoLeave + autoArtifacts + autoPattern;
+  const teleop = teleopArtifacts + teleopPattern;
+  const score = auto + teleop + endgame + sheet.adjust;
+  const foulPoints = computePenaltyCommitted(opponent);
+
+  return {
+    auto,
+    autoLeave,
+    autoArtifacts,
+    autoPattern,
+    teleop,
+    teleopArtifacts,
+    teleopPattern,
+    endgame,
+    adjust: sheet.adjust,
+    score,
+    penaltyCommitted: computePenaltyCommitted(sheet),
+    foulPoints,
+    total: score + foulPoints,
+  };
+};
+
+export const computeMatchScore = (
+  red: AllianceScoreSheet,
+  blue: AllianceScoreSheet,
+  randomization: number
+): MatchScore => ({
+  red: computeAllianceScore(red, blue, randomization),
+  blue: computeAllianceScore(blue, red, randomization),
+});
+
+/** Ranking points for the match result, before bonus ranking points. */
+export const RESULT_RANKING_POINTS = {
+  win: 3,
+  tie: 1,
+  loss: 0,
+} as const;
+
+/** Qualification thresholds for the DECODE bonus ranking points. */
+const BONUS_THRESHOLDS = {
+  movement: 16,
+  goal: 36,
+  pattern: 18,
+} as const;
+
+export interface BonusRankingPoints {
+  goal: boolean;
+  movement: boolean;
+  pattern: boolean;
+}
+
+/**
+ * Movement counts leave and base points, goal counts artifacts scored through
+ * the goal (classified or overflow) and pattern counts motif points.
+ */
+export const computeBonusRankingPoints = (
+  sheet: AllianceScoreSheet,
+  breakdown: AllianceScoreBreakdown
+): BonusRankingPoints => {
+  const goalArtifacts =
+    sheet.autoClassifiedArtifacts +
+    sheet.autoOverflowArtifacts +
+    sheet.teleopClassifiedArtifacts +
+    sheet.teleopOverflowArtifacts;
+  return {
+    movement:
+      breakdown.autoLeave + breakdown.endgame >= BONUS_THRESHOLDS.movement,
+    goal: goalArtifacts >= BONUS_THRESHOLDS.goal,
+    pattern:
+      breakdown.autoPattern + breakdown.teleopPattern >=
+      BONUS_THRESHOLDS.pattern,
+  };
+};
+
+export const countBonusRankingPoints = (bonus: BonusRankingPoints): number =>
+  Number(bonus.movement) + Number(bonus.goal) + Number(bonus.pattern);
+
+const COUNT_FIELDS = [
+  "autoClassifiedArtifacts",
+  "autoOverflowArtifacts",
+  "teleopClassifiedArtifacts",
+  "teleopOverflowArtifacts",
+  "teleopDepotArtifacts",
+  "ownMajor",
+  "ownMinor",
+  "otherMajor",
+  "otherMinor",
+  "hrMajor",
+  "hrMinor",
+  "major",
+  "minor",
+] as const;
+const FLAG_FIELDS = [
+  "robot1Auto",
+  "robot2Auto",
+  "dq1",
+  "dq2",
+  "noshow1",
+  "noshow2",
+] as const;
+const MAX_COUNT = 255;
+const MAX_CARD = 2;
+const MAX_ADJUST = 999;
+
+export interface ScoreSheetError {
+  field: string;
+  message: string;
+}
+
+const isIntegerInRange = (
+  value: unknown,
+  minimum: number,
+  maximum: number
+): value is number =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= minimum &&
+  value <= maximum;
+
+/**
+ * Checks a submitted score sheet and fills optional fields with their empty
+ * defaults. Returns the list of problems when the sheet is not usable.
+ */
+export const validateAllianceScoreSheet = (
+  value: unknown
+): { errors: ScoreSheetError[] } | { sheet: AllianceScoreSheet } => {
+  if (!value || typeof value !== "object") {
+    return { errors: [{ field: "", message: "must be an object." }] };
+  }
+
+  const data = value as Record<string, unknown>;
+  const errors: ScoreSheetError[] = [];
+  const reject = (field: string, message: string): void => {
+    errors.push({ field, message });
+  };
+
+  const count = (field: string): number => {
+    const candidate = data[field] ?? 0;
+    if (!isIntegerInRange(candidate, 0, MAX_COUNT)) {
+      reject(field, `must be an integer between 0 and ${MAX_COUNT}.`);
+      return 0;
+    }
+    return candidate;
+  };
+  const flag = (field: string): boolean => {
+    const candidate = data[field] ?? false;
+    if (typeof candidate === "boolean") {
+      return candidate;
+    }
+    if (candidate === 0 || candidate === 1) {
+      return candidate === 1;
+    }
+    reject(field, "must be a boolean.");
+    return false;
+  };
+  const ranged = (field: string, minimum: number, maximum: number): number => {
+    const candidate = data[field] ?? 0;
+    if (!isIntegerInRange(candidate, minimum, maximum)) {
+      reject(field, `must be an integer between ${minimum} and ${maximum}.`);
+      return 0;
+    }
+    return candidate;
+  };
+  const classifierState = (field: string): string => {
+    const candidate = data[field] ?? EMPTY_CLASSIFIER_STATE;
+    if (
+      typeof candidate !== "string" ||
+      !CLASSIFIER_STATE_PATTERN.test(candidate)
+    ) {
+      reject(field, `must be ${CLASSIFIER_SLOTS} characters of G, P or -.`);
+      return EMPTY_CLASSIFIER_STATE;
+    }
+    return candidate;
+  };
+
+  const counts = Object.fromEntries(
+    COUNT_FIELDS.map((field) => [field, count(field)])
+  ) as Record<(typeof COUNT_FIELDS)[number], number>;
+  const flags = Object.fromEntries(
+    FLAG_FIELDS.map((field) => [field, flag(field)])
+  ) as Record<(typeof FLAG_FIELDS)[number], boolean>;
+
+  const violations = data.violations ?? [];
+  if (
+    !(
+      Array.isArray(violations) &&
+      violations.every((violation) => typeof violation === "string")
+    )
+  ) {
+    reject("violations", "must be an array of rule identifiers.");
+  }
+
+  const sheet: AllianceScoreSheet = {
+    ...counts,
+    ...flags,
+    autoClassifierState: classifierState("autoClassifierState"),
+    teleopClassifierState: classifierState("teleopClassifierState"),
+    robot1Teleop: ranged("robot1Teleop", BASE_STATUS.none, BASE_STATUS.full),
+    robot2Teleop: ranged("robot2Teleop", BASE_STATUS.none, BASE_STATUS.full),
+    card1: ranged("card1", 0, MAX_CARD),
+    card2: ranged("card2", 0, MAX_CARD),
+    adjust: ranged("adjust", -MAX_ADJUST, MAX_ADJUST),
+    violations: Array.isArray(violations) ? (violations as string[]) : [],
+  };
+
+  return errors.length > 0 ? { errors } : { sheet };
+};